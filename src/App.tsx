@@ -9,11 +9,26 @@ import { RecurringExpenseForm } from '@/components/inputs/RecurringExpenseForm';
 import { OneTimeExpenseForm } from '@/components/inputs/OneTimeExpenseForm';
 import { FoodBudgetForm } from '@/components/inputs/FoodBudgetForm';
 import { TransportForm } from '@/components/inputs/TransportForm';
+import { StudentLoanForm } from '@/components/inputs/StudentLoanForm';
+import { TaxReturnForm } from '@/components/inputs/TaxReturnForm';
+import { HolidayForm } from '@/components/inputs/HolidayForm';
+import { MonteCarloForm } from '@/components/inputs/MonteCarloForm';
+import { useEngine } from '@/hooks/useEngine';
+import { useProjectionRange } from '@/hooks/useProjectionRange';
+import { MinimumHoursSolver } from '@/components/tools/MinimumHoursSolver';
+import { LoanSolver } from '@/components/tools/LoanSolver';
 import { RotateDevicePrompt } from '@/components/RotateDevicePrompt';
 import { ConfirmDialog } from '@/components/ConfirmDialog';
+import { ImportIssueList } from '@/components/ImportIssueList';
+import { BankImportDialog } from '@/components/BankImportDialog';
 import { HelpModal } from '@/components/HelpModal';
-import { useBudgetStore, validateBudgetConfig } from '@/store/budgetStore';
-import { budgetTemplates } from '@/store/templates';
+import { useBudgetStore } from '@/store/budgetStore';
+import { useProjectionStore } from '@/store/projectionStore';
+import { parseBudgetConfig } from '@/store/budgetConfig';
+import { createBudgetTemplates } from '@/store/templates';
+import { estimatePaycheck, payPeriodsPerYear } from '@/engine/income';
+import { occurrencesPerYear } from '@/engine/recurrence';
+import { monthlyTotalsToCsv, snapshotsToCsv } from '@/lib/projectionCsv';
 import { WEEKDAYS_PER_MONTH, WEEKEND_DAYS_PER_MONTH, WEEKS_PER_MONTH } from '@/lib/constants';
 import * as TooltipPrimitive from '@radix-ui/react-tooltip';
 import {
@@ -30,10 +45,17 @@ import {
   FileText,
   Menu,
   Download,
+  FileSpreadsheet,
+  Landmark,
   Upload,
+  Calculator,
+  GraduationCap,
+  Receipt,
+  CalendarOff,
+  Dices,
 } from 'lucide-react';
 
-type Section = 'general' | 'income' | 'one-time-income' | 'expenses' | 'one-time-expenses' | 'food' | 'transport';
+type Section = 'general' | 'income' | 'one-time-income' | 'expenses' | 'one-time-expenses' | 'food' | 'transport' | 'loans' | 'tax' | 'holidays' | 'simulation' | 'tools';
 
 interface InputSectionProps {
   id: Section;
@@ -99,6 +121,28 @@ function InputSection({ id, title, icon, openSections, onToggle, children, hasWa
   );
 }
 
+/** Runs the projection and simulation in the background; renders nothing */
+function EngineRunner() {
+  useEngine();
+  return null;
+}
+
+/** Local date and time for exported file names, e.g. 2026-03-14_09-30 */
+function fileTimestamp(): string {
+  const now = new Date();
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}_${pad(now.getHours())}-${pad(now.getMinutes())}`;
+}
+
+function downloadFile(contents: string, type: string, filename: string) {
+  const url = URL.createObjectURL(new Blob([contents], { type }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
 const MemoizedCharts = memo(function MemoizedCharts() {
   return (
     <>
@@ -133,46 +177,55 @@ export default function App() {
   const exportConfig = useBudgetStore((s) => s.exportConfig);
   const importConfig = useBudgetStore((s) => s.importConfig);
   const hasUserEdits = useBudgetStore((s) => s.hasUserEdits);
+  const savedBudgetProblem = useBudgetStore((s) => s.savedBudgetProblem);
+  const dismissSavedBudgetProblem = useBudgetStore((s) => s.dismissSavedBudgetProblem);
+  const startDate = useBudgetStore((s) => s.startDate);
   const mainRef = useRef<HTMLElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const statementInputRef = useRef<HTMLInputElement>(null);
+  const [statementFile, setStatementFile] = useState<{ name: string; text: string } | null>(null);
 
   // Get state for determining if sections are inactive
   const recurringIncomes = useBudgetStore((s) => s.recurringIncomes);
+  const monteCarlo = useBudgetStore((s) => s.monteCarlo);
   const oneTimeIncomes = useBudgetStore((s) => s.oneTimeIncomes);
   const oneTimeExpenses = useBudgetStore((s) => s.oneTimeExpenses);
   const recurringExpenses = useBudgetStore((s) => s.recurringExpenses);
   const foodBudget = useBudgetStore((s) => s.foodBudget);
   const transportConfig = useBudgetStore((s) => s.transportConfig);
+  const studentLoans = useBudgetStore((s) => s.studentLoans) ?? [];
+  const taxReturn = useBudgetStore((s) => s.taxReturn);
 
   // Use centralized out-of-range detection
-  const { hasOutOfRangeRecurring, hasOutOfRangeIncomes, hasOutOfRangeExpenses } = useOutOfRangeDetection();
+  const { hasOutOfRangeRecurring, hasOutOfRangeIncomes, hasOutOfRangeExpenses, hasOutOfRangeRecurringExpenses } = useOutOfRangeDetection();
 
   // Calculate summary amounts for section headers
+  // Take-home pay: next net paycheck × paychecks per year ÷ 12 months
+  const { start: projectionStartDate } = useProjectionRange();
   const monthlyRecurringIncome = recurringIncomes
     .filter((income) => income.enabled !== false)
-    .reduce((sum, income) => {
-      const weeklyAmount = income.hoursPerWeek * income.hourlyRate;
-      switch (income.frequency) {
-        case 'weekly':
-          return sum + weeklyAmount * WEEKS_PER_MONTH;
-        case 'biweekly':
-          return sum + weeklyAmount * 2 * (WEEKS_PER_MONTH / 2); // 26 paychecks/year ÷ 12 months
-        case 'monthly':
-          return sum + weeklyAmount * WEEKS_PER_MONTH;
-        default:
-          return sum;
-      }
-    }, 0);
-
-  const monthlyExpensesTotal = recurringExpenses
-    .filter((exp) => exp.enabled !== false)
-    .reduce((sum, exp) => sum + exp.amount, 0);
+    .reduce(
+      (sum, income) =>
+        sum + (estimatePaycheck(income, projectionStartDate).net * payPeriodsPerYear(income.frequency)) / 12,
+      0
+    );
+
+  // Non-monthly expenses are spread evenly over the year
+  const enabledRecurringExpenses = recurringExpenses.filter((exp) => exp.enabled !== false);
+  const monthlyExpensesTotal = enabledRecurringExpenses.reduce(
+    (sum, exp) => sum + (exp.amount * occurrencesPerYear(exp.recurrence)) / 12,
+    0
+  );
+  const expensesApproximate = enabledRecurringExpenses.some(
+    (exp) => exp.recurrence.unit !== 'month' || exp.recurrence.interval !== 1
+  );
 
   // Count disabled items for each section
   const disabledRecurringIncomes = recurringIncomes.filter((i) => i.enabled === false).length;
   const disabledOneTimeIncomes = oneTimeIncomes.filter((i) => i.enabled === false).length;
   const disabledOneTimeExpenses = oneTimeExpenses.filter((e) => e.enabled === false).length;
   const disabledRecurringExpenses = recurringExpenses.filter((e) => e.enabled === false).length;
+  const disabledStudentLoans = studentLoans.filter((l) => l.enabled === false).length;
 
   const weekdayFoodDaily =
     foodBudget.weekdayBreakfast +
@@ -251,20 +304,18 @@ export default function App() {
   }, [templateMenuOpen, headerMenuOpen]);
 
   const handleExport = useCallback(() => {
-    const json = exportConfig();
-    const blob = new Blob([json], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    const now = new Date();
-    const pad = (n: number) => String(n).padStart(2, '0');
-    const filename = `budget-${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}_${pad(now.getHours())}-${pad(now.getMinutes())}.json`;
-    a.download = filename;
-    a.click();
-    URL.revokeObjectURL(url);
+    downloadFile(exportConfig(), 'application/json', `budget-${fileTimestamp()}.json`);
     setHeaderMenuOpen(false);
   }, [exportConfig]);
 
+  const handleExportCsv = useCallback((period: 'daily' | 'monthly') => {
+    // Read at click time so App doesn't re-render on every projection
+    const { snapshots } = useProjectionStore.getState().result;
+    const csv = period === 'daily' ? snapshotsToCsv(snapshots) : monthlyTotalsToCsv(snapshots);
+    downloadFile(csv, 'text/csv', `projection-${period}-${fileTimestamp()}.csv`);
+    setHeaderMenuOpen(false);
+  }, []);
+
   const handleImportClick = useCallback(() => {
     fileInputRef.current?.click();
   }, []);
@@ -278,13 +329,45 @@ export default function App() {
       const text = ev.target?.result as string;
       
       // Validate without importing
-      const validation = validateBudgetConfig(text);
-      
+      const validation = parseBudgetConfig(text);
+
+      if (!validation.success && validation.recovered) {
+        // Offer to import what's valid instead of rejecting the whole file
+        const count = validation.issues.length;
+        setConfirmDialog({
+          isOpen: true,
+          title: 'Import Valid Items?',
+          message: (
+            <>
+              <strong>{fileName}</strong> has {count} {count === 1 ? 'problem' : 'problems'}. You can import the rest of it:
+              items with problems are left out and invalid settings are reset to their defaults.
+              {hasUserEdits && ' This will replace all current values.'}
+              <ImportIssueList issues={validation.issues} />
+            </>
+          ),
+          confirmLabel: 'Import Valid Items',
+          onConfirm: () => {
+            importConfig(text, { recover: true });
+            setConfirmDialog({ isOpen: false, title: '', message: '', onConfirm: () => {} });
+          },
+        });
+        setHeaderMenuOpen(false);
+        return;
+      }
+
       if (!validation.success) {
         setConfirmDialog({
           isOpen: true,
           title: 'Import Failed',
-          message: validation.error || 'Unknown error occurred.',
+          message:
+            validation.issues.length > 0 ? (
+              <>
+                This file isn't a budget that can be imported.
+                <ImportIssueList issues={validation.issues} />
+              </>
+            ) : (
+              validation.error
+            ),
           confirmLabel: 'Ok',
           variant: 'danger',
           hideCancelButton: true,
@@ -323,6 +406,15 @@ export default function App() {
     e.target.value = '';
   }, [importConfig, hasUserEdits]);
 
+  const handleStatementChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = (ev) => setStatementFile({ name: file.name, text: ev.target?.result as string });
+    reader.readAsText(file);
+    e.target.value = '';
+  }, []);
+
   return (
     <TooltipPrimitive.Provider delayDuration={300} skipDelayDuration={100}>
       <RotateDevicePrompt />
@@ -363,6 +455,13 @@ export default function App() {
               className="hidden"
               onChange={handleFileChange}
             />
+            <input
+              ref={statementInputRef}
+              type="file"
+              accept=".csv,.ofx,.qfx,.qif,text/csv"
+              className="hidden"
+              onChange={handleStatementChange}
+            />
             <div className="relative header-menu-container">
               <button
                 onClick={() => setHeaderMenuOpen(!headerMenuOpen)}
@@ -372,7 +471,7 @@ export default function App() {
                 <Menu className="w-4 h-4" />
               </button>
               {headerMenuOpen && (
-                <div className="absolute top-full right-0 mt-1 bg-white border border-input rounded-md shadow-xl z-[100] w-48 overflow-hidden">
+                <div className="absolute top-full right-0 mt-1 bg-white border border-input rounded-md shadow-xl z-[100] w-52 overflow-hidden">
                   <button
                     onClick={handleExport}
                     className="w-full flex items-center gap-2 px-3 py-2.5 text-sm hover:bg-accent transition-colors cursor-pointer text-left"
@@ -380,13 +479,34 @@ export default function App() {
                     <Download className="w-3.5 h-3.5" />
                     Export Data
                   </button>
+                  <button
+                    onClick={() => handleExportCsv('daily')}
+                    className="w-full flex items-center gap-2 px-3 py-2.5 text-sm hover:bg-accent transition-colors cursor-pointer text-left"
+                  >
+                    <FileSpreadsheet className="w-3.5 h-3.5" />
+                    Export Daily CSV
+                  </button>
+                  <button
+                    onClick={() => handleExportCsv('monthly')}
+                    className="w-full flex items-center gap-2 px-3 py-2.5 text-sm hover:bg-accent transition-colors cursor-pointer text-left"
+                  >
+                    <FileSpreadsheet className="w-3.5 h-3.5" />
+                    Export Monthly CSV
+                  </button>
                   <button
                     onClick={() => { handleImportClick(); setHeaderMenuOpen(false); }}
-                    className="w-full flex items-center gap-2 px-3 py-2.5 text-sm hover:bg-accent transition-colors cursor-pointer text-left border-b"
+                    className="w-full flex items-center gap-2 px-3 py-2.5 text-sm hover:bg-accent transition-colors cursor-pointer text-left"
                   >
                     <Upload className="w-3.5 h-3.5" />
                     Import Data
                   </button>
+                  <button
+                    onClick={() => { statementInputRef.current?.click(); setHeaderMenuOpen(false); }}
+                    className="w-full flex items-center gap-2 px-3 py-2.5 text-sm hover:bg-accent transition-colors cursor-pointer text-left border-b"
+                  >
+                    <Landmark className="w-3.5 h-3.5" />
+                    Import Bank Statement
+                  </button>
                   <button
                     onClick={() => {
                       setHeaderMenuOpen(false);
@@ -447,7 +567,7 @@ export default function App() {
                 </button>
                 {templateMenuOpen && (
                   <div className="absolute top-full right-0 mt-1 bg-white border border-input rounded-md shadow-xl z-[100] max-h-80 overflow-y-auto w-64">
-                    {budgetTemplates.map((template) => (
+                    {createBudgetTemplates(startDate).map((template) => (
                       <button
                         key={template.name}
                         onClick={() => {
@@ -532,17 +652,31 @@ export default function App() {
 
           <InputSection
             id="expenses"
-            title="Monthly Expenses"
+            title="Recurring Expenses"
             icon={<TrendingDown className="w-4 h-4 text-red-500" />}
             openSections={openSections}
             onToggle={toggle}
+            hasWarning={hasOutOfRangeRecurringExpenses}
             isInactive={recurringExpenses.length === 0}
             summaryAmount={monthlyExpensesTotal}
+            isApproximate={expensesApproximate}
             disabledCount={disabledRecurringExpenses}
           >
             <RecurringExpenseForm />
           </InputSection>
 
+          <InputSection
+            id="loans"
+            title="Student Loans"
+            icon={<GraduationCap className="w-4 h-4 text-indigo-500" />}
+            openSections={openSections}
+            onToggle={toggle}
+            isInactive={studentLoans.length === 0}
+            disabledCount={disabledStudentLoans}
+          >
+            <StudentLoanForm />
+          </InputSection>
+
           <InputSection
             id="food"
             title="Food Budget"
@@ -566,6 +700,53 @@ export default function App() {
           >
             <TransportForm />
           </InputSection>
+
+          <InputSection
+            id="tax"
+            title="Tax Return"
+            icon={<Receipt className="w-4 h-4 text-emerald-500" />}
+            openSections={openSections}
+            onToggle={toggle}
+            isInactive={!taxReturn?.enabled}
+          >
+            <TaxReturnForm />
+          </InputSection>
+
+          <InputSection
+            id="holidays"
+            title="Holidays"
+            icon={<CalendarOff className="w-4 h-4 text-rose-500" />}
+            openSections={openSections}
+            onToggle={toggle}
+          >
+            <HolidayForm />
+          </InputSection>
+
+          <InputSection
+            id="simulation"
+            title="Simulation"
+            icon={<Dices className="w-4 h-4 text-sky-500" />}
+            openSections={openSections}
+            onToggle={toggle}
+            isInactive={!monteCarlo?.enabled}
+          >
+            <MonteCarloForm />
+          </InputSection>
+
+          <InputSection
+            id="tools"
+            title="Planning Tools"
+            icon={<Calculator className="w-4 h-4 text-violet-500" />}
+            openSections={openSections}
+            onToggle={toggle}
+          >
+            <div className="space-y-4">
+              <h3 className="text-sm font-semibold">Minimum Hours to Work</h3>
+              <MinimumHoursSolver />
+              <h3 className="text-sm font-semibold pt-2 border-t">Student Loan Amount</h3>
+              <LoanSolver />
+            </div>
+          </InputSection>
           </div>
         </aside>
 
@@ -573,6 +754,7 @@ export default function App() {
         <main ref={mainRef} className="flex-1 p-6 space-y-6">
           <SummaryCards />
 
+          <EngineRunner />
           <MemoizedCharts />
         </main>
       </div>
@@ -591,6 +773,41 @@ export default function App() {
         confirmLabel={confirmDialog.confirmLabel}
         hideCancelButton={confirmDialog.hideCancelButton}
       />
+      {savedBudgetProblem && (
+        <ConfirmDialog
+          isOpen
+          title="Saved Budget Has Problems"
+          message={
+            savedBudgetProblem.recovered ? (
+              <>
+                Your saved budget has {savedBudgetProblem.issues.length}{' '}
+                {savedBudgetProblem.issues.length === 1 ? 'problem' : 'problems'}. Items with problems were left out and
+                invalid settings reset to their defaults. Download the saved copy to keep them; it is replaced the next
+                time you make a change.
+                <ImportIssueList issues={savedBudgetProblem.issues} />
+              </>
+            ) : (
+              <>
+                Your saved budget couldn't be loaded, so the default budget is shown. Download the saved copy to keep
+                it; it is replaced the next time you make a change.
+                {savedBudgetProblem.issues.length > 0 ? (
+                  <ImportIssueList issues={savedBudgetProblem.issues} />
+                ) : (
+                  <p className="mt-3 text-xs">{savedBudgetProblem.error}</p>
+                )}
+              </>
+            )
+          }
+          confirmLabel="Download Saved Copy"
+          cancelLabel="Continue"
+          onConfirm={() => {
+            downloadFile(savedBudgetProblem.saved, 'application/json', `saved-budget-${fileTimestamp()}.json`);
+            dismissSavedBudgetProblem();
+          }}
+          onCancel={dismissSavedBudgetProblem}
+        />
+      )}
+      <BankImportDialog file={statementFile} onClose={() => setStatementFile(null)} />
     </div>
     </TooltipPrimitive.Provider>
   );
@@ -0,0 +1,151 @@
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { basename, extname, join } from 'node:path';
+import { parseArgs } from 'node:util';
+import { isValid, parseISO } from 'date-fns';
+import { runProjection, summarizeProjection } from '@/engine/projection';
+import type { BudgetConfig, DailySnapshot } from '@/engine/types';
+import { parseBudgetConfig } from '@/store/budgetConfig';
+import { snapshotsToCsv } from '@/lib/projectionCsv';
+import { formatSummary } from './report';
+
+// Command line tool: project exported budget files without the browser.
+// Exits with 1 when any budget's balance goes negative, 2 on bad input.
+
+const USAGE = `Usage: npm run cli -- [options] <budget.json>...
+
+Projects each exported budget file and prints its danger date, lowest
+balance and totals.
+
+Options:
+  --format <summary|csv|json>  Output: a summary (default) or the daily snapshots
+  --out <file>                 Write snapshots to a file instead of stdout (one budget)
+  --out-dir <dir>              Write snapshots to <dir>/<name>.csv|json (any number of budgets)
+  --start <yyyy-mm-dd>         Project from this date instead of the file's start date
+  -h, --help                   Show this help
+
+Exit status: 0 if every balance stays positive, 1 if any goes negative,
+2 if a file can't be read or isn't a valid budget.`;
+
+const FORMATS = ['summary', 'csv', 'json'] as const;
+type Format = (typeof FORMATS)[number];
+
+const EXIT_NEGATIVE = 1;
+const EXIT_INVALID = 2;
+
+class UsageError extends Error {}
+
+interface Options {
+  files: string[];
+  format: Format;
+  out?: string;
+  outDir?: string;
+  start?: string;
+}
+
+function readOptions(args: string[]): Options | null {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      format: { type: 'string', default: 'summary' },
+      out: { type: 'string' },
+      'out-dir': { type: 'string' },
+      start: { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+  if (values.help) return null;
+
+  const format = values.format as Format;
+  if (!FORMATS.includes(format)) throw new UsageError(`Unknown format "${values.format}"`);
+  if (positionals.length === 0) throw new UsageError('No budget files given');
+  if (values.start !== undefined) {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(values.start)) {
+      throw new UsageError(`Start date "${values.start}" isn't in yyyy-mm-dd form`);
+    }
+    if (!isValid(parseISO(values.start))) throw new UsageError(`Start date "${values.start}" doesn't exist`);
+  }
+  if (format !== 'summary') {
+    if (values.out && values['out-dir']) throw new UsageError('Use either --out or --out-dir, not both');
+    if (positionals.length > 1 && !values['out-dir']) {
+      throw new UsageError(`Writing ${format} for several budgets needs --out-dir`);
+    }
+  }
+  return { files: positionals, format, out: values.out, outDir: values['out-dir'], start: values.start };
+}
+
+async function loadConfig(file: string): Promise<BudgetConfig> {
+  const result = parseBudgetConfig(await readFile(file, 'utf8'));
+  if (!result.success) throw new Error(result.error);
+  return result.config;
+}
+
+function serialize(format: Exclude<Format, 'summary'>, snapshots: DailySnapshot[]): string {
+  return format === 'csv' ? snapshotsToCsv(snapshots) : JSON.stringify(snapshots, null, 2) + '\n';
+}
+
+/** Where a budget's snapshots go: a file path, or null for stdout */
+function outputPath(options: Options, file: string, format: Format): string | null {
+  if (options.outDir) return join(options.outDir, `${basename(file, extname(file))}.${format}`);
+  return options.out ?? null;
+}
+
+async function main(args: string[]): Promise<number> {
+  let options: Options | null;
+  try {
+    options = readOptions(args);
+  } catch (err) {
+    console.error(`${err instanceof Error ? err.message : String(err)}\n\n${USAGE}`);
+    return EXIT_INVALID;
+  }
+  if (!options) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  const { format } = options;
+  if (options.outDir) await mkdir(options.outDir, { recursive: true });
+
+  let exitCode = 0;
+  for (const file of options.files) {
+    let config: BudgetConfig;
+    try {
+      config = await loadConfig(file);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      console.error(`${file}: ${message.replace(/\n/g, '\n  ')}`);
+      exitCode = EXIT_INVALID;
+      continue;
+    }
+    if (options.start) config.startDate = options.start;
+
+    const snapshots = runProjection(config);
+    const summary = summarizeProjection(snapshots);
+    if (summary.dangerDate && exitCode === 0) exitCode = EXIT_NEGATIVE;
+
+    if (format === 'summary') {
+      console.log(formatSummary(file, snapshots, summary));
+      continue;
+    }
+    const path = outputPath(options, file, format);
+    if (path) {
+      await writeFile(path, serialize(format, snapshots));
+      console.log(`${formatSummary(file, snapshots, summary)}\n  Snapshots written to ${path}`);
+    } else {
+      // Keep stdout to the snapshots so it can be piped
+      process.stdout.write(serialize(format, snapshots));
+      console.error(formatSummary(file, snapshots, summary));
+    }
+  }
+  return exitCode;
+}
+
+main(process.argv.slice(2)).then(
+  (code) => {
+    process.exitCode = code;
+  },
+  (err: unknown) => {
+    console.error(err instanceof Error ? err.message : String(err));
+    process.exitCode = EXIT_INVALID;
+  }
+);
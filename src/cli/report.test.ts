@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { summarizeProjection } from '@/engine/projection';
+import { SAMPLE_SNAPSHOTS as snapshots } from '@/engine/__tests__/snapshots';
+import { formatSummary } from './report';
+
+describe('formatSummary', () => {
+  it('reports the danger date, lowest balance and totals', () => {
+    const summary = summarizeProjection(snapshots);
+    expect(summary.dangerDate?.date).toBe('2025-03-02');
+    expect(formatSummary('budget.json', snapshots, summary)).toBe(
+      [
+        'budget.json: Mar 1, 2025 to Mar 3, 2025',
+        '  Balance goes negative on Mar 2, 2025',
+        '  Lowest balance:  -$20 on Mar 2, 2025',
+        '  Total income:    $600',
+        '  Total expenses:  $170',
+        '  Final balance:   $580',
+        '  Owed on loans:   $1,002',
+      ].join('\n')
+    );
+  });
+});
@@ -0,0 +1,38 @@
+import { parseISO } from 'date-fns';
+import type { DailySnapshot } from '@/engine/types';
+import type { ProjectionSummary } from '@/engine/projection';
+import { formatCurrency, formatDate } from '@/lib/utils';
+
+// Text output of the command line tool
+
+function snapshotDate(snapshot: DailySnapshot): string {
+  return formatDate(parseISO(snapshot.date));
+}
+
+/** Summary lines for one budget file */
+export function formatSummary(name: string, snapshots: DailySnapshot[], summary: ProjectionSummary): string {
+  const first = snapshots[0];
+  const last = snapshots[snapshots.length - 1];
+  const lines = [
+    first && last ? `${name}: ${snapshotDate(first)} to ${snapshotDate(last)}` : `${name}: no days projected`,
+  ];
+
+  lines.push(
+    summary.dangerDate
+      ? `  Balance goes negative on ${snapshotDate(summary.dangerDate)}`
+      : '  Balance stays positive'
+  );
+  if (summary.lowestPoint) {
+    const { lowestPoint } = summary;
+    lines.push(`  Lowest balance:  ${formatCurrency(lowestPoint.balance)} on ${snapshotDate(lowestPoint)}`);
+  }
+  lines.push(
+    `  Total income:    ${formatCurrency(summary.totalIncome)}`,
+    `  Total expenses:  ${formatCurrency(summary.totalExpenses)}`,
+    `  Final balance:   ${formatCurrency(summary.finalBalance)}`
+  );
+  if (summary.finalLiabilities > 0) {
+    lines.push(`  Owed on loans:   ${formatCurrency(summary.finalLiabilities)}`);
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,521 @@
+import { ReactNode, useMemo, useState } from 'react';
+import * as Dialog from '@radix-ui/react-dialog';
+import { X } from 'lucide-react';
+import { parseISO } from 'date-fns';
+import { useBudgetStore } from '@/store/budgetStore';
+import { useProjectionRange } from '@/hooks/useProjectionRange';
+import { formatDate } from '@/lib/utils';
+import { guessColumnMapping, readTransactions, type ColumnMapping, type DateOrder } from '@/import/bankCsv';
+import {
+  analyzeStatement,
+  itemLabel,
+  seriesToExpenses,
+  seriesToIncome,
+  type Cadence,
+  type RecurringSeries,
+  type StatementAnalysis,
+} from '@/import/detect';
+import { readStatementFile } from '@/import/statementFile';
+import type { ParsedStatement } from '@/import/types';
+
+const CADENCE_LABELS: Record<Cadence, string> = {
+  weekly: 'Weekly',
+  biweekly: 'Biweekly',
+  semimonthly: 'Semi-monthly',
+  monthly: 'Monthly',
+};
+
+const DATE_ORDER_LABELS: Record<DateOrder, string> = {
+  ymd: 'Year-month-day',
+  mdy: 'Month/day/year',
+  dmy: 'Day/month/year',
+};
+
+const PREVIEW_ROWS = 4;
+
+const textInputClass =
+  'rounded-md border border-input bg-background px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-ring';
+
+const selectClass =
+  'w-full rounded-md border border-input bg-background px-3 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-ring';
+
+function money(amount: number): string {
+  return `$${amount.toFixed(2)}`;
+}
+
+function shortDate(date: string): string {
+  return formatDate(parseISO(date));
+}
+
+interface BankImportDialogProps {
+  /** The statement file; the dialog is open while there is one */
+  file: { name: string; text: string } | null;
+  onClose: () => void;
+}
+
+/**
+ * Reads a bank or card statement, finds recurring deposits and charges in
+ * it, and lets the user pick which to add to the budget.
+ */
+export function BankImportDialog({ file, onClose }: BankImportDialogProps) {
+  return (
+    <Dialog.Root open={file !== null} onOpenChange={(open) => { if (!open) onClose(); }}>
+      <Dialog.Portal>
+        <Dialog.Overlay className="dialog-overlay fixed inset-0 z-[200] bg-black/50 backdrop-blur-sm" />
+        <div className="fixed inset-0 z-[201] grid place-items-center overflow-y-auto p-4">
+          <Dialog.Content className="dialog-content max-w-2xl w-full rounded-lg border border-border bg-white shadow-2xl my-8">
+            <div className="relative px-6 py-4 border-b border-border">
+              <Dialog.Title className="text-lg font-semibold pr-8">Import Bank Statement</Dialog.Title>
+              <Dialog.Close asChild>
+                <button
+                  className="absolute top-1/2 right-4 -translate-y-1/2 p-1 rounded-md text-muted-foreground hover:text-foreground hover:bg-accent transition-colors cursor-pointer"
+                  aria-label="Close"
+                >
+                  <X className="h-4 w-4" />
+                </button>
+              </Dialog.Close>
+            </div>
+            {/* Keyed so a new file starts over with a fresh guess */}
+            {file && <StatementImport key={file.name + file.text.length} file={file} onClose={onClose} />}
+          </Dialog.Content>
+        </div>
+      </Dialog.Portal>
+    </Dialog.Root>
+  );
+}
+
+function StatementImport({ file, onClose }: { file: { name: string; text: string }; onClose: () => void }) {
+  const source = useMemo(() => readStatementFile(file.text), [file.text]);
+  if (source.format === 'csv') return <CsvImport fileName={file.name} rows={source.rows} onClose={onClose} />;
+  // OFX and QIF say what each field is, so they go straight to review
+  return <ReviewStep statement={source.statement} backLabel="Cancel" onBack={onClose} onDone={onClose} />;
+}
+
+function CsvImport({ fileName, rows, onClose }: { fileName: string; rows: string[][]; onClose: () => void }) {
+  const [mapping, setMapping] = useState(() => guessColumnMapping(rows));
+  const read = useMemo(() => readTransactions(rows, mapping), [rows, mapping]);
+  const [reviewing, setReviewing] = useState(false);
+
+  if (!reviewing) {
+    return (
+      <ColumnStep
+        fileName={fileName}
+        rows={rows}
+        mapping={mapping}
+        onChange={(data) => setMapping({ ...mapping, ...data })}
+        transactionCount={read.transactions.length}
+        skippedCount={read.skippedLines.length}
+        onContinue={() => setReviewing(true)}
+        onCancel={onClose}
+      />
+    );
+  }
+  return (
+    <ReviewStep
+      statement={{ transactions: read.transactions, balance: null }}
+      backLabel="Back"
+      onBack={() => setReviewing(false)}
+      onDone={onClose}
+    />
+  );
+}
+
+interface ColumnStepProps {
+  fileName: string;
+  rows: string[][];
+  mapping: ColumnMapping;
+  onChange: (data: Partial<ColumnMapping>) => void;
+  transactionCount: number;
+  skippedCount: number;
+  onContinue: () => void;
+  onCancel: () => void;
+}
+
+type ColumnKey = 'dateColumn' | 'descriptionColumn' | 'amountColumn' | 'debitColumn' | 'creditColumn';
+
+function ColumnStep({
+  fileName,
+  rows,
+  mapping,
+  onChange,
+  transactionCount,
+  skippedCount,
+  onContinue,
+  onCancel,
+}: ColumnStepProps) {
+  const width = Math.max(0, ...rows.slice(0, 20).map((r) => r.length));
+  const header = rows[0] ?? [];
+  const preview = rows.slice(mapping.hasHeader ? 1 : 0, (mapping.hasHeader ? 1 : 0) + PREVIEW_ROWS);
+  const columnName = (i: number) => (mapping.hasHeader && header[i]?.trim() ? header[i]!.trim() : `Column ${i + 1}`);
+
+  const columnSelect = (label: string, key: ColumnKey) => (
+    <div>
+      <label className="block text-xs text-muted-foreground mb-1">{label}</label>
+      <select value={mapping[key]} onChange={(e) => onChange({ [key]: Number(e.target.value) })} className={selectClass}>
+        {Array.from({ length: width }, (_, i) => (
+          <option key={i} value={i}>
+            {columnName(i)}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+
+  return (
+    <>
+      <div className="px-6 py-4 space-y-4 max-h-[70vh] overflow-y-auto text-sm">
+        <Dialog.Description className="text-muted-foreground">
+          Match the columns of <strong>{fileName}</strong>. Everything is read on this device; nothing is uploaded.
+        </Dialog.Description>
+
+        <div className="overflow-x-auto rounded-md border border-border">
+          <table className="w-full text-xs">
+            <thead className="bg-gray-50">
+              <tr>
+                {Array.from({ length: width }, (_, i) => (
+                  <th key={i} className="px-2 py-1.5 text-left font-medium whitespace-nowrap">
+                    {columnName(i)}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {preview.map((row, r) => (
+                <tr key={r} className="border-t border-border">
+                  {Array.from({ length: width }, (_, i) => (
+                    <td key={i} className="px-2 py-1 whitespace-nowrap text-muted-foreground max-w-[12rem] truncate">
+                      {row[i]}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <label className="inline-flex items-center gap-2 text-xs cursor-pointer">
+          <input
+            type="checkbox"
+            checked={mapping.hasHeader}
+            onChange={(e) => onChange({ hasHeader: e.target.checked })}
+            className="rounded border-input cursor-pointer"
+          />
+          First row is column names
+        </label>
+
+        <div className="grid grid-cols-2 gap-3">
+          {columnSelect('Date', 'dateColumn')}
+          <div>
+            <label className="block text-xs text-muted-foreground mb-1">Date format</label>
+            <select
+              value={mapping.dateOrder}
+              onChange={(e) => onChange({ dateOrder: e.target.value as DateOrder })}
+              className={selectClass}
+            >
+              {Object.entries(DATE_ORDER_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </div>
+          {columnSelect('Description', 'descriptionColumn')}
+          <div>
+            <label className="block text-xs text-muted-foreground mb-1">Amounts</label>
+            <select
+              value={mapping.amountMode}
+              onChange={(e) => onChange({ amountMode: e.target.value as ColumnMapping['amountMode'] })}
+              className={selectClass}
+            >
+              <option value="signed">One amount column</option>
+              <option value="split">Separate money out and in</option>
+            </select>
+          </div>
+          {mapping.amountMode === 'signed' ? (
+            <>
+              {columnSelect('Amount', 'amountColumn')}
+              <label className="inline-flex items-center gap-2 text-xs cursor-pointer self-end pb-2">
+                <input
+                  type="checkbox"
+                  checked={mapping.spendingIsPositive}
+                  onChange={(e) => onChange({ spendingIsPositive: e.target.checked })}
+                  className="rounded border-input cursor-pointer"
+                />
+                Spending is shown as positive
+              </label>
+            </>
+          ) : (
+            <>
+              {columnSelect('Money out', 'debitColumn')}
+              {columnSelect('Money in', 'creditColumn')}
+            </>
+          )}
+        </div>
+
+        <p className="text-xs text-muted-foreground">
+          {transactionCount} {transactionCount === 1 ? 'transaction' : 'transactions'} read
+          {skippedCount > 0 &&
+            `, ${skippedCount} ${skippedCount === 1 ? 'row' : 'rows'} without a readable date or amount skipped`}
+          .
+        </p>
+      </div>
+      <DialogFooter>
+        <FooterButton onClick={onCancel}>Cancel</FooterButton>
+        <FooterButton primary disabled={transactionCount === 0} onClick={onContinue}>
+          Find Recurring Items
+        </FooterButton>
+      </DialogFooter>
+    </>
+  );
+}
+
+interface ReviewStepProps {
+  statement: ParsedStatement;
+  backLabel: string;
+  onBack: () => void;
+  onDone: () => void;
+}
+
+/** Set one entry of a list held in state */
+function replaceAt<T>(list: T[], index: number, value: T): T[] {
+  return list.map((v, i) => (i === index ? value : v));
+}
+
+function ReviewStep({ statement, backLabel, onBack, onDone }: ReviewStepProps) {
+  const addRecurringIncomes = useBudgetStore((s) => s.addRecurringIncomes);
+  const addRecurringExpenses = useBudgetStore((s) => s.addRecurringExpenses);
+  const addOneTimeIncomes = useBudgetStore((s) => s.addOneTimeIncomes);
+  const addOneTimeExpenses = useBudgetStore((s) => s.addOneTimeExpenses);
+  const updateFoodBudget = useBudgetStore((s) => s.updateFoodBudget);
+  const setInitialBalance = useBudgetStore((s) => s.setInitialBalance);
+  const { minDate, maxDate } = useProjectionRange();
+
+  const { transactions, balance } = statement;
+  const [{ series, food, oneTime }] = useState<StatementAnalysis>(() =>
+    analyzeStatement(transactions, useBudgetStore.getState().foodBudget)
+  );
+  // Series that seem to have stopped start unchecked, and one-time items are opt-in
+  const [selected, setSelected] = useState(() => series.map((s) => s.active));
+  const [labels, setLabels] = useState(() => series.map((s) => s.label));
+  const [oneTimeSelected, setOneTimeSelected] = useState(() => oneTime.map(() => false));
+  const [oneTimeLabels, setOneTimeLabels] = useState(() => oneTime.map((t) => itemLabel(t.description)));
+  const [oneTimeDates, setOneTimeDates] = useState(() => oneTime.map((t) => t.date));
+  const [useFood, setUseFood] = useState(food !== null);
+  const [useBalance, setUseBalance] = useState(balance !== null);
+
+  const chosen = series.map((s, i) => ({ ...s, label: labels[i]! })).filter((_, i) => selected[i]);
+  const chosenOneTime = oneTime
+    .map((t, i) => ({ label: oneTimeLabels[i]!, amount: Math.abs(t.amount), date: oneTimeDates[i]!, enabled: true, income: t.amount > 0 }))
+    .filter((_, i) => oneTimeSelected[i]);
+  const count = chosen.length + chosenOneTime.length + (useFood ? 1 : 0) + (useBalance ? 1 : 0);
+
+  const handleAdd = () => {
+    addRecurringIncomes(chosen.filter((s) => s.kind === 'income').map(seriesToIncome));
+    addRecurringExpenses(chosen.filter((s) => s.kind === 'expense').flatMap(seriesToExpenses));
+    addOneTimeIncomes(chosenOneTime.filter((t) => t.income).map(({ income: _, ...item }) => item));
+    addOneTimeExpenses(chosenOneTime.filter((t) => !t.income).map(({ income: _, ...item }) => item));
+    if (useFood && food) updateFoodBudget(food.budget);
+    if (useBalance && balance) setInitialBalance(balance.amount);
+    onDone();
+  };
+
+  const rows = (kind: RecurringSeries['kind']) =>
+    series.flatMap((s, i) =>
+      s.kind === kind
+        ? [
+            <ProposalRow
+              key={i}
+              series={s}
+              label={labels[i]!}
+              checked={selected[i]!}
+              onToggle={(checked) => setSelected(replaceAt(selected, i, checked))}
+              onRename={(label) => setLabels(replaceAt(labels, i, label))}
+            />,
+          ]
+        : []
+    );
+  const incomes = rows('income');
+  const expenses = rows('expense');
+
+  let summary: string;
+  if (transactions.length === 0) {
+    summary = 'No transactions were found in this file.';
+  } else if (series.length > 0) {
+    summary =
+      `Found ${series.length} recurring ${series.length === 1 ? 'item' : 'items'} in ${transactions.length} transactions. ` +
+      'Check the ones to add to your budget. Deposits are added as take-home pay with no withholding.';
+  } else {
+    summary =
+      'No payee showed up at least three times at a steady weekly, biweekly, semi-monthly or monthly ' +
+      `pace in ${transactions.length} transactions. A statement covering three months or more works best.`;
+  }
+
+  return (
+    <>
+      <div className="px-6 py-4 space-y-4 max-h-[70vh] overflow-y-auto text-sm">
+        <Dialog.Description className="text-muted-foreground">{summary}</Dialog.Description>
+
+        {balance && (
+          <ProposalGroup title="Starting Balance">
+            <CheckRow checked={useBalance} onToggle={setUseBalance}>
+              <span className="font-medium text-foreground">Set the starting balance</span> to {money(balance.amount)}, the
+              statement balance on {shortDate(balance.date)}.
+            </CheckRow>
+          </ProposalGroup>
+        )}
+        {incomes.length > 0 && <ProposalGroup title="Income">{incomes}</ProposalGroup>}
+        {expenses.length > 0 && <ProposalGroup title="Expenses">{expenses}</ProposalGroup>}
+        {food && (
+          <ProposalGroup title="Food">
+            <CheckRow checked={useFood} onToggle={setUseFood}>
+              <span className="font-medium text-foreground">Replace the food budget</span> with{' '}
+              {money(food.weekdayDaily)} per weekday and {money(food.weekendDaily)} per weekend day, the average of{' '}
+              {food.purchases} grocery and restaurant {food.purchases === 1 ? 'purchase' : 'purchases'}. Weekday meals
+              keep their current split.
+            </CheckRow>
+          </ProposalGroup>
+        )}
+        {oneTime.length > 0 && (
+          <ProposalGroup title="One-time Items">
+            {oneTime.map((t, i) => {
+              const date = oneTimeDates[i]!;
+              return (
+                <li key={i} className="flex items-start gap-2">
+                  <input
+                    type="checkbox"
+                    checked={oneTimeSelected[i]!}
+                    onChange={(e) => setOneTimeSelected(replaceAt(oneTimeSelected, i, e.target.checked))}
+                    className="mt-2 rounded border-input cursor-pointer"
+                    aria-label={`Add ${oneTimeLabels[i]}`}
+                  />
+                  <div className="flex-1 min-w-0">
+                    <div className="flex gap-2">
+                      <input
+                        type="text"
+                        value={oneTimeLabels[i]}
+                        onChange={(e) => setOneTimeLabels(replaceAt(oneTimeLabels, i, e.target.value))}
+                        className={`${textInputClass} flex-1 min-w-0`}
+                      />
+                      <input
+                        type="date"
+                        value={date}
+                        onChange={(e) => {
+                          if (e.target.value) setOneTimeDates(replaceAt(oneTimeDates, i, e.target.value));
+                        }}
+                        className={`${textInputClass} w-36`}
+                      />
+                    </div>
+                    <p className="mt-0.5 text-xs text-muted-foreground">
+                      {t.amount > 0 ? 'Income' : 'Expense'} of {money(Math.abs(t.amount))} on {shortDate(t.date)}
+                      {(date < minDate || date > maxDate) && (
+                        <span className="text-amber-700"> · outside the projection; change the date to count it</span>
+                      )}
+                    </p>
+                  </div>
+                </li>
+              );
+            })}
+          </ProposalGroup>
+        )}
+      </div>
+      <DialogFooter>
+        <FooterButton onClick={onBack}>{backLabel}</FooterButton>
+        <FooterButton primary disabled={count === 0} onClick={handleAdd}>
+          {count === 0 ? 'Add Items' : `Add ${count} ${count === 1 ? 'Item' : 'Items'}`}
+        </FooterButton>
+      </DialogFooter>
+    </>
+  );
+}
+
+function CheckRow({ checked, onToggle, children }: { checked: boolean; onToggle: (checked: boolean) => void; children: ReactNode }) {
+  return (
+    <li className="flex items-start gap-2">
+      <input
+        type="checkbox"
+        checked={checked}
+        onChange={(e) => onToggle(e.target.checked)}
+        className="mt-0.5 rounded border-input cursor-pointer"
+      />
+      <span className="text-xs text-muted-foreground">{children}</span>
+    </li>
+  );
+}
+
+function ProposalGroup({ title, children }: { title: string; children: ReactNode }) {
+  return (
+    <div>
+      <h3 className="text-xs font-semibold text-foreground mb-2">{title}</h3>
+      <ul className="space-y-2">{children}</ul>
+    </div>
+  );
+}
+
+interface ProposalRowProps {
+  series: RecurringSeries;
+  label: string;
+  checked: boolean;
+  onToggle: (checked: boolean) => void;
+  onRename: (label: string) => void;
+}
+
+function ProposalRow({ series, label, checked, onToggle, onRename }: ProposalRowProps) {
+  const last = series.dates[series.dates.length - 1]!;
+  return (
+    <li className="flex items-start gap-2">
+      <input
+        type="checkbox"
+        checked={checked}
+        onChange={(e) => onToggle(e.target.checked)}
+        className="mt-2 rounded border-input cursor-pointer"
+        aria-label={`Add ${label}`}
+      />
+      <div className="flex-1 min-w-0">
+        <input
+          type="text"
+          value={label}
+          onChange={(e) => onRename(e.target.value)}
+          className={`${textInputClass} w-full`}
+        />
+        <p className="mt-0.5 text-xs text-muted-foreground">
+          {CADENCE_LABELS[series.cadence]}, {money(series.amount)}
+          {series.variable && ` (varies ${money(series.low)}–${money(series.high)})`} · {series.dates.length} times,
+          last on {shortDate(last)}
+          {!series.active && <span className="text-amber-700"> · may have ended</span>}
+        </p>
+      </div>
+    </li>
+  );
+}
+
+function DialogFooter({ children }: { children: ReactNode }) {
+  return (
+    <div className="flex items-center justify-end gap-2 px-6 py-4 border-t border-border bg-gray-50 rounded-b-lg">
+      {children}
+    </div>
+  );
+}
+
+function FooterButton({
+  primary,
+  disabled,
+  onClick,
+  children,
+}: {
+  primary?: boolean;
+  disabled?: boolean;
+  onClick: () => void;
+  children: ReactNode;
+}) {
+  return (
+    <button
+      onClick={onClick}
+      disabled={disabled}
+      className={`px-4 py-2 text-sm font-medium rounded-md hover:shadow-sm active:scale-95 transition-all cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed ${
+        primary ? 'bg-blue-600 text-white hover:bg-blue-700' : 'border border-input bg-white hover:bg-accent'
+      }`}
+    >
+      {children}
+    </button>
+  );
+}
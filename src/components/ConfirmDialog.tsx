@@ -49,8 +49,9 @@ export function ConfirmDialog({
               </Dialog.Close>
             </div>
             <div className="px-6 py-4">
-              <Dialog.Description className="text-sm text-muted-foreground">
-                {message}
+              {/* A div so messages can hold lists */}
+              <Dialog.Description asChild>
+                <div className="text-sm text-muted-foreground whitespace-pre-line">{message}</div>
               </Dialog.Description>
             </div>
             <div className="flex items-center justify-end gap-2 px-6 py-4 border-t border-border bg-gray-50 rounded-b-lg">
@@ -1,5 +1,5 @@
 import * as Dialog from '@radix-ui/react-dialog';
-import { HelpCircle, X, DollarSign, UtensilsCrossed, MapPin, TrendingDown, TrendingUp, Calendar } from 'lucide-react';
+import { HelpCircle, X, DollarSign, UtensilsCrossed, MapPin, TrendingDown, TrendingUp, Calendar, Calculator, GraduationCap, Receipt, CalendarOff, Dices } from 'lucide-react';
 
 export function HelpModal() {
   return (
@@ -45,13 +45,13 @@ export function HelpModal() {
                     </h3>
                     <p>
                       This site projects your daily cash balance into the future based on your income, expenses, and spending habits.
-                      It runs a <strong>day-by-day simulation</strong> starting from today and extending out for the number of months you choose.
+                      It runs a <strong>day-by-day simulation</strong> starting from today (or the start date you set under General Settings) and extending out for the number of months you choose.
                       Each day, income is added and expenses are subtracted to produce a running balance.
                     </p>
                     <p className="mt-2">
                       Use the sidebar "Budget Inputs" to enter your income and expense details. The charts and summary cards on the dashboard will
                       update automatically as you make changes. You can also start from a preset template using the "Load Template" dropdown
-                      in the header. Make sure to use the <strong>import/export</strong> buttons to save your data if you want to visualize multiple scenarios or keep your information for future reference!
+                      in the header. Make sure to use the <strong>import/export</strong> buttons to save your data if you want to visualize multiple scenarios or keep your information for future reference! The menu can also export the daily or monthly projection as a CSV file for spreadsheets.
                     </p>
                   </section>
 
@@ -74,9 +74,11 @@ export function HelpModal() {
                       Charts & Dashboard
                     </h3>
                     <ul className="list-disc list-inside space-y-1">
-                      <li><strong>Cash Balance Over Time</strong> — The primary chart showing your projected balance over time. Hover over points to see income and expense events for that day.</li>
+                      <li><strong>Cash Balance Over Time</strong> — The primary chart showing your projected balance over time. Hover over points to see income and expense events for that day.
+                        With variable income, a shaded band shows the balance if every paycheck came in at the low or the high end of its range.</li>
                       <li><strong>Monthly Income vs Expenses</strong> — Monthly bar chart comparing total income against total expenses.</li>
-                      <li><strong>Summary Cards</strong> — Short metrics including your total projected income/expenses, net, lowest balance, and a warning if your balance is projected to go negative at any point.</li>
+                      <li><strong>Summary Cards</strong> — Short metrics including your total projected income/expenses, net, lowest balance, and a warning if your balance is projected to go negative at any point.
+                        With the simulation on, a <strong>Chance of Overdraft</strong> card shows how often the balance went negative.</li>
                     </ul>
                   </section>
 
@@ -102,16 +104,31 @@ export function HelpModal() {
                       Add jobs or regular income sources. Each one needs:
                     </p>
                     <ul className="list-disc list-inside space-y-1 mt-2">
-                      <li><strong>Hours/Week</strong> and <strong>Hourly rate</strong> — Used to compute each paycheck.</li>
-                      <li><strong>Pay frequency</strong> — How often you're paid:
+                      <li><strong>Pay type</strong> — <em>Hourly</em> pay uses <strong>Hours/Week</strong> and <strong>Hourly rate</strong> to compute each paycheck.
+                        <em> Salary</em> pays a fixed amount <strong>per paycheck</strong>, like a TA or RA stipend.
+                        <em> Variable</em> pay, like tips or gig work, has an <strong>average</strong> per paycheck plus a low/high range or a standard deviation
+                        (low and high are one deviation either side). The projection uses the average.</li>
+                      <li><strong>Pay frequency</strong> — How often you're paid. For hourly pay:
                         <ul className="list-disc list-inside ml-5 mt-1 space-y-0.5">
                           <li><em>Weekly:</em> Paycheck = hours * rate</li>
                           <li><em>Biweekly:</em> Paycheck = hours * rate * 2</li>
+                          <li><em>Semi-monthly:</em> Paycheck = hours * rate * (52 ÷ 24), paid on two days each month (the 15th and last day by default)</li>
                           <li><em>Monthly:</em> Paycheck = hours * rate * (52 ÷ 12)</li>
                         </ul>
                       </li>
+                      <li><strong>Hours schedule</strong> (optional, hourly pay) — Date ranges with different hours, and optionally a different rate, such as
+                        12 hours/week during the semester and 40 over the summer. Each day of a pay period earns its share of a paycheck at that day's hours,
+                        so a paycheck covering a change is a blend of both.</li>
+                      <li><strong>Raises</strong> (optional) — Dated changes to the hourly rate (or salary per paycheck), either a new amount or a percentage.
+                        They apply in date order, so a 3% raise after a new minimum wage builds on the new rate. Hours worked before a raise are still paid at the old rate.</li>
+                      <li><strong>Overtime &amp; shift differential</strong> (optional, hourly pay) — Weekly hours past the <strong>overtime threshold</strong> (usually 40)
+                        are paid at the <strong>multiplier</strong> (usually 1.5×), and <strong>differential hours</strong> earn a flat extra amount per hour, such as
+                        a night shift premium. Hover a paycheck on the chart to see regular, overtime and differential pay.</li>
                       <li><strong>Pay date anchor</strong> — A known paycheck date used to anchor the pay schedule. For a current job, enter a recent past pay date. For a future job, enter the expected first paycheck date. Paydays are calculated forward from this anchor.</li>
                       <li><strong>End date</strong> (optional) — The last working day for this job. Income stops after this date. If the end date doesn't fall on a regular payday, a <strong>partial paycheck</strong> is automatically added for the days worked in that final pay period.</li>
+                      <li><strong>Estimate tax withholding</strong> (optional) — Deposits take-home pay instead of gross pay. Federal tax is estimated from your W-4 setup (filing status, dependents, extra withholding)
+                        using 2025 brackets, FICA is 7.65% unless you tick the <em>student FICA exemption</em>, state tax is a flat rate, and pre-tax deductions come out before income tax.
+                        Hover a paycheck on the chart to see the gross and withheld amounts.</li>
                     </ul>
                   </section>
 
@@ -139,15 +156,45 @@ export function HelpModal() {
                     </p>
                   </section>
 
-                  {/* Monthly Expenses */}
+                  {/* Recurring Expenses */}
                   <section>
                     <h3 className="flex items-center gap-2 text-sm font-semibold text-foreground mb-2 underline">
                       <TrendingDown className="w-4 h-4 text-orange-500" />
-                      Monthly Expenses
+                      Recurring Expenses
                     </h3>
                     <p>
-                      Bills and subscriptions that recur monthly. Each expense is deducted on the <strong>day of the month</strong> you
-                      specify (1-28). For example, rent due on the 1st will be deducted every month on day 1.
+                      Bills and subscriptions that repeat on a schedule. Each expense <strong>repeats every</strong> so many days, weeks,
+                      months or years, in step with its <strong>due on</strong> date. For example, rent due on the 1st repeats every 1 month,
+                      laundry every 1 week, and car insurance every 6 months.
+                    </p>
+                    <p className="mt-2">
+                      Optional <strong>start</strong> and <strong>end dates</strong> limit when an expense is charged, such as a lease that
+                      ends in May or a gym membership that starts in September. Expenses whose dates fall entirely outside the projection are outlined in red.
+                    </p>
+                    <p className="mt-2 text-xs">
+                      Monthly and yearly expenses have a <strong>day of month</strong>: a day number (the 29th-31st fall on the last day of
+                      shorter months, including February in leap years), the <strong>last day</strong>, or the <strong>last business day</strong> (Monday-Friday). The sidebar total spreads
+                      non-monthly expenses evenly over the year, so it is marked as approximate.
+                    </p>
+                  </section>
+
+                  {/* Student Loans */}
+                  <section>
+                    <h3 className="flex items-center gap-2 text-sm font-semibold text-foreground mb-2 underline">
+                      <GraduationCap className="w-4 h-4 text-indigo-500" />
+                      Student Loans
+                    </h3>
+                    <p>
+                      Model federal-style student loans from disbursement through repayment. Each loan has:
+                    </p>
+                    <ul className="list-disc list-inside space-y-1 mt-2">
+                      <li><strong>Disbursements</strong> — The dates and amounts borrowed. The origination fee is taken out before the money reaches your balance, but you owe the full amount.</li>
+                      <li><strong>Type</strong> — <em>Unsubsidized</em> loans accrue interest daily from disbursement. <em>Subsidized</em> loans accrue nothing until repayment starts.</li>
+                      <li><strong>Graduation date</strong> and <strong>grace period</strong> — Repayment starts this many months after graduation. Any unpaid interest is <strong>capitalized</strong> (added to the principal) on that day.</li>
+                      <li><strong>Repayment</strong> — A standard plan with a fixed monthly payment over the number of years you choose. Money borrowed after repayment starts raises the payment so the loan is still paid off on time.</li>
+                    </ul>
+                    <p className="mt-2 text-xs">
+                      The chart tooltip shows the total you owe on each day, and a "Loans Owed" summary card shows what is still owed at the end of the projection.
                     </p>
                   </section>
 
@@ -194,6 +241,97 @@ export function HelpModal() {
                     </p>
                   </section>
 
+                  {/* Tax Return */}
+                  <section>
+                    <h3 className="flex items-center gap-2 text-sm font-semibold text-foreground mb-2 underline">
+                      <Receipt className="w-4 h-4 text-emerald-500" />
+                      Tax Return
+                    </h3>
+                    <p>
+                      When enabled, each calendar year's income tax is estimated from your projected paychecks and compared with what was
+                      withheld. The difference shows up on the <strong>filing date</strong> of the following year as a <strong>Tax refund</strong> or a
+                      <strong> Tax payment</strong>. Paychecks before the start date aren't projected, so when the projection starts partway through
+                      a year, enter your <strong>pay earlier in the year</strong> (taxable wages and income tax withheld, from your last pay stub) to
+                      estimate that year's return. Without it, that year has no return and the form says so.
+                    </p>
+                    <ul className="list-disc list-inside space-y-1 mt-2">
+                      <li><strong>Federal tax</strong> uses the standard deduction and tax brackets for your filing status. <strong>State tax</strong> is a flat rate.</li>
+                      <li><strong>AOTC</strong> — Up to $2,500 per year. 40% is refundable, so it can produce a refund even if you owe no tax.</li>
+                      <li><strong>Other credits</strong> — Nonrefundable education credits that can only lower your tax to zero.</li>
+                    </ul>
+                    <p className="mt-2 text-xs">
+                      Withholding comes from each job's tax settings, or its flat "Tax withheld" rate. Only paychecks inside the projection are counted,
+                      so a year that starts before today will show a smaller tax bill.
+                    </p>
+                  </section>
+
+                  {/* Holidays */}
+                  <section>
+                    <h3 className="flex items-center gap-2 text-sm font-semibold text-foreground mb-2 underline">
+                      <CalendarOff className="w-4 h-4 text-rose-500" />
+                      Holidays
+                    </h3>
+                    <p>
+                      Each job and recurring expense has an <strong>If on a weekend/holiday</strong> setting. By default dates are kept as-is.
+                      Choose <strong>Previous business day</strong> to pay early, like most employers do, or <strong>Next business day</strong> for bills
+                      that post after the weekend. When several dates move onto the same business day, each one is still paid or charged.
+                    </p>
+                    <ul className="list-disc list-inside space-y-1 mt-2">
+                      <li><strong>US federal holidays</strong> — On by default. Holidays that fall on a weekend use their observed Friday or Monday.</li>
+                      <li><strong>Custom holidays</strong> — Any other dates your bank or employer is closed.</li>
+                    </ul>
+                  </section>
+
+                  {/* Simulation */}
+                  <section>
+                    <h3 className="flex items-center gap-2 text-sm font-semibold text-foreground mb-2 underline">
+                      <Dices className="w-4 h-4 text-sky-500" />
+                      Simulation
+                    </h3>
+                    <p>
+                      The Monte Carlo simulation re-runs the projection many times with random variation, so you can see how likely an overdraft is
+                      instead of a single best guess. It runs in the background, so the inputs stay responsive.
+                    </p>
+                    <ul className="list-disc list-inside space-y-1 mt-2">
+                      <li><strong>Variable income</strong> — Each paycheck is drawn from its low/high range (most likely near the average) or its standard deviation.</li>
+                      <li><strong>Food ±</strong> — Each day's food spending varies by up to this percentage.</li>
+                      <li><strong>Fuel price ±</strong> — The gas price varies by up to this percentage, changing once a month.</li>
+                    </ul>
+                    <p className="mt-2 text-xs">
+                      The chart adds dashed lines for the 10th and 90th percentile balance (P10/P90) and a solid median (P50) line.
+                      Results use a fixed random seed, so the same inputs always give the same numbers.
+                    </p>
+                  </section>
+
+                  {/* Planning Tools */}
+                  <section>
+                    <h3 className="flex items-center gap-2 text-sm font-semibold text-foreground mb-2 underline">
+                      <Calculator className="w-4 h-4 text-violet-500" />
+                      Planning Tools
+                    </h3>
+                    <ul className="list-disc list-inside space-y-1">
+                      <li>
+                        <strong>Minimum Hours to Work:</strong> Finds the fewest weekly hours that keep your balance at or above the amount you choose
+                        for the whole projection. Pick a single job to adjust, or "All incomes" to scale every enabled job's hours by the same percentage.
+                        Jobs with an hours schedule are left out, since the schedule sets their hours. Click <strong>Apply</strong> to copy the
+                        suggested hours into your recurring income.
+                      </li>
+                      <li>
+                        <strong>Student Loan Amount:</strong> Finds the smallest loan that keeps your balance above a safety buffer. Choose one lump sum
+                        on the first day, or per-semester disbursements on the fall and spring start dates (repeated every year). Each semester borrows
+                        only what it needs until the next one. Click <strong>Add as one-time income</strong> to insert the disbursements.
+                      </li>
+                      <li>
+                        <strong>Import Bank Statement:</strong> In the header menu, load a CSV, OFX/QFX or QIF export from your bank or credit
+                        card. For a CSV, check the column mapping first. The app looks for payees that charge or pay you at least three times on a steady weekly, biweekly,
+                        semi-monthly or monthly schedule, and averages grocery and restaurant purchases into a food budget. Tick the items to
+                        add; deposits come in as take-home pay, and items that seem to have stopped start unticked. Large one-off transactions can be added as one-time
+                        income or expenses, and when an OFX or QIF file includes the account balance you can use it as your Current Cash on
+                        Hand. The file never leaves your browser.
+                      </li>
+                    </ul>
+                  </section>
+
                 </div>
               </Dialog.Description>
             </div>
@@ -0,0 +1,84 @@
+import { ReactNode } from 'react';
+import type { ConfigIssue } from '@/store/schema';
+
+interface SkippedItem {
+  path: string;
+  label?: string;
+  issues: ConfigIssue[];
+}
+
+/** A field's path relative to the list item it belongs to */
+function pathInItem(issue: ConfigIssue, itemPath: string): string {
+  return issue.path.startsWith(`${itemPath}.`) ? issue.path.slice(itemPath.length + 1) : issue.path;
+}
+
+/**
+ * Problems found in an imported file, grouped by what importing the rest of
+ * it does about them: items left out, settings reset to their defaults, and
+ * problems that can't be worked around.
+ */
+export function ImportIssueList({ issues }: { issues: ConfigIssue[] }) {
+  const skipped = new Map<string, SkippedItem>();
+  const reset: ConfigIssue[] = [];
+  const unrecoverable: ConfigIssue[] = [];
+
+  for (const issue of issues) {
+    const recovery = issue.recovery;
+    if (recovery?.kind === 'skipItem') {
+      const item = skipped.get(recovery.itemPath) ?? {
+        path: recovery.itemPath,
+        label: recovery.itemLabel,
+        issues: [],
+      };
+      item.issues.push(issue);
+      skipped.set(recovery.itemPath, item);
+    } else if (recovery?.kind === 'useDefault') {
+      reset.push(issue);
+    } else {
+      unrecoverable.push(issue);
+    }
+  }
+
+  return (
+    <div className="mt-3 max-h-64 overflow-y-auto space-y-3 whitespace-normal text-xs">
+      {unrecoverable.length > 0 && (
+        <IssueGroup title="Problems">
+          {unrecoverable.map((issue) => (
+            <li key={issue.path}>
+              <code className="text-foreground">{issue.path || 'file'}</code> {issue.message}
+            </li>
+          ))}
+        </IssueGroup>
+      )}
+      {skipped.size > 0 && (
+        <IssueGroup title="Items left out">
+          {[...skipped.values()].map((item) => (
+            <li key={item.path}>
+              {item.label ? <span className="font-medium text-foreground">{item.label}</span> : null}{' '}
+              <code className="text-foreground">{item.path}</code>:{' '}
+              {item.issues.map((issue) => `${pathInItem(issue, item.path)} ${issue.message}`).join('; ')}
+            </li>
+          ))}
+        </IssueGroup>
+      )}
+      {reset.length > 0 && (
+        <IssueGroup title="Reset to defaults">
+          {reset.map((issue) => (
+            <li key={issue.path}>
+              <code className="text-foreground">{issue.path}</code> {issue.message}
+            </li>
+          ))}
+        </IssueGroup>
+      )}
+    </div>
+  );
+}
+
+function IssueGroup({ title, children }: { title: string; children: ReactNode }) {
+  return (
+    <div>
+      <p className="font-medium text-foreground mb-1">{title}</p>
+      <ul className="list-disc pl-4 space-y-1">{children}</ul>
+    </div>
+  );
+}
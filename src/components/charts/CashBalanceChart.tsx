@@ -10,6 +10,7 @@ import {
   ReferenceLine,
   ReferenceDot,
 } from 'recharts';
+import { Loader2 } from 'lucide-react';
 import { useProjection } from '@/hooks/useProjection';
 import { useChartFadeTransition } from '@/hooks/useChartFadeTransition';
 import { useYAxisGlow } from '@/hooks/useYAxisGlow';
@@ -25,6 +26,9 @@ import { EventAnnotations } from './EventAnnotations';
 import type { AnnotationHoverInfo } from './EventAnnotations';
 import type { DailySnapshot, DailyEvent } from '@/engine/types';
 import { useHoverHighlightStore } from '@/store/hoverHighlightStore';
+import { useMonteCarloStore } from '@/store/monteCarloStore';
+import type { MonteCarloResult } from '@/engine/monteCarlo';
+import type { BalanceRange } from '@/engine/projection';
 
 /** Round down to nearest increment */
 function floorTo(value: number, increment: number): number {
@@ -53,22 +57,51 @@ const MARGIN = { top: 10, right: 10, left: 10, bottom: 0 };
 const XAXIS_HEIGHT = 30; // explicit so gradient bounds stay in sync
 const TOOLTIP_OFFSET_Y = 12; // px below the dot
 
+/** Stroke colors of the simulated percentile paths */
+const PERCENTILE_COLORS = {
+  p10: CHART_COLORS.negative,
+  p50: CHART_COLORS.range,
+  p90: CHART_COLORS.positive,
+} as const;
+
 interface ChartDataPoint {
   date: string;
   balance: number;
+  liabilities: number;
   events: DailyEvent[];
+  /** Pessimistic/optimistic balance when variable income has a range */
+  range?: [number, number];
+  /** Simulated balance percentiles when the Monte Carlo simulation is on */
+  p10?: number;
+  p50?: number;
+  p90?: number;
   isMin?: boolean;
   isMax?: boolean;
 }
 
-function prepareChartData(snapshots: DailySnapshot[], minIdx: number, maxIdx: number): ChartDataPoint[] {
-  return snapshots.map((s, i) => ({
-    date: s.date,
-    balance: s.balance,
-    events: s.events,
-    isMin: i === minIdx,
-    isMax: i === maxIdx,
-  }));
+function prepareChartData(
+  snapshots: DailySnapshot[],
+  minIdx: number,
+  maxIdx: number,
+  balanceRange: BalanceRange | null,
+  simulation: MonteCarloResult | null
+): ChartDataPoint[] {
+  // A simulation for a different projection length is stale
+  const percentiles = simulation?.p50.length === snapshots.length ? simulation : null;
+  return snapshots.map((s, i) => {
+    const low = balanceRange?.low[i];
+    const high = balanceRange?.high[i];
+    return {
+      date: s.date,
+      balance: s.balance,
+      liabilities: s.liabilities,
+      events: s.events,
+      ...(low !== undefined && high !== undefined && { range: [low, high] as [number, number] }),
+      ...(percentiles && { p10: percentiles.p10[i], p50: percentiles.p50[i], p90: percentiles.p90[i] }),
+      isMin: i === minIdx,
+      isMax: i === maxIdx,
+    };
+  });
 }
 
 interface CustomTooltipProps {
@@ -101,16 +134,45 @@ function CustomTooltip({ active, payload }: CustomTooltipProps) {
       >
         {formatCurrency(data.balance)}
       </p>
+      {data.range && (
+        <p className="text-xs text-blue-600">
+          Range: <span className="font-semibold">{formatCurrency(data.range[0])} – {formatCurrency(data.range[1])}</span>
+        </p>
+      )}
+      {data.p50 !== undefined && (
+        <p className="text-xs text-sky-700">
+          Simulated: <span className="font-semibold">{formatCurrency(data.p10 ?? 0)} / {formatCurrency(data.p50)} / {formatCurrency(data.p90 ?? 0)}</span>
+          <span className="text-muted-foreground"> (P10/P50/P90)</span>
+        </p>
+      )}
+      {data.liabilities > 0 && (
+        <p className="text-xs text-indigo-600">
+          Loans owed: <span className="font-semibold">{formatCurrency(data.liabilities)}</span>
+        </p>
+      )}
       {data.events.length > 0 && (
         <div className="mt-1 border-t pt-1">
           {data.events.map((e, i) => (
             <p key={i} className={`text-xs font-medium ${
-              e.type === 'income' ? 'text-green-600' : 'text-red-600'
+              e.type === 'income' ? 'text-green-600' : e.type === 'liability' ? 'text-indigo-600' : 'text-red-600'
             }`}>
               • {e.label}{' '}
               <span className="font-semibold">
-                {e.type === 'income' ? '+' : '−'}{formatCurrency(e.amount)}
+                {e.type === 'income' ? '+' : e.type === 'liability' ? 'owed +' : '−'}{formatCurrency(e.amount)}
               </span>
+              {e.earnings && (
+                <span className="block pl-2.5 text-[10px] font-normal text-muted-foreground">
+                  {formatCurrency(e.earnings.regular)} regular + {formatCurrency(e.earnings.overtime)} overtime
+                  {e.earnings.differential > 0 && <> + {formatCurrency(e.earnings.differential)} differential</>}
+                </span>
+              )}
+              {e.breakdown && (
+                <span className="block pl-2.5 text-[10px] font-normal text-muted-foreground">
+                  {formatCurrency(e.breakdown.gross)} gross − {formatCurrency(e.breakdown.gross - e.breakdown.net)} withheld
+                  {' '}(fed {formatCurrency(e.breakdown.federal)}, FICA {formatCurrency(e.breakdown.fica)}, state {formatCurrency(e.breakdown.state)}
+                  {e.breakdown.preTax > 0 && <>, pre-tax {formatCurrency(e.breakdown.preTax)}</>})
+                </span>
+              )}
             </p>
           ))}
         </div>
@@ -120,7 +182,8 @@ function CustomTooltip({ active, payload }: CustomTooltipProps) {
 }
 
 export function CashBalanceChart() {
-  const { snapshots } = useProjection();
+  const { snapshots, balanceRange, loading } = useProjection();
+  const simulation = useMonteCarloStore((s) => s.result);
   const hoverHighlight = useHoverHighlightStore((s) => s.highlight);
 
   // Find the indices of the lowest and highest balance days across ALL data
@@ -136,8 +199,8 @@ export function CashBalanceChart() {
   }, [snapshots]);
 
   const data = useMemo(
-    () => prepareChartData(snapshots, minIdx, maxIdx),
-    [snapshots, minIdx, maxIdx]
+    () => prepareChartData(snapshots, minIdx, maxIdx, balanceRange, simulation),
+    [snapshots, minIdx, maxIdx, balanceRange, simulation]
   );
 
   // Smart sampling: always include days with events (expenses/income),
@@ -205,7 +268,11 @@ export function CashBalanceChart() {
   const yDomain = useMemo(() => {
     if (sampled.length === 0) return [0, 1000] as [number, number];
 
-    const balances = sampled.map((d) => d.balance);
+    const balances = sampled.flatMap((d) => [
+      d.balance,
+      ...(d.range ?? []),
+      ...[d.p10, d.p90].filter((v): v is number => v !== undefined),
+    ]);
     const dataMin = Math.min(...balances);
     const dataMax = Math.max(...balances);
     const range = dataMax - dataMin;
@@ -355,7 +422,15 @@ export function CashBalanceChart() {
 
   return (
     <div className="w-full">
-      <h2 className="text-lg font-semibold mb-4">Cash Balance Over Time</h2>
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold">Cash Balance Over Time</h2>
+        {loading && (
+          <span className="flex items-center gap-1.5 text-xs text-muted-foreground">
+            <Loader2 className="h-3.5 w-3.5 animate-spin" />
+            Updating…
+          </span>
+        )}
+      </div>
       <div
         ref={containerRef}
         className="transition-opacity duration-150 ease-in-out"
@@ -463,6 +538,21 @@ export function CashBalanceChart() {
               }}
             />
           )}
+          {/* Pessimistic-to-optimistic band for variable income, drawn under the balance */}
+          {balanceRange && (
+            <Area
+              type="monotone"
+              dataKey="range"
+              stroke="none"
+              fill={CHART_COLORS.range}
+              fillOpacity={0.15}
+              dot={false}
+              activeDot={false}
+              isAnimationActive={true}
+              animationDuration={CHART_ANIM_DURATION}
+              animationEasing="ease-in-out"
+            />
+          )}
           <Area
             type="monotone"
             dataKey="balance"
@@ -489,6 +579,23 @@ export function CashBalanceChart() {
             animationDuration={CHART_ANIM_DURATION}
             animationEasing="ease-in-out"
           />
+          {/* Simulated P10/P50/P90 balance paths */}
+          {simulation && (['p10', 'p50', 'p90'] as const).map((key) => (
+            <Area
+              key={key}
+              type="monotone"
+              dataKey={key}
+              stroke={PERCENTILE_COLORS[key]}
+              strokeDasharray={key === 'p50' ? undefined : '4 3'}
+              strokeWidth={1.5}
+              fill="none"
+              dot={false}
+              activeDot={false}
+              isAnimationActive={true}
+              animationDuration={CHART_ANIM_DURATION}
+              animationEasing="ease-in-out"
+            />
+          ))}
           {/* One-time event annotations — rendered AFTER Area so they
               appear on top of the chart fill and stroke */}
           {hasOneTimeEvents && (
@@ -146,11 +146,11 @@ export function EventAnnotations({
     const plotLeft = plotX;
     const plotRight = plotX + plotW;
 
-    // 1. Collect one-time events
+    // 1. Collect one-time cash events
     const raw: RawAnnotation[] = [];
     for (const dp of sampled) {
       for (const evt of dp.events) {
-        if (!evt.isOneTime) continue;
+        if (!evt.isOneTime || evt.type === 'liability') continue;
         raw.push({
           date: dp.date,
           balance: dp.balance,
@@ -9,9 +9,12 @@ import {
   ResponsiveContainer,
   Legend,
 } from 'recharts';
+import { Loader2 } from 'lucide-react';
 import { useProjection } from '@/hooks/useProjection';
 import { useChartFadeTransition } from '@/hooks/useChartFadeTransition';
 import { useYAxisGlow } from '@/hooks/useYAxisGlow';
+import { aggregateMonthly } from '@/engine/projection';
+import type { DailySnapshot } from '@/engine/types';
 import { formatCurrency } from '@/lib/utils';
 import { CHART_COLORS } from '@/lib/constants';
 
@@ -22,28 +25,17 @@ interface MonthlyData {
   net: number;
 }
 
-function aggregateMonthly(
-  snapshots: { date: string; incomeToday: number; expensesToday: number }[]
-): MonthlyData[] {
-  const map = new Map<string, { income: number; expenses: number }>();
-
-  for (const s of snapshots) {
-    const monthKey = s.date.slice(0, 7); // "2026-03"
-    const existing = map.get(monthKey) ?? { income: 0, expenses: 0 };
-    existing.income += s.incomeToday;
-    existing.expenses += s.expensesToday;
-    map.set(monthKey, existing);
-  }
-
-  return Array.from(map.entries()).map(([month, data]) => {
-    const date = new Date(month + '-01T00:00:00');
+/** Monthly totals labelled and rounded for the chart */
+function chartData(snapshots: DailySnapshot[]): MonthlyData[] {
+  return aggregateMonthly(snapshots).map((totals) => {
+    const date = new Date(totals.month + '-01T00:00:00');
     const monthName = date.toLocaleDateString('en-US', { month: 'short' });
     const year = date.getFullYear().toString().slice(-2);
     return {
       month: `${monthName} '${year}`,
-      income: Math.round(data.income),
-      expenses: Math.round(data.expenses),
-      net: Math.round(data.income - data.expenses),
+      income: Math.round(totals.income),
+      expenses: Math.round(totals.expenses),
+      net: Math.round(totals.net),
     };
   });
 }
@@ -73,8 +65,8 @@ function CustomTooltip({ active, payload, label }: CustomTooltipProps) {
 }
 
 export function IncomeExpenseChart() {
-  const { snapshots } = useProjection();
-  const data = useMemo(() => aggregateMonthly(snapshots), [snapshots]);
+  const { snapshots, loading } = useProjection();
+  const data = useMemo(() => chartData(snapshots), [snapshots]);
 
   const { chartKey, fading } = useChartFadeTransition(data.length);
 
@@ -87,7 +79,15 @@ export function IncomeExpenseChart() {
 
   return (
     <div className="w-full">
-      <h2 className="text-lg font-semibold mb-4">Monthly Income vs Expenses</h2>
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold">Monthly Income vs Expenses</h2>
+        {loading && (
+          <span className="flex items-center gap-1.5 text-xs text-muted-foreground">
+            <Loader2 className="h-3.5 w-3.5 animate-spin" />
+            Updating…
+          </span>
+        )}
+      </div>
       <div
         className="transition-opacity duration-150 ease-in-out"
         style={{ opacity: fading ? 0 : 1 }}
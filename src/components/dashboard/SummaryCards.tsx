@@ -1,11 +1,22 @@
 import { useProjection } from '@/hooks/useProjection';
 import { formatCurrency, formatDate } from '@/lib/utils';
 import { useBudgetStore } from '@/store/budgetStore';
-import { format, addMonths } from 'date-fns';
-import { AlertTriangle, TrendingDown, TrendingUp, DollarSign } from 'lucide-react';
+import { useProjectionRange } from '@/hooks/useProjectionRange';
+import { parseISO } from 'date-fns';
+import { AlertTriangle, TrendingDown, TrendingUp, DollarSign, GraduationCap, Dices } from 'lucide-react';
+import { useMonteCarloStore } from '@/store/monteCarloStore';
+
+/** Large-screen grid columns by card count, so optional cards fill even rows */
+const LG_GRID_COLS: Record<number, string> = {
+  5: 'lg:grid-cols-5',
+  6: 'lg:grid-cols-3',
+};
 
 export function SummaryCards() {
-  const { lowestPoint, totalIncome, totalExpenses } = useProjection();
+  const { snapshots, lowestPoint, totalIncome, totalExpenses, finalLiabilities } = useProjection();
+  const lastDate = snapshots[snapshots.length - 1]?.date;
+  const monteCarloEnabled = useBudgetStore((s) => s.monteCarlo?.enabled ?? false);
+  const simulation = useMonteCarloStore((s) => s.result);
 
   const cards = [
     {
@@ -30,15 +41,43 @@ export function SummaryCards() {
       label: 'Lowest Balance',
       value: lowestPoint ? formatCurrency(lowestPoint.balance) : '—',
       subtitle: lowestPoint
-        ? formatDate(new Date(lowestPoint.date + 'T00:00:00'))
+        ? formatDate(parseISO(lowestPoint.date))
         : undefined,
       icon: AlertTriangle,
       color: lowestPoint && lowestPoint.balance < 0 ? 'text-red-500' : 'text-yellow-500',
     },
+    ...(monteCarloEnabled
+      ? [
+          {
+            label: 'Chance of Overdraft',
+            value: simulation ? `${Math.round(simulation.overdraftProbability * 100)}%` : '…',
+            subtitle: simulation ? `${simulation.runs} runs` : undefined,
+            icon: Dices,
+            color: !simulation
+              ? 'text-muted-foreground'
+              : simulation.overdraftProbability >= 0.1
+                ? 'text-red-500'
+                : simulation.overdraftProbability > 0
+                  ? 'text-yellow-500'
+                  : 'text-green-600',
+          },
+        ]
+      : []),
+    ...(finalLiabilities > 0
+      ? [
+          {
+            label: 'Loans Owed',
+            value: formatCurrency(finalLiabilities),
+            subtitle: lastDate ? formatDate(parseISO(lastDate)) : undefined,
+            icon: GraduationCap,
+            color: 'text-indigo-600',
+          },
+        ]
+      : []),
   ];
 
   return (
-    <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+    <div className={`grid grid-cols-2 gap-4 ${LG_GRID_COLS[cards.length] ?? 'lg:grid-cols-4'}`}>
       {cards.map((card) => (
         <div
           key={card.label}
@@ -69,7 +108,7 @@ export function WarningBanner() {
       <AlertTriangle className="w-3.5 h-3.5 text-red-500 flex-shrink-0" />
       <span>
         <strong>Balance goes negative</strong> on{' '}
-        <strong>{formatDate(new Date(dangerDate.date + 'T00:00:00'))}</strong>
+        <strong>{formatDate(parseISO(dangerDate.date))}</strong>
         {deficit > 0 && (
           <>
             {' · Lowest: '}
@@ -83,10 +122,8 @@ export function WarningBanner() {
 
 // Helper hook to detect out-of-range items
 export function useOutOfRangeDetection() {
-  const { oneTimeExpenses, oneTimeIncomes, recurringIncomes, projectionMonths } = useBudgetStore();
-
-  const minDate = format(new Date(), 'yyyy-MM-dd');
-  const maxDate = format(addMonths(new Date(), projectionMonths), 'yyyy-MM-dd');
+  const { oneTimeExpenses, oneTimeIncomes, recurringIncomes, recurringExpenses } = useBudgetStore();
+  const { minDate, maxDate } = useProjectionRange();
 
   const outOfRangeExpenses = oneTimeExpenses.filter(
     (e) => e.date < minDate || e.date > maxDate
@@ -97,12 +134,20 @@ export function useOutOfRangeDetection() {
   const outOfRangeRecurring = recurringIncomes.filter(
     (i) => i.startDate > maxDate || (i.endDate && i.endDate < minDate)
   );
+  const outOfRangeRecurringExpenses = recurringExpenses.filter(
+    (e) => (e.startDate && e.startDate > maxDate) || (e.endDate && e.endDate < minDate)
+  );
 
   return {
     hasOutOfRangeExpenses: outOfRangeExpenses.length > 0,
     hasOutOfRangeIncomes: outOfRangeIncomes.length > 0,
     hasOutOfRangeRecurring: outOfRangeRecurring.length > 0,
-    totalOutOfRange: outOfRangeExpenses.length + outOfRangeIncomes.length + outOfRangeRecurring.length,
+    hasOutOfRangeRecurringExpenses: outOfRangeRecurringExpenses.length > 0,
+    totalOutOfRange:
+      outOfRangeExpenses.length +
+      outOfRangeIncomes.length +
+      outOfRangeRecurring.length +
+      outOfRangeRecurringExpenses.length,
   };
 }
 
@@ -0,0 +1,29 @@
+import type { BusinessDayAdjustment } from '@/engine/types';
+
+const ADJUSTMENT_LABELS: Record<BusinessDayAdjustment, string> = {
+  none: 'Keep the date',
+  previous: 'Previous business day',
+  next: 'Next business day',
+};
+
+interface BusinessDayAdjustmentSelectProps {
+  value: BusinessDayAdjustment;
+  onChange: (adjustment: BusinessDayAdjustment) => void;
+}
+
+/** Dropdown for where a date that lands on a weekend or holiday moves to. */
+export function BusinessDayAdjustmentSelect({ value, onChange }: BusinessDayAdjustmentSelectProps) {
+  return (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value as BusinessDayAdjustment)}
+      className="w-full rounded-md border border-input bg-background px-2 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-ring"
+    >
+      {(Object.keys(ADJUSTMENT_LABELS) as BusinessDayAdjustment[]).map((adjustment) => (
+        <option key={adjustment} value={adjustment}>
+          {ADJUSTMENT_LABELS[adjustment]}
+        </option>
+      ))}
+    </select>
+  );
+}
@@ -0,0 +1,107 @@
+import { useBudgetStore } from '@/store/budgetStore';
+import { useProjectionRange } from '@/hooks/useProjectionRange';
+import { Plus, Trash2 } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { DEFAULT_HOLIDAYS, federalHolidays } from '@/engine/holidays';
+import { EditableLabel } from './EditableLabel';
+import { Tooltip } from '@/components/Tooltip';
+
+/** Number of upcoming federal holidays listed under the checkbox */
+const UPCOMING_HOLIDAY_COUNT = 4;
+
+export function HolidayForm() {
+  const storedHolidays = useBudgetStore((s) => s.holidays);
+  const updateHolidays = useBudgetStore((s) => s.updateHolidays);
+  const addCustomHoliday = useBudgetStore((s) => s.addCustomHoliday);
+  const updateCustomHoliday = useBudgetStore((s) => s.updateCustomHoliday);
+  const removeCustomHoliday = useBudgetStore((s) => s.removeCustomHoliday);
+  const holidays = storedHolidays ?? DEFAULT_HOLIDAYS;
+
+  // Listed from the start of the projection
+  const { start, minDate } = useProjectionRange();
+  const year = start.getFullYear();
+  const upcoming = [...federalHolidays(year), ...federalHolidays(year + 1)]
+    .filter((h) => h.date >= minDate)
+    .slice(0, UPCOMING_HOLIDAY_COUNT);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between pt-1">
+        <h3 className="text-sm font-semibold">Holidays</h3>
+        <label className="inline-flex items-center gap-2 text-xs cursor-pointer">
+          <input
+            type="checkbox"
+            checked={holidays.useFederalHolidays}
+            onChange={(e) => updateHolidays({ useFederalHolidays: e.target.checked })}
+            className="rounded border-input cursor-pointer"
+          />
+          US federal holidays
+          <Tooltip content="Banks are closed on federal holidays, so paychecks and bills set to move off weekends/holidays skip these days too. Uses the observed date when a holiday falls on a weekend." />
+        </label>
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        Weekends and holidays only move paydays and recurring expenses that are set to use the previous or next
+        business day.
+      </p>
+
+      {holidays.useFederalHolidays && upcoming.length > 0 && (
+        <div className="rounded-md bg-muted/50 px-3 py-2 text-xs text-muted-foreground space-y-0.5">
+          {upcoming.map((h) => (
+            <div key={h.date} className="flex justify-between gap-2">
+              <span>{h.name}</span>
+              <span>{format(parseISO(h.date), 'EEE, MMM d, yyyy')}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex items-center justify-between">
+        <h4 className="flex items-center gap-1 text-xs font-semibold">
+          Custom holidays
+          <Tooltip content="Other days your bank or employer is closed, e.g. a state holiday." />
+        </h4>
+        <button
+          onClick={addCustomHoliday}
+          className="inline-flex items-center gap-1 rounded-md bg-primary px-3 py-1.5 text-xs font-medium text-primary-foreground hover:bg-primary/80 hover:shadow-sm active:scale-95 transition-all cursor-pointer"
+        >
+          <Plus className="w-3 h-3" />
+          Add
+        </button>
+      </div>
+
+      {holidays.custom.length === 0 && (
+        <p className="text-sm text-muted-foreground italic">
+          No custom holidays added yet.
+        </p>
+      )}
+
+      {holidays.custom.map((holiday) => (
+        <div key={holiday.id} className="rounded-lg border border-input p-3 space-y-2 bg-card">
+          <div className="flex items-center gap-2">
+            <EditableLabel
+              value={holiday.label}
+              onChange={(val) => updateCustomHoliday(holiday.id, { label: val })}
+              placeholder="Holiday name"
+              className="flex-1"
+            />
+            <button
+              onClick={() => removeCustomHoliday(holiday.id)}
+              className="text-muted-foreground hover:text-destructive hover:bg-red-100 rounded-md transition-all p-1 cursor-pointer"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+          <input
+            type="date"
+            value={holiday.date}
+            onChange={(e) => {
+              if (e.target.value) updateCustomHoliday(holiday.id, { date: e.target.value });
+            }}
+            className="w-full rounded-md border border-input bg-background px-1 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-ring"
+          />
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -1,11 +1,34 @@
 import { useCallback, useEffect, useState } from 'react';
 import { useBudgetStore } from '@/store/budgetStore';
+import { useProjectionRange } from '@/hooks/useProjectionRange';
 import { Plus, Trash2, X } from 'lucide-react';
-import type { PayFrequency, RecurringIncome } from '@/engine/types';
-import { format, addMonths, addDays, parseISO, differenceInCalendarDays, getDate, startOfDay } from 'date-fns';
+import type { HoursSegment, PayFrequency, PayType, RateChange, RecurringIncome } from '@/engine/types';
+import { format, addDays, addMonths, parseISO } from 'date-fns';
 import { EditableLabel } from './EditableLabel';
 import { DebouncedNumberInput } from './DebouncedNumberInput';
 import { SortableItem } from './SortableItem';
+import { MonthDaySelect } from './MonthDaySelect';
+import { BusinessDayAdjustmentSelect } from './BusinessDayAdjustmentSelect';
+import { WithholdingFields } from './WithholdingFields';
+import { OvertimeFields } from './OvertimeFields';
+import { VariablePayFields } from './VariablePayFields';
+import {
+  DEFAULT_SEMIMONTHLY_DAYS,
+  DEFAULT_VARIABLE_PAY,
+  estimatePaycheck,
+  hasPayRange,
+  HOURS_IN_WEEK,
+  isHourly,
+  isRegularPayday,
+  isVariable,
+  paycheckAmount,
+  paydaysBetween,
+  payRateOn,
+  regularPaydaysBetween,
+  variablePaycheck,
+} from '@/engine/income';
+import { createHolidayCalendar } from '@/engine/holidays';
+import { formatCurrency, generateId } from '@/lib/utils';
 import { Tooltip } from '@/components/Tooltip';
 import { useHoverHighlightStore } from '@/store/hoverHighlightStore';
 import {
@@ -23,6 +46,14 @@ import {
   verticalListSortingStrategy,
 } from '@dnd-kit/sortable';
 
+/** Length of one pay period, for the take-home estimate */
+const PAY_PERIOD_LABELS: Record<PayFrequency, string> = {
+  weekly: 'week',
+  biweekly: '2 weeks',
+  semimonthly: 'half month',
+  monthly: 'month',
+};
+
 export function IncomeForm() {
   const {
     recurringIncomes,
@@ -30,8 +61,9 @@ export function IncomeForm() {
     updateRecurringIncome,
     removeRecurringIncome,
     reorderRecurringIncomes,
-    projectionMonths,
+    holidays,
   } = useBudgetStore();
+  const { start: projectionStart, end: projectionEnd, minDate, maxDate } = useProjectionRange();
 
   const setHighlight = useHoverHighlightStore((s) => s.setHighlight);
   const clearHighlight = useHoverHighlightStore((s) => s.clearHighlight);
@@ -39,51 +71,12 @@ export function IncomeForm() {
   // Track which income row is being hovered so highlight stays live when fields change
   const [hoveredIncomeId, setHoveredIncomeId] = useState<string | null>(null);
 
-  const maxDate = format(addMonths(new Date(), projectionMonths), 'yyyy-MM-dd');
-  const minDate = format(new Date(), 'yyyy-MM-dd');
-
   /** Compute all pay dates within the projection range for a recurring income. */
   const computePayDates = useCallback((income: RecurringIncome): string[] => {
-    const today = startOfDay(new Date());
-    const end = startOfDay(addMonths(today, projectionMonths));
-    const anchor = startOfDay(parseISO(income.startDate));
-    const incEnd = income.endDate ? startOfDay(parseISO(income.endDate)) : end;
-    const lastDate = incEnd < end ? incEnd : end;
-    const dates: string[] = [];
-
-    const totalDays = differenceInCalendarDays(lastDate, today);
-    for (let i = 0; i <= totalDays; i++) {
-      const d = addDays(today, i);
-      const diff = differenceInCalendarDays(d, anchor);
-      if (diff < 0) continue;
-      let hit = false;
-      switch (income.frequency) {
-        case 'weekly':   hit = diff % 7 === 0; break;
-        case 'biweekly': hit = diff % 14 === 0; break;
-        case 'monthly':  hit = getDate(d) === getDate(anchor); break;
-      }
-      if (hit) dates.push(format(d, 'yyyy-MM-dd'));
-    }
-
-    // Add endDate if it falls mid-cycle (produces a partial paycheck)
-    if (income.endDate) {
-      const endDateObj = startOfDay(parseISO(income.endDate));
-      if (endDateObj <= end) {
-        const diffFromAnchor = differenceInCalendarDays(endDateObj, anchor);
-        let isRegularPayday = false;
-        switch (income.frequency) {
-          case 'weekly':   isRegularPayday = diffFromAnchor >= 0 && diffFromAnchor % 7 === 0; break;
-          case 'biweekly': isRegularPayday = diffFromAnchor >= 0 && diffFromAnchor % 14 === 0; break;
-          case 'monthly':  isRegularPayday = getDate(endDateObj) === getDate(anchor); break;
-        }
-        if (!isRegularPayday) {
-          dates.push(income.endDate);
-        }
-      }
-    }
-
-    return dates;
-  }, [projectionMonths]);
+    return paydaysBetween(income, projectionStart, projectionEnd, createHolidayCalendar(holidays)).map((d) =>
+      format(d, 'yyyy-MM-dd')
+    );
+  }, [projectionStart, projectionEnd, holidays]);
 
   // Reactively update highlight when income data changes while the row is hovered
   useEffect(() => {
@@ -101,36 +94,64 @@ export function IncomeForm() {
   };
 
   // Calculate number of full paychecks between start and end dates
-  const countPaychecks = (startDateStr: string, endDateStr: string | undefined, frequency: PayFrequency): { full: number; hasPartial: boolean } => {
-    if (!endDateStr) return { full: -1, hasPartial: false };
-    
-    const startDate = parseISO(startDateStr);
-    const endDate = parseISO(endDateStr);
-    const daysDiff = differenceInCalendarDays(endDate, startDate);
+  const countPaychecks = (income: RecurringIncome): { full: number; hasPartial: boolean } => {
+    if (!income.endDate) return { full: -1, hasPartial: false };
 
-    if (daysDiff < 0) return { full: 0, hasPartial: false };
+    const startDate = parseISO(income.startDate);
+    const endDate = parseISO(income.endDate);
+    if (endDate < startDate) return { full: 0, hasPartial: false };
 
-    switch (frequency) {
-      case 'weekly': {
-        const full = Math.floor(daysDiff / 7) + 1;
-        const hasPartial = daysDiff % 7 !== 0;
-        return { full, hasPartial };
-      }
-      case 'biweekly': {
-        const full = Math.floor(daysDiff / 14) + 1;
-        const hasPartial = daysDiff % 14 !== 0;
-        return { full, hasPartial };
-      }
-      case 'monthly': {
-        const months = (endDate.getFullYear() - startDate.getFullYear()) * 12 + 
-                       (endDate.getMonth() - startDate.getMonth());
-        const full = months + 1;
-        const hasPartial = endDate.getDate() !== startDate.getDate();
-        return { full, hasPartial };
-      }
-      default:
-        return { full: 0, hasPartial: false };
-    }
+    const full = regularPaydaysBetween(income, startDate, endDate).length;
+    return { full, hasPartial: !isRegularPayday(endDate, income) };
+  };
+
+  // New schedule segments start after the last one (or the projection start) and run 3 months
+  const addHoursSegment = (income: RecurringIncome) => {
+    const schedule = income.hoursSchedule ?? [];
+    const last = schedule[schedule.length - 1];
+    const start = last ? addDays(parseISO(last.endDate), 1) : projectionStart;
+    const segment: HoursSegment = {
+      id: generateId(),
+      startDate: format(start, 'yyyy-MM-dd'),
+      endDate: format(addDays(addMonths(start, 3), -1), 'yyyy-MM-dd'),
+      hoursPerWeek: income.hoursPerWeek,
+    };
+    updateRecurringIncome(income.id, { hoursSchedule: [...schedule, segment] });
+  };
+
+  const updateHoursSegment = (income: RecurringIncome, segmentId: string, data: Partial<HoursSegment>) => {
+    updateRecurringIncome(income.id, {
+      hoursSchedule: (income.hoursSchedule ?? []).map((s) => (s.id === segmentId ? { ...s, ...data } : s)),
+    });
+  };
+
+  const removeHoursSegment = (income: RecurringIncome, segmentId: string) => {
+    updateRecurringIncome(income.id, {
+      hoursSchedule: (income.hoursSchedule ?? []).filter((s) => s.id !== segmentId),
+    });
+  };
+
+  // New raises default to 3% three months into the projection
+  const addRateChange = (income: RecurringIncome) => {
+    const change: RateChange = {
+      id: generateId(),
+      date: format(addMonths(projectionStart, 3), 'yyyy-MM-dd'),
+      kind: 'percent',
+      value: 3,
+    };
+    updateRecurringIncome(income.id, { rateChanges: [...(income.rateChanges ?? []), change] });
+  };
+
+  const updateRateChange = (income: RecurringIncome, changeId: string, data: Partial<RateChange>) => {
+    updateRecurringIncome(income.id, {
+      rateChanges: (income.rateChanges ?? []).map((c) => (c.id === changeId ? { ...c, ...data } : c)),
+    });
+  };
+
+  const removeRateChange = (income: RecurringIncome, changeId: string) => {
+    updateRecurringIncome(income.id, {
+      rateChanges: (income.rateChanges ?? []).filter((c) => c.id !== changeId),
+    });
   };
 
   const sensors = useSensors(
@@ -192,26 +213,36 @@ export function IncomeForm() {
 
               <div className="grid grid-cols-2 gap-3">
                 <div>
-                  <label className="block text-xs text-muted-foreground mb-1">
-                    Hours/week
-                  </label>
-                  <DebouncedNumberInput
-                    value={income.hoursPerWeek}
-                    onChange={(val) => updateRecurringIncome(income.id, { hoursPerWeek: val })}
-                    min={0}
-                    step="1"
-                  />
-                </div>
-                <div>
-                  <label className="block text-xs text-muted-foreground mb-1">
-                    Hourly rate ($)
+                  <label className="flex items-center gap-1 text-xs text-muted-foreground mb-1">
+                    Pay type
+                    <Tooltip content="Hourly pay is hours × rate. Salary pays a fixed amount every paycheck, like a TA or RA stipend. Variable pay, like tips or gig work, uses an average with a low/high range." />
                   </label>
-                  <DebouncedNumberInput
-                    value={income.hourlyRate}
-                    onChange={(val) => updateRecurringIncome(income.id, { hourlyRate: val })}
-                    min={0}
-                    step="0.50"
-                  />
+                  <select
+                    value={income.payType ?? 'hourly'}
+                    onChange={(e) => {
+                      const payType = e.target.value as PayType;
+                      // Start a new salary or variable income at what the current setup pays
+                      const current = Math.round(paycheckAmount(income) * 100) / 100;
+                      const salaryAmount =
+                        payType === 'salary' && income.salaryAmount === undefined ? current : income.salaryAmount;
+                      const variablePay =
+                        payType === 'variable' && income.variablePay === undefined
+                          ? {
+                              ...DEFAULT_VARIABLE_PAY,
+                              average: current,
+                              low: Math.round(current * 0.7),
+                              high: Math.round(current * 1.3),
+                              stdDev: Math.round(current * 0.2),
+                            }
+                          : income.variablePay;
+                      updateRecurringIncome(income.id, { payType, salaryAmount, variablePay });
+                    }}
+                    className="w-full rounded-md border border-input bg-background px-3 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-ring"
+                  >
+                    <option value="hourly">Hourly</option>
+                    <option value="salary">Salary</option>
+                    <option value="variable">Variable (tips, gig)</option>
+                  </select>
                 </div>
                 <div>
                   <label className="block text-xs text-muted-foreground mb-1">
@@ -226,9 +257,54 @@ export function IncomeForm() {
                   >
                     <option value="weekly">Weekly</option>
                     <option value="biweekly">Biweekly</option>
+                    <option value="semimonthly">Semi-monthly</option>
                     <option value="monthly">Monthly</option>
                   </select>
                 </div>
+                {isHourly(income) ? (
+                  <>
+                    <div>
+                      <label className="block text-xs text-muted-foreground mb-1">
+                        Hours/week
+                      </label>
+                      <DebouncedNumberInput
+                        value={income.hoursPerWeek}
+                        onChange={(val) => updateRecurringIncome(income.id, { hoursPerWeek: val })}
+                        min={0}
+                        max={HOURS_IN_WEEK}
+                        step="1"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-xs text-muted-foreground mb-1">
+                        Hourly rate ($)
+                      </label>
+                      <DebouncedNumberInput
+                        value={income.hourlyRate}
+                        onChange={(val) => updateRecurringIncome(income.id, { hourlyRate: val })}
+                        min={0}
+                        step="0.50"
+                      />
+                    </div>
+                  </>
+                ) : isVariable(income) ? (
+                  <VariablePayFields
+                    variablePay={income.variablePay}
+                    onChange={(variablePay) => updateRecurringIncome(income.id, { variablePay })}
+                  />
+                ) : (
+                  <div>
+                    <label className="block text-xs text-muted-foreground mb-1">
+                      Per paycheck ($)
+                    </label>
+                    <DebouncedNumberInput
+                      value={income.salaryAmount ?? 0}
+                      onChange={(val) => updateRecurringIncome(income.id, { salaryAmount: val })}
+                      min={0}
+                      step="50"
+                    />
+                  </div>
+                )}
                 <div>
                   <label className="flex items-center gap-1 text-xs text-muted-foreground mb-1">
                     Pay date anchor
@@ -239,6 +315,7 @@ export function IncomeForm() {
                     value={income.startDate}
                     onChange={(e) => {
                       const newStart = e.target.value;
+                      if (!newStart) return;
                       const updates: Partial<typeof income> = { startDate: newStart };
                       // Clear end date if it would be before the new start date
                       if (income.endDate && newStart > income.endDate) {
@@ -251,6 +328,176 @@ export function IncomeForm() {
                 </div>
               </div>
 
+              {income.frequency === 'semimonthly' && (() => {
+                const [firstDay, secondDay] = income.semimonthlyDays ?? DEFAULT_SEMIMONTHLY_DAYS;
+                return (
+                  <div className="grid grid-cols-2 gap-3">
+                    <div>
+                      <label className="flex items-center gap-1 text-xs text-muted-foreground mb-1">
+                        First payday
+                        <Tooltip content="Paydays each month. The 29th-31st fall on the last day of shorter months." />
+                      </label>
+                      <MonthDaySelect
+                        value={firstDay}
+                        onChange={(rule) => updateRecurringIncome(income.id, { semimonthlyDays: [rule, secondDay] })}
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-xs text-muted-foreground mb-1">
+                        Second payday
+                      </label>
+                      <MonthDaySelect
+                        value={secondDay}
+                        onChange={(rule) => updateRecurringIncome(income.id, { semimonthlyDays: [firstDay, rule] })}
+                      />
+                    </div>
+                  </div>
+                );
+              })()}
+
+              {isHourly(income) && (
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <label className="flex items-center gap-1 text-xs text-muted-foreground">
+                      Hours schedule
+                      <Tooltip content="Different hours for part of the year, e.g. 40 hours/week over the summer. Outside these dates the hours/week and rate above apply. A paycheck covering a change is paid for the hours worked on each day." />
+                    </label>
+                    <button
+                      type="button"
+                      onClick={() => addHoursSegment(income)}
+                      className="inline-flex items-center gap-1 text-xs text-primary hover:underline cursor-pointer"
+                    >
+                      <Plus className="w-3 h-3" />
+                      Add period
+                    </button>
+                  </div>
+                  {(income.hoursSchedule ?? []).map((segment) => (
+                    <div key={segment.id} className="rounded-md border border-input p-2 space-y-2">
+                      <div className="flex items-center gap-2">
+                        <input
+                          type="date"
+                          value={segment.startDate}
+                          onChange={(e) => {
+                            if (e.target.value) updateHoursSegment(income, segment.id, { startDate: e.target.value });
+                          }}
+                          max={segment.endDate}
+                          className="flex-1 min-w-0 rounded-md border border-input bg-background px-1 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-ring"
+                        />
+                        <span className="text-xs text-muted-foreground">to</span>
+                        <input
+                          type="date"
+                          value={segment.endDate}
+                          onChange={(e) => {
+                            if (e.target.value) updateHoursSegment(income, segment.id, { endDate: e.target.value });
+                          }}
+                          min={segment.startDate}
+                          className="flex-1 min-w-0 rounded-md border border-input bg-background px-1 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-ring"
+                        />
+                        <button
+                          onClick={() => removeHoursSegment(income, segment.id)}
+                          className="text-muted-foreground hover:text-destructive hover:bg-red-100 rounded-md transition-all p-1 cursor-pointer"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                      <div className="grid grid-cols-2 gap-2">
+                        <div>
+                          <label className="block text-xs text-muted-foreground mb-1">
+                            Hours/week
+                          </label>
+                          <DebouncedNumberInput
+                            value={segment.hoursPerWeek}
+                            onChange={(val) => updateHoursSegment(income, segment.id, { hoursPerWeek: val })}
+                            min={0}
+                            max={HOURS_IN_WEEK}
+                            step="1"
+                          />
+                        </div>
+                        <div>
+                          <label className="block text-xs text-muted-foreground mb-1">
+                            Hourly rate ($)
+                          </label>
+                          <DebouncedNumberInput
+                            value={segment.hourlyRate ?? income.hourlyRate}
+                            onChange={(val) => updateHoursSegment(income, segment.id, { hourlyRate: val })}
+                            min={0}
+                            step="0.50"
+                          />
+                        </div>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {!isVariable(income) && (
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <label className="flex items-center gap-1 text-xs text-muted-foreground">
+                      Raises
+                      <Tooltip content={`Dated changes to the ${isHourly(income) ? 'hourly rate' : 'salary per paycheck'}, either a new amount or a % raise, e.g. after 90 days or a new minimum wage on January 1. Raises build on each other in date order.`} />
+                    </label>
+                    <button
+                      type="button"
+                      onClick={() => addRateChange(income)}
+                      className="inline-flex items-center gap-1 text-xs text-primary hover:underline cursor-pointer"
+                    >
+                      <Plus className="w-3 h-3" />
+                      Add raise
+                    </button>
+                  </div>
+                  {(income.rateChanges ?? []).map((change) => (
+                    <div key={change.id} className="flex items-center gap-2">
+                      <input
+                        type="date"
+                        value={change.date}
+                        onChange={(e) => {
+                          if (e.target.value) updateRateChange(income, change.id, { date: e.target.value });
+                        }}
+                        className="flex-1 min-w-0 rounded-md border border-input bg-background px-1 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-ring"
+                      />
+                      <select
+                        value={change.kind}
+                        onChange={(e) => updateRateChange(income, change.id, { kind: e.target.value as RateChange['kind'] })}
+                        className="rounded-md border border-input bg-background px-2 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-ring"
+                      >
+                        <option value="percent">+%</option>
+                        <option value="amount">New $</option>
+                      </select>
+                      <div className="w-20">
+                        <DebouncedNumberInput
+                          value={change.value}
+                          onChange={(val) => updateRateChange(income, change.id, { value: val })}
+                          step={change.kind === 'percent' ? '0.5' : '0.50'}
+                        />
+                      </div>
+                      <span className="text-xs text-muted-foreground whitespace-nowrap" title="Rate from this date">
+                        → {isHourly(income)
+                          ? `$${payRateOn(income, parseISO(change.date)).toFixed(2)}/hr`
+                          : formatCurrency(payRateOn(income, parseISO(change.date)))}
+                      </span>
+                      <button
+                        onClick={() => removeRateChange(income, change.id)}
+                        className="text-muted-foreground hover:text-destructive hover:bg-red-100 rounded-md transition-all p-1 cursor-pointer"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              <div>
+                <label className="flex items-center gap-1 text-xs text-muted-foreground mb-1">
+                  If payday is a weekend/holiday
+                  <Tooltip content="Most employers pay on the business day before. Holidays are set in the Holidays section." />
+                </label>
+                <BusinessDayAdjustmentSelect
+                  value={income.businessDayAdjustment ?? 'none'}
+                  onChange={(businessDayAdjustment) => updateRecurringIncome(income.id, { businessDayAdjustment })}
+                />
+              </div>
+
               <div className="grid grid-cols-1 gap-3">
                 <div>
                   <label className="block text-xs text-muted-foreground mb-1 flex items-center gap-1">
@@ -280,7 +527,7 @@ export function IncomeForm() {
                     )}
                   </div>
                   {income.endDate && (() => {
-                    const { full, hasPartial } = countPaychecks(income.startDate, income.endDate, income.frequency);
+                    const { full, hasPartial } = countPaychecks(income);
                     return (
                       <p className="text-xs text-muted-foreground mt-1">
                         {full} paycheck{full !== 1 ? 's' : ''}{hasPartial ? ' + partial' : ''} included
@@ -290,10 +537,36 @@ export function IncomeForm() {
                 </div>
               </div>
 
-              <p className="text-xs text-muted-foreground">
-                ≈ ${(income.hoursPerWeek * income.hourlyRate * (income.frequency === 'biweekly' ? 2 : income.frequency === 'monthly' ? 52 / 12 : 1)).toFixed(0)}{' '}
-                per {income.frequency === 'biweekly' ? '2 weeks' : income.frequency}
-              </p>
+              {isHourly(income) && (
+                <OvertimeFields
+                  overtime={income.overtime}
+                  onChange={(overtime) => updateRecurringIncome(income.id, { overtime })}
+                />
+              )}
+
+              <WithholdingFields
+                withholding={income.withholding}
+                onChange={(withholding) => updateRecurringIncome(income.id, { withholding })}
+                flatRate={income.taxWithholdingRate}
+                onFlatRateChange={(taxWithholdingRate) => updateRecurringIncome(income.id, { taxWithholdingRate })}
+              />
+
+              {(() => {
+                const pay = estimatePaycheck(income, projectionStart);
+                const withheld = pay.gross - pay.net;
+                return (
+                  <p className="text-xs text-muted-foreground">
+                    ≈ {formatCurrency(pay.net)}{' '}
+                    per {PAY_PERIOD_LABELS[income.frequency]}
+                    {withheld > 0 && (
+                      <> ({formatCurrency(pay.gross)} gross − {formatCurrency(withheld)} withheld)</>
+                    )}
+                    {hasPayRange(income) && (
+                      <>, {formatCurrency(variablePaycheck(income, 'low'))}–{formatCurrency(variablePaycheck(income, 'high'))} gross range</>
+                    )}
+                  </p>
+                );
+              })()}
             </SortableItem>
             );
           })}
@@ -1,9 +1,10 @@
+import { parseISO } from 'date-fns';
 import { useBudgetStore } from '@/store/budgetStore';
-import { formatCurrency } from '@/lib/utils';
+import { formatCurrency, formatDate } from '@/lib/utils';
 import { DebouncedNumberInput } from './DebouncedNumberInput';
 
 export function InitialBalanceForm() {
-  const { initialBalance, setInitialBalance, projectionMonths, setProjectionMonths } =
+  const { initialBalance, setInitialBalance, projectionMonths, setProjectionMonths, startDate, setStartDate } =
     useBudgetStore();
 
   return (
@@ -44,6 +45,34 @@ export function InitialBalanceForm() {
           <option value={24}>24 months</option>
         </select>
       </div>
+
+      <div>
+        <label className="block text-sm font-medium mb-1">
+          Start Date
+        </label>
+        <div className="flex gap-2">
+          <input
+            type="date"
+            value={startDate ?? ''}
+            onChange={(e) => setStartDate(e.target.value || undefined)}
+            className="flex-1 rounded-md border border-input bg-background px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-ring"
+          />
+          {startDate && (
+            <button
+              type="button"
+              onClick={() => setStartDate(undefined)}
+              className="rounded-md border border-input bg-white px-3 py-2 text-sm hover:bg-accent transition-colors cursor-pointer"
+            >
+              Today
+            </button>
+          )}
+        </div>
+        <p className="text-xs text-muted-foreground mt-1">
+          {startDate
+            ? `Projecting from ${formatDate(parseISO(startDate))}; cash on hand is the balance that morning`
+            : 'Projecting from today'}
+        </p>
+      </div>
     </div>
   );
 }
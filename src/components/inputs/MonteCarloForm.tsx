@@ -0,0 +1,83 @@
+import { useBudgetStore } from '@/store/budgetStore';
+import { useMonteCarloStore } from '@/store/monteCarloStore';
+import { DEFAULT_MONTE_CARLO, MAX_MONTE_CARLO_RUNS } from '@/engine/monteCarlo';
+import { DebouncedNumberInput } from './DebouncedNumberInput';
+import { Tooltip } from '@/components/Tooltip';
+
+export function MonteCarloForm() {
+  const storedMonteCarlo = useBudgetStore((s) => s.monteCarlo);
+  const updateMonteCarlo = useBudgetStore((s) => s.updateMonteCarlo);
+  const running = useMonteCarloStore((s) => s.running);
+  const monteCarlo = storedMonteCarlo ?? DEFAULT_MONTE_CARLO;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between pt-1">
+        <h3 className="text-sm font-semibold">Monte Carlo Simulation</h3>
+        <label className="inline-flex items-center gap-2 text-xs cursor-pointer">
+          <input
+            type="checkbox"
+            checked={monteCarlo.enabled}
+            onChange={(e) => updateMonteCarlo({ enabled: e.target.checked })}
+            className="rounded border-input cursor-pointer"
+          />
+          Enabled
+        </label>
+      </div>
+
+      {!monteCarlo.enabled && (
+        <p className="text-sm text-muted-foreground italic">
+          Simulation is disabled. Enable it to see the chance of overdrafting when tips, food and gas prices vary.
+        </p>
+      )}
+
+      <div className={!monteCarlo.enabled ? 'opacity-50 pointer-events-none' : ''}>
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className="flex items-center gap-1 text-xs text-muted-foreground mb-1">
+              Runs
+              <Tooltip content="Number of simulated projections. More runs give steadier results but take longer." />
+            </label>
+            <DebouncedNumberInput
+              value={monteCarlo.runs}
+              onChange={(val) => updateMonteCarlo({ runs: Math.round(val) })}
+              min={1}
+              max={MAX_MONTE_CARLO_RUNS}
+              step="100"
+            />
+          </div>
+          <div>
+            <label className="flex items-center gap-1 text-xs text-muted-foreground mb-1">
+              Food ± (%)
+              <Tooltip content="Each day's food spending varies randomly by up to this much." />
+            </label>
+            <DebouncedNumberInput
+              value={monteCarlo.foodVariation}
+              onChange={(val) => updateMonteCarlo({ foodVariation: val })}
+              min={0}
+              max={100}
+              step="5"
+            />
+          </div>
+          <div>
+            <label className="flex items-center gap-1 text-xs text-muted-foreground mb-1">
+              Fuel price ± (%)
+              <Tooltip content="The gas price varies randomly by up to this much, changing once a month." />
+            </label>
+            <DebouncedNumberInput
+              value={monteCarlo.fuelPriceVariation}
+              onChange={(val) => updateMonteCarlo({ fuelPriceVariation: val })}
+              min={0}
+              max={100}
+              step="5"
+            />
+          </div>
+        </div>
+        <p className="text-xs text-muted-foreground mt-3">
+          Variable incomes vary within their own low/high range or standard deviation.
+          {running && <span className="ml-1 italic">Simulating…</span>}
+        </p>
+      </div>
+    </div>
+  );
+}
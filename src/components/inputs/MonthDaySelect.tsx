@@ -0,0 +1,33 @@
+import type { MonthDayRule } from '@/engine/types';
+import { describeMonthDay } from '@/engine/dateRules';
+
+const MONTH_DAY_RULES: MonthDayRule[] = [
+  ...Array.from({ length: 31 }, (_, i) => i + 1),
+  'last',
+  'last-business',
+];
+
+interface MonthDaySelectProps {
+  value: MonthDayRule;
+  onChange: (rule: MonthDayRule) => void;
+}
+
+/** Dropdown for a day-of-month rule: 1st-31st, last day or last business day. */
+export function MonthDaySelect({ value, onChange }: MonthDaySelectProps) {
+  return (
+    <select
+      value={String(value)}
+      onChange={(e) => {
+        const selected = e.target.value;
+        onChange(selected === 'last' || selected === 'last-business' ? selected : Number(selected));
+      }}
+      className="w-full rounded-md border border-input bg-background px-2 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-ring"
+    >
+      {MONTH_DAY_RULES.map((rule) => (
+        <option key={rule} value={String(rule)}>
+          {describeMonthDay(rule)}
+        </option>
+      ))}
+    </select>
+  );
+}
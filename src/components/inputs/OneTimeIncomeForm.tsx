@@ -1,6 +1,6 @@
 import { useBudgetStore } from '@/store/budgetStore';
 import { Plus, Trash2 } from 'lucide-react';
-import { format, addMonths } from 'date-fns';
+import { useProjectionRange } from '@/hooks/useProjectionRange';
 import { EditableLabel } from './EditableLabel';
 import { DebouncedNumberInput } from './DebouncedNumberInput';
 import { SortableItem } from './SortableItem';
@@ -27,15 +27,12 @@ export function OneTimeIncomeForm() {
     updateOneTimeIncome,
     removeOneTimeIncome,
     reorderOneTimeIncomes,
-    projectionMonths,
   } = useBudgetStore();
+  const { minDate, maxDate } = useProjectionRange();
 
   const setHighlight = useHoverHighlightStore((s) => s.setHighlight);
   const clearHighlight = useHoverHighlightStore((s) => s.clearHighlight);
 
-  const minDate = format(new Date(), 'yyyy-MM-dd');
-  const maxDate = format(addMonths(new Date(), projectionMonths), 'yyyy-MM-dd');
-
   const isDateOutOfRange = (dateStr: string) => {
     return dateStr < minDate || dateStr > maxDate;
   };
@@ -120,9 +117,9 @@ export function OneTimeIncomeForm() {
                   <input
                     type="date"
                     value={income.date}
-                    onChange={(e) =>
-                      updateOneTimeIncome(income.id, { date: e.target.value })
-                    }
+                    onChange={(e) => {
+                      if (e.target.value) updateOneTimeIncome(income.id, { date: e.target.value });
+                    }}
                     min={minDate}
                     max={maxDate}
                     className="w-full rounded-md border border-input bg-background px-1 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-ring"
@@ -0,0 +1,84 @@
+import type { OvertimeConfig } from '@/engine/types';
+import { DEFAULT_OVERTIME, HOURS_IN_WEEK } from '@/engine/income';
+import { DebouncedNumberInput } from './DebouncedNumberInput';
+import { Tooltip } from '@/components/Tooltip';
+
+interface OvertimeFieldsProps {
+  overtime: OvertimeConfig | undefined;
+  onChange: (overtime: OvertimeConfig) => void;
+}
+
+/** Overtime threshold/multiplier and shift differential inputs for an hourly income. */
+export function OvertimeFields({ overtime, onChange }: OvertimeFieldsProps) {
+  const current = overtime ?? { ...DEFAULT_OVERTIME, enabled: false };
+  const update = (data: Partial<OvertimeConfig>) => onChange({ ...current, ...data });
+
+  return (
+    <div className="space-y-2">
+      <label className="inline-flex items-center gap-2 text-xs cursor-pointer">
+        <input
+          type="checkbox"
+          checked={current.enabled}
+          onChange={(e) => update({ enabled: e.target.checked })}
+          className="rounded border-input cursor-pointer"
+        />
+        Overtime &amp; shift differential
+        <Tooltip content="Pay weekly hours past a threshold at a multiplier, e.g. 1.5× past 40, and add a differential for night or weekend shifts." />
+      </label>
+
+      {current.enabled && (
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className="flex items-center gap-1 text-xs text-muted-foreground mb-1">
+              Overtime after (hrs/wk)
+              <Tooltip content="Weekly hours paid at the regular rate. Hours past this are overtime." />
+            </label>
+            <DebouncedNumberInput
+              value={current.thresholdHours}
+              onChange={(val) => update({ thresholdHours: val })}
+              min={0}
+              max={HOURS_IN_WEEK}
+              step="1"
+            />
+          </div>
+          <div>
+            <label className="block text-xs text-muted-foreground mb-1">
+              Overtime multiplier
+            </label>
+            <DebouncedNumberInput
+              value={current.multiplier}
+              onChange={(val) => update({ multiplier: val })}
+              min={1}
+              step="0.25"
+            />
+          </div>
+          <div>
+            <label className="flex items-center gap-1 text-xs text-muted-foreground mb-1">
+              Differential hrs/wk
+              <Tooltip content="Weekly hours on shifts that pay extra, such as nights. Capped at the hours worked." />
+            </label>
+            <DebouncedNumberInput
+              value={current.differentialHours}
+              onChange={(val) => update({ differentialHours: val })}
+              min={0}
+              max={HOURS_IN_WEEK}
+              step="1"
+            />
+          </div>
+          <div>
+            <label className="flex items-center gap-1 text-xs text-muted-foreground mb-1">
+              Differential ($/hr)
+              <Tooltip content="Extra pay added for each differential hour." />
+            </label>
+            <DebouncedNumberInput
+              value={current.differentialRate}
+              onChange={(val) => update({ differentialRate: val })}
+              min={0}
+              step="0.25"
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
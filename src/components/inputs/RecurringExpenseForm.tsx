@@ -1,12 +1,27 @@
 import { useCallback } from 'react';
 import { useBudgetStore } from '@/store/budgetStore';
-import { Plus, Trash2 } from 'lucide-react';
+import { useProjectionRange } from '@/hooks/useProjectionRange';
+import { Plus, Trash2, X } from 'lucide-react';
 import { EditableLabel } from './EditableLabel';
 import { DebouncedNumberInput } from './DebouncedNumberInput';
 import { SortableItem } from './SortableItem';
+import { MonthDaySelect } from './MonthDaySelect';
+import { BusinessDayAdjustmentSelect } from './BusinessDayAdjustmentSelect';
 import { Tooltip } from '@/components/Tooltip';
 import { useHoverHighlightStore } from '@/store/hoverHighlightStore';
-import { format, addMonths, addDays, startOfDay, differenceInCalendarDays, getDate } from 'date-fns';
+import type { RecurrenceUnit, RecurringExpense } from '@/engine/types';
+import {
+  describeRecurrence,
+  hasMonthDay,
+  monthDayOf,
+  occurrencesPerYear,
+  withAnchorDate,
+  withDayRule,
+} from '@/engine/recurrence';
+import { expenseDueDates } from '@/engine/expenses';
+import { createHolidayCalendar } from '@/engine/holidays';
+import { formatCurrency } from '@/lib/utils';
+import { format } from 'date-fns';
 import {
   DndContext,
   closestCenter,
@@ -22,6 +37,8 @@ import {
   verticalListSortingStrategy,
 } from '@dnd-kit/sortable';
 
+const RECURRENCE_UNITS: RecurrenceUnit[] = ['day', 'week', 'month', 'year'];
+
 export function RecurringExpenseForm() {
   const {
     recurringExpenses,
@@ -29,24 +46,26 @@ export function RecurringExpenseForm() {
     updateRecurringExpense,
     removeRecurringExpense,
     reorderRecurringExpenses,
-    projectionMonths,
+    holidays,
   } = useBudgetStore();
+  const { start: projectionStart, end: projectionEnd, minDate, maxDate } = useProjectionRange();
 
   const setHighlight = useHoverHighlightStore((s) => s.setHighlight);
   const clearHighlight = useHoverHighlightStore((s) => s.clearHighlight);
 
   /** Compute all dates a recurring expense fires on within the projection range. */
-  const computeExpenseDates = useCallback((dayOfMonth: number): string[] => {
-    const today = startOfDay(new Date());
-    const end = startOfDay(addMonths(today, projectionMonths));
-    const totalDays = differenceInCalendarDays(end, today);
-    const dates: string[] = [];
-    for (let i = 0; i <= totalDays; i++) {
-      const d = addDays(today, i);
-      if (getDate(d) === dayOfMonth) dates.push(format(d, 'yyyy-MM-dd'));
-    }
-    return dates;
-  }, [projectionMonths]);
+  const computeExpenseDates = useCallback((expense: RecurringExpense): string[] => {
+    return expenseDueDates(expense, projectionStart, projectionEnd, createHolidayCalendar(holidays)).map((d) =>
+      format(d, 'yyyy-MM-dd')
+    );
+  }, [projectionStart, projectionEnd, holidays]);
+
+  // Out-of-range: start date beyond projection OR end date entirely in the past
+  const isExpenseOutOfRange = (expense: RecurringExpense) => {
+    if (expense.startDate && expense.startDate > maxDate) return true;
+    if (expense.endDate && expense.endDate < minDate) return true;
+    return false;
+  };
 
   const sensors = useSensors(
     useSensor(PointerSensor, { activationConstraint: { distance: 5 } }),
@@ -65,7 +84,7 @@ export function RecurringExpenseForm() {
   return (
     <div className="space-y-4">
       <div className="flex items-center justify-between">
-        <h3 className="text-sm font-semibold">Monthly Expenses</h3>
+        <h3 className="text-sm font-semibold">Recurring Expenses</h3>
         <button
           onClick={addRecurringExpense}
           className="inline-flex items-center gap-1 rounded-md bg-primary px-3 py-1.5 text-xs font-medium text-primary-foreground hover:bg-primary/80 hover:shadow-sm active:scale-95 transition-all cursor-pointer"
@@ -84,8 +103,8 @@ export function RecurringExpenseForm() {
       <DndContext sensors={sensors} collisionDetection={closestCenter} onDragEnd={handleDragEnd}>
         <SortableContext items={recurringExpenses.map((e) => e.id)} strategy={verticalListSortingStrategy}>
           {recurringExpenses.map((expense) => (
-            <SortableItem key={expense.id} id={expense.id} enabled={expense.enabled !== false} onToggleEnabled={() => updateRecurringExpense(expense.id, { enabled: expense.enabled === false })}
-              onMouseEnter={() => setHighlight({ itemId: expense.id, type: 'expense', dates: computeExpenseDates(expense.dayOfMonth) })}
+            <SortableItem key={expense.id} id={expense.id} enabled={expense.enabled !== false} onToggleEnabled={() => updateRecurringExpense(expense.id, { enabled: expense.enabled === false })} className={isExpenseOutOfRange(expense) ? 'border-2 border-red-500 bg-orange-100' : ''}
+              onMouseEnter={() => setHighlight({ itemId: expense.id, type: 'expense', dates: computeExpenseDates(expense) })}
               onMouseLeave={clearHighlight}
             >
               <div className="flex items-center gap-2">
@@ -118,20 +137,146 @@ export function RecurringExpenseForm() {
                   />
                 </div>
                 <div>
+                  <label className="block text-xs text-muted-foreground mb-1">
+                    Repeats every
+                  </label>
+                  <div className="flex gap-1.5">
+                    <div className="w-14 shrink-0">
+                      <DebouncedNumberInput
+                        value={expense.recurrence.interval}
+                        onChange={(val) =>
+                          updateRecurringExpense(expense.id, {
+                            recurrence: { ...expense.recurrence, interval: Math.max(1, Math.round(val)) },
+                          })
+                        }
+                        min={1}
+                      />
+                    </div>
+                    <select
+                      value={expense.recurrence.unit}
+                      onChange={(e) =>
+                        updateRecurringExpense(expense.id, {
+                          recurrence: { ...expense.recurrence, unit: e.target.value as RecurrenceUnit },
+                        })
+                      }
+                      className="flex-1 min-w-0 rounded-md border border-input bg-background px-2 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-ring"
+                    >
+                      {RECURRENCE_UNITS.map((unit) => (
+                        <option key={unit} value={unit}>
+                          {expense.recurrence.interval === 1 ? unit : `${unit}s`}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+                <div className={hasMonthDay(expense.recurrence) ? '' : 'col-span-2'}>
                   <label className="block text-xs text-muted-foreground mb-1 flex items-center gap-1">
-                    Day (1-28)
-                    <Tooltip content="Day of the month when this expense is due" />
+                    Due on
+                    <Tooltip content="Any date this expense is due. It repeats from this date in both directions." />
                   </label>
-                  <DebouncedNumberInput
-                    value={expense.dayOfMonth}
-                    onChange={(val) =>
-                      updateRecurringExpense(expense.id, { dayOfMonth: val })
-                    }
-                    min={1}
-                    max={28}
+                  <input
+                    type="date"
+                    value={expense.recurrence.anchorDate}
+                    onChange={(e) => {
+                      if (e.target.value) {
+                        updateRecurringExpense(expense.id, {
+                          recurrence: withAnchorDate(expense.recurrence, e.target.value),
+                        });
+                      }
+                    }}
+                    className="w-full rounded-md border border-input bg-background px-1 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-ring"
+                  />
+                </div>
+                {hasMonthDay(expense.recurrence) && (
+                  <div>
+                    <label className="block text-xs text-muted-foreground mb-1 flex items-center gap-1">
+                      Day of month
+                      <Tooltip content="The 29th-31st fall on the last day of shorter months. Last business day is the last Monday-Friday of the month." />
+                    </label>
+                    <MonthDaySelect
+                      value={monthDayOf(expense.recurrence)}
+                      onChange={(rule) =>
+                        updateRecurringExpense(expense.id, { recurrence: withDayRule(expense.recurrence, rule) })
+                      }
+                    />
+                  </div>
+                )}
+                <div className="col-span-2">
+                  <label className="block text-xs text-muted-foreground mb-1 flex items-center gap-1">
+                    If due on a weekend/holiday
+                    <Tooltip content="Move the charge to the business day before or after, like most banks and billers do. Holidays are set in the Holidays section." />
+                  </label>
+                  <BusinessDayAdjustmentSelect
+                    value={expense.businessDayAdjustment ?? 'none'}
+                    onChange={(businessDayAdjustment) => updateRecurringExpense(expense.id, { businessDayAdjustment })}
                   />
                 </div>
               </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-xs text-muted-foreground mb-1 flex items-center gap-1">
+                    Start date
+                    <Tooltip content="Optional. The expense isn't charged before this day, e.g. a membership you start later." />
+                  </label>
+                  <div className="relative">
+                    <input
+                      type="date"
+                      value={expense.startDate || ''}
+                      onChange={(e) => {
+                        const value = e.target.value || undefined;
+                        const updates: Partial<RecurringExpense> = { startDate: value };
+                        // Clear end date if it would be before the new start date
+                        if (value && expense.endDate && value > expense.endDate) {
+                          updates.endDate = undefined;
+                        }
+                        updateRecurringExpense(expense.id, updates);
+                      }}
+                      max={expense.endDate}
+                      className={`w-full rounded-md border border-input bg-background px-1 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-ring ${expense.startDate ? 'pr-7' : ''}`}
+                    />
+                    {expense.startDate && (
+                      <button
+                        type="button"
+                        onClick={() => updateRecurringExpense(expense.id, { startDate: undefined })}
+                        className="absolute right-1 top-1/2 -translate-y-1/2 p-1 rounded hover:bg-accent text-muted-foreground hover:text-foreground transition-colors z-10"
+                        title="Clear start date"
+                      >
+                        <X className="w-3.5 h-3.5" />
+                      </button>
+                    )}
+                  </div>
+                </div>
+                <div>
+                  <label className="block text-xs text-muted-foreground mb-1 flex items-center gap-1">
+                    End date
+                    <Tooltip content="Optional. The last day this expense can be charged, e.g. when a lease ends or a plan is cancelled." />
+                  </label>
+                  <div className="relative">
+                    <input
+                      type="date"
+                      value={expense.endDate || ''}
+                      onChange={(e) => updateRecurringExpense(expense.id, { endDate: e.target.value || undefined })}
+                      min={expense.startDate}
+                      className={`w-full rounded-md border border-input bg-background px-1 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-ring ${expense.endDate ? 'pr-7' : ''}`}
+                    />
+                    {expense.endDate && (
+                      <button
+                        type="button"
+                        onClick={() => updateRecurringExpense(expense.id, { endDate: undefined })}
+                        className="absolute right-1 top-1/2 -translate-y-1/2 p-1 rounded hover:bg-accent text-muted-foreground hover:text-foreground transition-colors z-10"
+                        title="Clear end date"
+                      >
+                        <X className="w-3.5 h-3.5" />
+                      </button>
+                    )}
+                  </div>
+                </div>
+              </div>
+
+              <p className="text-xs text-muted-foreground">
+                {describeRecurrence(expense.recurrence)} · ≈ {formatCurrency((expense.amount * occurrencesPerYear(expense.recurrence)) / 12)}/mo
+              </p>
             </SortableItem>
           ))}
         </SortableContext>
@@ -0,0 +1,233 @@
+import { useBudgetStore } from '@/store/budgetStore';
+import { Plus, Trash2, X } from 'lucide-react';
+import type { LoanInterestType } from '@/engine/types';
+import { standardPayment } from '@/engine/loans';
+import { formatCurrency, formatDate } from '@/lib/utils';
+import { addMonths, parseISO } from 'date-fns';
+import { EditableLabel } from './EditableLabel';
+import { DebouncedNumberInput } from './DebouncedNumberInput';
+import { SortableItem } from './SortableItem';
+import { Tooltip } from '@/components/Tooltip';
+import {
+  DndContext,
+  closestCenter,
+  KeyboardSensor,
+  PointerSensor,
+  useSensor,
+  useSensors,
+  type DragEndEvent,
+} from '@dnd-kit/core';
+import {
+  SortableContext,
+  sortableKeyboardCoordinates,
+  verticalListSortingStrategy,
+} from '@dnd-kit/sortable';
+
+export function StudentLoanForm() {
+  const {
+    studentLoans = [],
+    addStudentLoan,
+    updateStudentLoan,
+    removeStudentLoan,
+    addLoanDisbursement,
+    updateLoanDisbursement,
+    removeLoanDisbursement,
+    reorderStudentLoans,
+  } = useBudgetStore();
+
+  const sensors = useSensors(
+    useSensor(PointerSensor, { activationConstraint: { distance: 5 } }),
+    useSensor(KeyboardSensor, { coordinateGetter: sortableKeyboardCoordinates })
+  );
+
+  function handleDragEnd(event: DragEndEvent) {
+    const { active, over } = event;
+    if (over && active.id !== over.id) {
+      const oldIndex = studentLoans.findIndex((l) => l.id === active.id);
+      const newIndex = studentLoans.findIndex((l) => l.id === over.id);
+      reorderStudentLoans(oldIndex, newIndex);
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold">Student Loans</h3>
+        <button
+          onClick={addStudentLoan}
+          className="inline-flex items-center gap-1 rounded-md bg-primary px-3 py-1.5 text-xs font-medium text-primary-foreground hover:bg-primary/80 hover:shadow-sm active:scale-95 transition-all cursor-pointer"
+        >
+          <Plus className="w-3 h-3" />
+          Add
+        </button>
+      </div>
+
+      {studentLoans.length === 0 && (
+        <p className="text-sm text-muted-foreground italic">
+          No student loans added yet.
+        </p>
+      )}
+
+      <DndContext sensors={sensors} collisionDetection={closestCenter} onDragEnd={handleDragEnd}>
+        <SortableContext items={studentLoans.map((l) => l.id)} strategy={verticalListSortingStrategy}>
+          {studentLoans.map((loan) => {
+            // Estimate ignores interest accrued before repayment; the projection includes it
+            const principal = loan.disbursements.reduce((sum, d) => sum + d.amount, 0);
+            const estimatedPayment = standardPayment(
+              principal,
+              loan.interestRate / 100 / 12,
+              Math.round(loan.repaymentYears * 12)
+            );
+            const repaymentStart = addMonths(parseISO(loan.graduationDate), loan.gracePeriodMonths);
+            return (
+            <SortableItem key={loan.id} id={loan.id} enabled={loan.enabled !== false} onToggleEnabled={() => updateStudentLoan(loan.id, { enabled: loan.enabled === false })}>
+              <div className="flex items-center gap-2">
+                <EditableLabel
+                  value={loan.label}
+                  onChange={(val) => updateStudentLoan(loan.id, { label: val })}
+                  placeholder="Loan name"
+                  className="flex-1"
+                />
+                <button
+                  onClick={() => removeStudentLoan(loan.id)}
+                  className="text-muted-foreground hover:text-destructive hover:bg-red-100 rounded-md transition-all p-1 cursor-pointer"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="flex items-center gap-1 text-xs text-muted-foreground mb-1">
+                    Type
+                    <Tooltip content="Subsidized loans don't accrue interest while you're in school or during the grace period. Unsubsidized loans accrue interest from the day they're disbursed." />
+                  </label>
+                  <select
+                    value={loan.interestType}
+                    onChange={(e) =>
+                      updateStudentLoan(loan.id, { interestType: e.target.value as LoanInterestType })
+                    }
+                    className="w-full rounded-md border border-input bg-background px-3 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-ring"
+                  >
+                    <option value="unsubsidized">Unsubsidized</option>
+                    <option value="subsidized">Subsidized</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs text-muted-foreground mb-1">
+                    Interest rate (%)
+                  </label>
+                  <DebouncedNumberInput
+                    value={loan.interestRate}
+                    onChange={(val) => updateStudentLoan(loan.id, { interestRate: val })}
+                    min={0}
+                    max={100}
+                    step="0.01"
+                  />
+                </div>
+                <div>
+                  <label className="flex items-center gap-1 text-xs text-muted-foreground mb-1">
+                    Origination fee (%)
+                    <Tooltip content="Deducted from each disbursement before it reaches you. You still owe the full amount borrowed." />
+                  </label>
+                  <DebouncedNumberInput
+                    value={loan.originationFeePercent}
+                    onChange={(val) => updateStudentLoan(loan.id, { originationFeePercent: val })}
+                    min={0}
+                    max={100}
+                    step="0.001"
+                  />
+                </div>
+                <div>
+                  <label className="flex items-center gap-1 text-xs text-muted-foreground mb-1">
+                    Graduation date
+                    <Tooltip content="The day you graduate or leave school. The grace period starts here." />
+                  </label>
+                  <input
+                    type="date"
+                    value={loan.graduationDate}
+                    onChange={(e) => {
+                      if (e.target.value) updateStudentLoan(loan.id, { graduationDate: e.target.value });
+                    }}
+                    className="w-full rounded-md border border-input bg-background px-1 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-ring"
+                  />
+                </div>
+                <div>
+                  <label className="flex items-center gap-1 text-xs text-muted-foreground mb-1">
+                    Grace (months)
+                    <Tooltip content="Months after graduation before repayment starts. Unpaid interest is added to the principal when repayment begins." />
+                  </label>
+                  <DebouncedNumberInput
+                    value={loan.gracePeriodMonths}
+                    onChange={(val) => updateStudentLoan(loan.id, { gracePeriodMonths: Math.round(val) })}
+                    min={0}
+                    max={36}
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs text-muted-foreground mb-1">
+                    Repayment (years)
+                  </label>
+                  <DebouncedNumberInput
+                    value={loan.repaymentYears}
+                    onChange={(val) => updateStudentLoan(loan.id, { repaymentYears: Math.round(val) })}
+                    min={1}
+                    max={30}
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <p className="text-xs font-medium text-muted-foreground uppercase tracking-wider">
+                    Disbursements
+                  </p>
+                  <button
+                    onClick={() => addLoanDisbursement(loan.id)}
+                    className="inline-flex items-center gap-1 rounded-md border px-2 py-0.5 text-xs hover:bg-accent transition-colors cursor-pointer"
+                  >
+                    <Plus className="w-3 h-3" />
+                    Add
+                  </button>
+                </div>
+                {loan.disbursements.map((d) => (
+                  <div key={d.id} className="flex items-center gap-2">
+                    <input
+                      type="date"
+                      value={d.date}
+                      onChange={(e) => {
+                        if (e.target.value) updateLoanDisbursement(loan.id, d.id, { date: e.target.value });
+                      }}
+                      className="flex-1 min-w-0 rounded-md border border-input bg-background px-1 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-ring"
+                    />
+                    <div className="w-24">
+                      <DebouncedNumberInput
+                        value={d.amount}
+                        onChange={(val) => updateLoanDisbursement(loan.id, d.id, { amount: val })}
+                        min={0}
+                        step="100"
+                      />
+                    </div>
+                    <button
+                      onClick={() => removeLoanDisbursement(loan.id, d.id)}
+                      className="p-1 rounded hover:bg-accent text-muted-foreground hover:text-foreground transition-colors cursor-pointer"
+                      title="Remove disbursement"
+                    >
+                      <X className="w-3.5 h-3.5" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+
+              <p className="text-xs text-muted-foreground">
+                {formatCurrency(principal)} borrowed · ≈ {formatCurrency(estimatedPayment)}/mo from{' '}
+                {formatDate(repaymentStart)}
+              </p>
+            </SortableItem>
+            );
+          })}
+        </SortableContext>
+      </DndContext>
+    </div>
+  );
+}
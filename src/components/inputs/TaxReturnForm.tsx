@@ -0,0 +1,176 @@
+import { getDayOfYear } from 'date-fns';
+import { useBudgetStore } from '@/store/budgetStore';
+import type { FilingStatus } from '@/engine/types';
+import { DEFAULT_TAX_RETURN, AOTC_MAX } from '@/engine/tax';
+import { useProjectionRange } from '@/hooks/useProjectionRange';
+import { DebouncedNumberInput } from './DebouncedNumberInput';
+import { Tooltip } from '@/components/Tooltip';
+
+export function TaxReturnForm() {
+  const storedTaxReturn = useBudgetStore((s) => s.taxReturn);
+  const updateTaxReturn = useBudgetStore((s) => s.updateTaxReturn);
+  const taxReturn = storedTaxReturn ?? DEFAULT_TAX_RETURN;
+
+  // Pay before a mid-year start isn't projected, so the first return needs it entered
+  const { start } = useProjectionRange();
+  const startYear = start.getFullYear();
+  const startsMidYear = getDayOfYear(start) !== 1;
+  const hasYearToDate = taxReturn.yearToDateWages !== undefined;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between pt-1">
+        <h3 className="text-sm font-semibold">Tax Return</h3>
+        <label className="inline-flex items-center gap-2 text-xs cursor-pointer">
+          <input
+            type="checkbox"
+            checked={taxReturn.enabled}
+            onChange={(e) => updateTaxReturn({ enabled: e.target.checked })}
+            className="rounded border-input cursor-pointer"
+          />
+          Enabled
+        </label>
+      </div>
+
+      {!taxReturn.enabled && (
+        <p className="text-sm text-muted-foreground italic">
+          Tax return estimate is disabled. Enable it to add a projected refund or balance due each year.
+        </p>
+      )}
+
+      <div className={!taxReturn.enabled ? 'opacity-50 pointer-events-none' : ''}>
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className="block text-xs text-muted-foreground mb-1">
+              Filing status
+            </label>
+            <select
+              value={taxReturn.filingStatus}
+              onChange={(e) => updateTaxReturn({ filingStatus: e.target.value as FilingStatus })}
+              className="w-full rounded-md border border-input bg-background px-3 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-ring"
+            >
+              <option value="single">Single</option>
+              <option value="married">Married</option>
+            </select>
+          </div>
+          <div>
+            <label className="flex items-center gap-1 text-xs text-muted-foreground mb-1">
+              State rate (%)
+              <Tooltip content="Flat state income tax rate applied to the year's wages." />
+            </label>
+            <DebouncedNumberInput
+              value={taxReturn.stateRate}
+              onChange={(val) => updateTaxReturn({ stateRate: val })}
+              min={0}
+              max={100}
+              step="0.1"
+            />
+          </div>
+          <div>
+            <label className="flex items-center gap-1 text-xs text-muted-foreground mb-1">
+              Filing month
+              <Tooltip content="Month the refund arrives or the balance due is paid, for the previous calendar year." />
+            </label>
+            <DebouncedNumberInput
+              value={taxReturn.filingMonth}
+              onChange={(val) => updateTaxReturn({ filingMonth: Math.round(val) })}
+              min={1}
+              max={12}
+            />
+          </div>
+          <div>
+            <label className="block text-xs text-muted-foreground mb-1">
+              Filing day
+            </label>
+            <DebouncedNumberInput
+              value={taxReturn.filingDay}
+              onChange={(val) => updateTaxReturn({ filingDay: Math.round(val) })}
+              min={1}
+              max={31}
+            />
+          </div>
+          <div>
+            <label className="flex items-center gap-1 text-xs text-muted-foreground mb-1">
+              AOTC ($/yr)
+              <Tooltip content="American Opportunity Tax Credit claimed each year (up to $2,500). 40% is refundable even if you owe no tax." />
+            </label>
+            <DebouncedNumberInput
+              value={taxReturn.aotcAmount}
+              onChange={(val) => updateTaxReturn({ aotcAmount: val })}
+              min={0}
+              max={AOTC_MAX}
+              step="100"
+            />
+          </div>
+          <div>
+            <label className="flex items-center gap-1 text-xs text-muted-foreground mb-1">
+              Other credits ($/yr)
+              <Tooltip content="Other nonrefundable education credits, such as the Lifetime Learning Credit." />
+            </label>
+            <DebouncedNumberInput
+              value={taxReturn.otherEducationCredits}
+              onChange={(val) => updateTaxReturn({ otherEducationCredits: val })}
+              min={0}
+              step="100"
+            />
+          </div>
+        </div>
+        {startsMidYear && (
+          <div className="mt-3 space-y-2">
+            <label className="inline-flex items-center gap-2 text-xs cursor-pointer">
+              <input
+                type="checkbox"
+                checked={hasYearToDate}
+                onChange={(e) =>
+                  updateTaxReturn(
+                    e.target.checked
+                      ? { yearToDateWages: 0, yearToDateWithheld: 0 }
+                      : { yearToDateWages: undefined, yearToDateWithheld: undefined }
+                  )
+                }
+                className="rounded border-input cursor-pointer"
+              />
+              Pay earlier in {startYear}
+              <Tooltip content={`The projection starts partway through ${startYear}. Enter what you were paid and withheld before then to estimate the ${startYear} return.`} />
+            </label>
+            {hasYearToDate ? (
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-xs text-muted-foreground mb-1">
+                    Taxable wages ($)
+                  </label>
+                  <DebouncedNumberInput
+                    value={taxReturn.yearToDateWages ?? 0}
+                    onChange={(val) => updateTaxReturn({ yearToDateWages: val })}
+                    min={0}
+                    step="100"
+                  />
+                </div>
+                <div>
+                  <label className="flex items-center gap-1 text-xs text-muted-foreground mb-1">
+                    Tax withheld ($)
+                    <Tooltip content="Federal and state income tax withheld from those wages, not Social Security or Medicare." />
+                  </label>
+                  <DebouncedNumberInput
+                    value={taxReturn.yearToDateWithheld ?? 0}
+                    onChange={(val) => updateTaxReturn({ yearToDateWithheld: val })}
+                    min={0}
+                    step="100"
+                  />
+                </div>
+              </div>
+            ) : (
+              <p className="text-xs text-amber-600">
+                No {startYear} return is estimated, since the paychecks before the projection starts aren't known.
+              </p>
+            )}
+          </div>
+        )}
+        <p className="text-xs text-muted-foreground mt-2">
+          Compares each year's estimated tax with what your paychecks withheld. Only paychecks inside the projection are counted,
+          plus any pay entered from earlier in the first year.
+        </p>
+      </div>
+    </div>
+  );
+}
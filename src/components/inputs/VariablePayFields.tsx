@@ -0,0 +1,87 @@
+import type { VariablePayConfig } from '@/engine/types';
+import { DEFAULT_VARIABLE_PAY } from '@/engine/income';
+import { DebouncedNumberInput } from './DebouncedNumberInput';
+import { Tooltip } from '@/components/Tooltip';
+
+interface VariablePayFieldsProps {
+  variablePay: VariablePayConfig | undefined;
+  onChange: (variablePay: VariablePayConfig) => void;
+}
+
+/**
+ * Average and range inputs for a variable income, laid out as cells of the
+ * income form's two-column grid.
+ */
+export function VariablePayFields({ variablePay, onChange }: VariablePayFieldsProps) {
+  const current = variablePay ?? DEFAULT_VARIABLE_PAY;
+  const update = (data: Partial<VariablePayConfig>) => onChange({ ...current, ...data });
+
+  return (
+    <>
+      <div>
+        <label className="flex items-center gap-1 text-xs text-muted-foreground mb-1">
+          Average ($)
+          <Tooltip content="Typical gross pay per paycheck, including tips. The main projection uses this amount." />
+        </label>
+        <DebouncedNumberInput
+          value={current.average}
+          onChange={(val) => update({ average: val })}
+          min={0}
+          step="25"
+        />
+      </div>
+      <div>
+        <label className="flex items-center gap-1 text-xs text-muted-foreground mb-1">
+          Range
+          <Tooltip content="How much a paycheck can vary: a low and high amount, or a standard deviation (low and high are one deviation either side of the average)." />
+        </label>
+        <select
+          value={current.rangeType}
+          onChange={(e) => update({ rangeType: e.target.value as VariablePayConfig['rangeType'] })}
+          className="w-full rounded-md border border-input bg-background px-3 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-ring"
+        >
+          <option value="range">Low / high</option>
+          <option value="stddev">Std. deviation</option>
+        </select>
+      </div>
+      {current.rangeType === 'range' ? (
+        <>
+          <div>
+            <label className="block text-xs text-muted-foreground mb-1">
+              Low ($)
+            </label>
+            <DebouncedNumberInput
+              value={current.low}
+              onChange={(val) => update({ low: val })}
+              min={0}
+              step="25"
+            />
+          </div>
+          <div>
+            <label className="block text-xs text-muted-foreground mb-1">
+              High ($)
+            </label>
+            <DebouncedNumberInput
+              value={current.high}
+              onChange={(val) => update({ high: val })}
+              min={0}
+              step="25"
+            />
+          </div>
+        </>
+      ) : (
+        <div>
+          <label className="block text-xs text-muted-foreground mb-1">
+            Std. deviation ($)
+          </label>
+          <DebouncedNumberInput
+            value={current.stdDev}
+            onChange={(val) => update({ stdDev: val })}
+            min={0}
+            step="25"
+          />
+        </div>
+      )}
+    </>
+  );
+}
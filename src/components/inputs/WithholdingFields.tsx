@@ -0,0 +1,133 @@
+import type { FilingStatus, WithholdingConfig } from '@/engine/types';
+import { DEFAULT_WITHHOLDING } from '@/engine/tax';
+import { DebouncedNumberInput } from './DebouncedNumberInput';
+import { Tooltip } from '@/components/Tooltip';
+
+interface WithholdingFieldsProps {
+  withholding: WithholdingConfig | undefined;
+  onChange: (withholding: WithholdingConfig) => void;
+  /** Flat income tax % withheld while detailed withholding is off */
+  flatRate: number | undefined;
+  onFlatRateChange: (rate: number) => void;
+}
+
+/**
+ * W-4 style payroll withholding inputs for a recurring income.
+ * While detailed withholding is off, only a flat income tax rate is shown.
+ */
+export function WithholdingFields({ withholding, onChange, flatRate, onFlatRateChange }: WithholdingFieldsProps) {
+  const current = withholding ?? { ...DEFAULT_WITHHOLDING, enabled: false };
+  const update = (data: Partial<WithholdingConfig>) => onChange({ ...current, ...data });
+
+  return (
+    <div className="space-y-2">
+      <label className="inline-flex items-center gap-2 text-xs cursor-pointer">
+        <input
+          type="checkbox"
+          checked={current.enabled}
+          onChange={(e) => update({ enabled: e.target.checked })}
+          className="rounded border-input cursor-pointer"
+        />
+        Estimate tax withholding
+        <Tooltip content="Deposit take-home pay instead of gross pay. Federal tax uses the IRS percentage method for your W-4; FICA is 7.65% unless you have the student exemption." />
+      </label>
+
+      {!current.enabled && (
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className="flex items-center gap-1 text-xs text-muted-foreground mb-1">
+              Tax withheld (%)
+              <Tooltip content="Flat share of gross pay withheld for income tax. Used for the yearly tax return estimate." />
+            </label>
+            <DebouncedNumberInput
+              value={flatRate ?? 0}
+              onChange={onFlatRateChange}
+              min={0}
+              max={100}
+              step="1"
+            />
+          </div>
+        </div>
+      )}
+
+      {current.enabled && (
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className="block text-xs text-muted-foreground mb-1">
+              Filing status
+            </label>
+            <select
+              value={current.filingStatus}
+              onChange={(e) => update({ filingStatus: e.target.value as FilingStatus })}
+              className="w-full rounded-md border border-input bg-background px-3 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-ring"
+            >
+              <option value="single">Single</option>
+              <option value="married">Married</option>
+            </select>
+          </div>
+          <div>
+            <label className="flex items-center gap-1 text-xs text-muted-foreground mb-1">
+              State rate (%)
+              <Tooltip content="Flat state income tax rate. Use 0 for states without income tax." />
+            </label>
+            <DebouncedNumberInput
+              value={current.stateRate}
+              onChange={(val) => update({ stateRate: val })}
+              min={0}
+              max={100}
+              step="0.1"
+            />
+          </div>
+          <div>
+            <label className="flex items-center gap-1 text-xs text-muted-foreground mb-1">
+              Pre-tax ($)
+              <Tooltip content="Deductions taken before income tax on each paycheck, such as retirement contributions or health premiums." />
+            </label>
+            <DebouncedNumberInput
+              value={current.preTaxDeductions}
+              onChange={(val) => update({ preTaxDeductions: val })}
+              min={0}
+              step="5"
+            />
+          </div>
+          <div>
+            <label className="flex items-center gap-1 text-xs text-muted-foreground mb-1">
+              Extra ($)
+              <Tooltip content="W-4 Step 4(c): extra federal withholding per paycheck." />
+            </label>
+            <DebouncedNumberInput
+              value={current.extraWithholding}
+              onChange={(val) => update({ extraWithholding: val })}
+              min={0}
+              step="5"
+            />
+          </div>
+          <div>
+            <label className="flex items-center gap-1 text-xs text-muted-foreground mb-1">
+              Dependents ($/yr)
+              <Tooltip content="W-4 Step 3: total annual credit claimed for dependents." />
+            </label>
+            <DebouncedNumberInput
+              value={current.dependentsCredit}
+              onChange={(val) => update({ dependentsCredit: val })}
+              min={0}
+              step="500"
+            />
+          </div>
+          <div className="flex items-end pb-1.5">
+            <label className="inline-flex items-center gap-2 text-xs cursor-pointer">
+              <input
+                type="checkbox"
+                checked={current.ficaExempt}
+                onChange={(e) => update({ ficaExempt: e.target.checked })}
+                className="rounded border-input cursor-pointer"
+              />
+              FICA exempt
+              <Tooltip content="Students working for their own college while enrolled at least half-time are usually exempt from Social Security and Medicare." />
+            </label>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,160 @@
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { useBudgetStore } from '@/store/budgetStore';
+import { useBudgetConfig } from '@/hooks/useBudgetConfig';
+import { useProjectionRange } from '@/hooks/useProjectionRange';
+import {
+  solveLoanAmount,
+  annualDatesInRange,
+  LOAN_DISBURSEMENT_LABEL,
+  type LoanSuggestion,
+} from '@/engine/solver';
+import { formatCurrency, formatDate } from '@/lib/utils';
+import { DebouncedNumberInput } from '@/components/inputs/DebouncedNumberInput';
+import { Tooltip } from '@/components/Tooltip';
+import { Plus } from 'lucide-react';
+
+/** Disbursements are rounded up to whole hundreds, like typical loan offers */
+const LOAN_ROUND_TO = 100;
+
+type DisbursementMode = 'lump' | 'semester';
+
+/** Next occurrence (on or after `from`) of a month/day, as an ISO date string */
+function nextMonthDay(month: number, day: number, from: Date): string {
+  const thisYear = new Date(from.getFullYear(), month - 1, day);
+  const next = format(thisYear, 'yyyy-MM-dd') >= format(from, 'yyyy-MM-dd')
+    ? thisYear
+    : new Date(from.getFullYear() + 1, month - 1, day);
+  return format(next, 'yyyy-MM-dd');
+}
+
+export function LoanSolver() {
+  const config = useBudgetConfig();
+  const addOneTimeIncomes = useBudgetStore((s) => s.addOneTimeIncomes);
+  const { start: projectionStart, minDate, maxDate } = useProjectionRange();
+
+  const [mode, setMode] = useState<DisbursementMode>('semester');
+  const [buffer, setBuffer] = useState(200);
+  const [fallStart, setFallStart] = useState(() => nextMonthDay(8, 20, projectionStart));
+  const [springStart, setSpringStart] = useState(() => nextMonthDay(1, 10, projectionStart));
+  // undefined = not calculated yet
+  const [result, setResult] = useState<LoanSuggestion | undefined>(undefined);
+
+  // Any change to the budget or solver inputs invalidates the previous suggestion
+  useEffect(() => {
+    setResult(undefined);
+  }, [config, mode, buffer, fallStart, springStart]);
+
+  const calculate = () => {
+    const anchors = [fallStart, springStart].filter(Boolean);
+    setResult(
+      solveLoanAmount(config, {
+        buffer,
+        roundTo: LOAN_ROUND_TO,
+        disbursementDates: mode === 'semester' ? annualDatesInRange(anchors, minDate, maxDate) : [],
+      })
+    );
+  };
+
+  const insert = () => {
+    if (!result) return;
+    addOneTimeIncomes(
+      result.disbursements.map((d) => ({
+        label: LOAN_DISBURSEMENT_LABEL,
+        amount: d.amount,
+        date: d.date,
+        enabled: true,
+      }))
+    );
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className="block text-xs text-muted-foreground mb-1">
+            Disbursement
+          </label>
+          <select
+            value={mode}
+            onChange={(e) => setMode(e.target.value as DisbursementMode)}
+            className="w-full rounded-md border border-input bg-background px-3 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-ring"
+          >
+            <option value="semester">Per semester</option>
+            <option value="lump">One lump sum</option>
+          </select>
+        </div>
+        <div>
+          <label className="flex items-center gap-1 text-xs text-muted-foreground mb-1">
+            Safety buffer ($)
+            <Tooltip content="The balance must stay at or above this amount on every day once the loan is added." />
+          </label>
+          <DebouncedNumberInput value={buffer} onChange={setBuffer} min={0} step="100" />
+        </div>
+        {mode === 'semester' && (
+          <>
+            <div>
+              <label className="flex items-center gap-1 text-xs text-muted-foreground mb-1">
+                Fall start
+                <Tooltip content="Disbursement date for the fall semester. It repeats every year of the projection." />
+              </label>
+              <input
+                type="date"
+                value={fallStart}
+                onChange={(e) => setFallStart(e.target.value)}
+                className="w-full rounded-md border border-input bg-background px-1 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-ring"
+              />
+            </div>
+            <div>
+              <label className="flex items-center gap-1 text-xs text-muted-foreground mb-1">
+                Spring start
+                <Tooltip content="Disbursement date for the spring semester. It repeats every year of the projection." />
+              </label>
+              <input
+                type="date"
+                value={springStart}
+                onChange={(e) => setSpringStart(e.target.value)}
+                className="w-full rounded-md border border-input bg-background px-1 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-ring"
+              />
+            </div>
+          </>
+        )}
+      </div>
+
+      <button
+        onClick={calculate}
+        className="w-full rounded-md border px-3 py-1.5 text-xs font-medium hover:bg-accent hover:shadow-sm active:scale-95 transition-all cursor-pointer"
+      >
+        Find loan amount
+      </button>
+
+      {result && result.disbursements.length === 0 && (
+        <p className="text-xs text-green-700">
+          No loan needed — your balance stays above {formatCurrency(buffer)}.
+        </p>
+      )}
+
+      {result && result.disbursements.length > 0 && (
+        <div className="rounded-md bg-muted/50 p-3 space-y-2">
+          <ul className="text-xs space-y-0.5">
+            {result.disbursements.map((d) => (
+              <li key={d.date}>
+                <strong>{formatCurrency(d.amount)}</strong> on {formatDate(new Date(d.date + 'T00:00:00'))}
+              </li>
+            ))}
+          </ul>
+          <p className="text-xs text-muted-foreground">
+            Total: {formatCurrency(result.total)} · Lowest balance: {formatCurrency(result.lowestBalance)}
+          </p>
+          <button
+            onClick={insert}
+            className="inline-flex items-center gap-1 rounded-md bg-primary px-3 py-1.5 text-xs font-medium text-primary-foreground hover:bg-primary/80 hover:shadow-sm active:scale-95 transition-all cursor-pointer"
+          >
+            <Plus className="w-3 h-3" />
+            Add as one-time income
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,144 @@
+import { useEffect, useState } from 'react';
+import { useBudgetStore } from '@/store/budgetStore';
+import { useBudgetConfig } from '@/hooks/useBudgetConfig';
+import { isHourly } from '@/engine/income';
+import {
+  MAX_HOURS_PER_WEEK,
+  MAX_HOURS_SCALE,
+  hasAdjustableHours,
+  solveMinimumHours,
+  solveMinimumHoursScale,
+  type HoursSuggestion,
+} from '@/engine/solver';
+import { formatCurrency } from '@/lib/utils';
+import { DebouncedNumberInput } from '@/components/inputs/DebouncedNumberInput';
+import { Tooltip } from '@/components/Tooltip';
+import { Check } from 'lucide-react';
+
+/** Special target value: scale every enabled income's hours together */
+const SCALE_ALL = '__all__';
+
+export function MinimumHoursSolver() {
+  const config = useBudgetConfig();
+  const setRecurringIncomeHours = useBudgetStore((s) => s.setRecurringIncomeHours);
+
+  // Salaried incomes have no hours to adjust, and an hours schedule overrides an income's hours
+  const hourlyIncomes = config.recurringIncomes.filter((i) => i.enabled !== false && isHourly(i));
+  const enabledIncomes = hourlyIncomes.filter(hasAdjustableHours);
+  const scheduledIncomes = hourlyIncomes.filter((i) => !hasAdjustableHours(i));
+
+  const [target, setTarget] = useState<string>(SCALE_ALL);
+  const [floor, setFloor] = useState(0);
+  // undefined = not calculated yet, null = no feasible suggestion
+  const [result, setResult] = useState<HoursSuggestion | null | undefined>(undefined);
+
+  // Fall back to scaling all incomes if the selected income disappears
+  const activeTarget =
+    target !== SCALE_ALL && !enabledIncomes.some((i) => i.id === target) ? SCALE_ALL : target;
+
+  // Any change to the budget or solver inputs invalidates the previous suggestion
+  useEffect(() => {
+    setResult(undefined);
+  }, [config, activeTarget, floor]);
+
+  const calculate = () => {
+    setResult(
+      activeTarget === SCALE_ALL
+        ? solveMinimumHoursScale(config, floor)
+        : solveMinimumHours(config, activeTarget, floor)
+    );
+  };
+
+  const apply = () => {
+    if (!result) return;
+    setRecurringIncomeHours(result.hours);
+  };
+
+  if (enabledIncomes.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground italic">
+        {scheduledIncomes.length > 0
+          ? 'Every enabled hourly income follows an hours schedule. Add one without a schedule to calculate minimum hours.'
+          : 'Add an enabled hourly recurring income to calculate minimum hours.'}
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className="block text-xs text-muted-foreground mb-1">
+            Adjust
+          </label>
+          <select
+            value={activeTarget}
+            onChange={(e) => setTarget(e.target.value)}
+            className="w-full rounded-md border border-input bg-background px-3 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-ring"
+          >
+            <option value={SCALE_ALL}>All incomes</option>
+            {enabledIncomes.map((income) => (
+              <option key={income.id} value={income.id}>
+                {income.label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="flex items-center gap-1 text-xs text-muted-foreground mb-1">
+            Keep above ($)
+            <Tooltip content="The balance must stay at or above this amount on every day of the projection." />
+          </label>
+          <DebouncedNumberInput value={floor} onChange={setFloor} step="100" />
+        </div>
+      </div>
+
+      {scheduledIncomes.length > 0 && (
+        <p className="text-xs text-muted-foreground">
+          Left out because their hours schedule sets their hours: {scheduledIncomes.map((i) => i.label).join(', ')}.
+        </p>
+      )}
+
+      <button
+        onClick={calculate}
+        className="w-full rounded-md border px-3 py-1.5 text-xs font-medium hover:bg-accent hover:shadow-sm active:scale-95 transition-all cursor-pointer"
+      >
+        Find minimum hours
+      </button>
+
+      {result === null && (
+        <p className="text-xs text-red-600">
+          {activeTarget === SCALE_ALL
+            ? `Raising every job's hours, up to ${MAX_HOURS_SCALE}× their current hours and ${MAX_HOURS_PER_WEEK} hours/week each, doesn't keep the balance above ${formatCurrency(floor)}.`
+            : `No schedule up to ${MAX_HOURS_PER_WEEK} hours/week keeps the balance above ${formatCurrency(floor)}.`}
+        </p>
+      )}
+
+      {result && (
+        <div className="rounded-md bg-muted/50 p-3 space-y-2">
+          <ul className="text-xs space-y-0.5">
+            {config.recurringIncomes
+              .filter((income) => income.id in result.hours)
+              .map((income) => (
+                <li key={income.id}>
+                  <strong>{income.label}</strong>: {result.hours[income.id]} hrs/week
+                  <span className="text-muted-foreground"> (now {income.hoursPerWeek})</span>
+                </li>
+              ))}
+          </ul>
+          <p className="text-xs text-muted-foreground">
+            {result.scale !== undefined && <>{Math.round(result.scale * 100)}% of current hours · </>}
+            Lowest balance: {formatCurrency(result.lowestBalance)}
+          </p>
+          <button
+            onClick={apply}
+            className="inline-flex items-center gap-1 rounded-md bg-primary px-3 py-1.5 text-xs font-medium text-primary-foreground hover:bg-primary/80 hover:shadow-sm active:scale-95 transition-all cursor-pointer"
+          >
+            <Check className="w-3 h-3" />
+            Apply
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
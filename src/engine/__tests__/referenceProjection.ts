@@ -0,0 +1,211 @@
+import { addDays, differenceInCalendarDays, isWeekend, format } from 'date-fns';
+import type { BudgetConfig, DailySnapshot, DailyEvent, PaycheckBreakdown } from '../types';
+import {
+  earningsDetail,
+  filingDate,
+  projectionRange,
+  scaleEarnings,
+  type ProjectionOptions,
+  type TaxYearTotals,
+} from '../projection';
+import { simulateLoan } from '../loans';
+import { scheduledDueDatesFor } from '../expenses';
+import {
+  isPartialPayday,
+  isVariable,
+  partialPaycheckEarnings,
+  paycheckEarnings,
+  payPeriodsPerYear,
+  scheduledPaydays,
+  totalEarnings,
+} from '../income';
+import { createHolidayCalendar } from '../holidays';
+import { withholdPaycheck, estimateAnnualTax, yearToDateTotals } from '../tax';
+
+/**
+ * The original day-by-day projection: every income and expense rule is
+ * checked on every day. Kept as a reference for `runProjection`, which must
+ * give identical snapshots; used by tests and benchmarks only.
+ */
+export function runReferenceProjection(config: BudgetConfig, options: ProjectionOptions = {}): DailySnapshot[] {
+  const scenario = options.incomeScenario ?? 'expected';
+  const sampler = options.sampler;
+  const { start: today, end: endDate } = projectionRange(config);
+  const totalDays = differenceInCalendarDays(endDate, today);
+
+  const loanSchedules = (config.studentLoans ?? [])
+    .filter((loan) => loan.enabled !== false)
+    .map((loan) => simulateLoan(loan, today, endDate));
+
+  const holidays = createHolidayCalendar(config.holidays);
+
+  const taxReturn = config.taxReturn?.enabled ? config.taxReturn : null;
+  const taxYears = new Map<number, TaxYearTotals>();
+  // Pay before the start isn't projected, so a year already under way starts
+  // from the pay so far entered, or has no return without it
+  const firstYearTotals = taxReturn && yearToDateTotals(today, taxReturn);
+  if (firstYearTotals) taxYears.set(today.getFullYear(), firstYearTotals);
+  const partialYear = taxReturn && !firstYearTotals ? today.getFullYear() : null;
+  const recordPay = (year: number, pay: PaycheckBreakdown) => {
+    const totals = taxYears.get(year) ?? { wages: 0, withheld: 0 };
+    totals.wages += pay.gross - pay.preTax;
+    totals.withheld += pay.federal + pay.state;
+    taxYears.set(year, totals);
+  };
+
+  const snapshots: DailySnapshot[] = [];
+  let balance = config.initialBalance;
+
+  for (let i = 0; i <= totalDays; i++) {
+    const date = addDays(today, i);
+    const dateStr = format(date, 'yyyy-MM-dd');
+    const weekend = isWeekend(date);
+
+    let incomeToday = 0;
+    let expensesToday = 0;
+    const events: DailyEvent[] = [];
+
+    // Every projected year gets a return, even without wages (refundable credits)
+    if (taxReturn && !taxYears.has(date.getFullYear())) {
+      taxYears.set(date.getFullYear(), { wages: 0, withheld: 0 });
+    }
+
+    // ── Food budget ──
+    if (config.foodBudget.enabled) {
+      const food = weekend
+        ? config.foodBudget.weekendDailyTotal
+        : config.foodBudget.weekdayBreakfast +
+          config.foodBudget.weekdayLunch +
+          config.foodBudget.weekdayDinner +
+          config.foodBudget.weekdaySnacks;
+      expensesToday += sampler ? food * sampler.food(date) : food;
+    }
+
+    // ── Transport costs ──
+    if (config.transportConfig.enabled) {
+      if (config.transportConfig.autoEnabled && config.transportConfig.autoMpg > 0) {
+        const miles = weekend
+          ? config.transportConfig.autoWeekendMiles
+          : config.transportConfig.autoWeekdayMiles;
+        const gallons = miles / config.transportConfig.autoMpg;
+        const fuelPrice = config.transportConfig.autoFuelCostPerGallon;
+        expensesToday += gallons * (sampler ? fuelPrice * sampler.fuelPrice(date) : fuelPrice);
+      }
+      if (config.transportConfig.publicEnabled) {
+        // Spread weekly cost evenly across 7 days
+        expensesToday += config.transportConfig.publicWeeklyCost / 7;
+      }
+    }
+
+    // ── Recurring income ──
+    for (const income of config.recurringIncomes) {
+      if (income.enabled === false) continue;
+      const periods = payPeriodsPerYear(income.frequency);
+      // Simulated runs draw each variable paycheck separately
+      const payFactor = () => (sampler && isVariable(income) ? sampler.variablePay(income) : 1);
+      for (const payday of scheduledPaydays(date, income, holidays)) {
+        const earnings = scaleEarnings(paycheckEarnings(income, payday, scenario), payFactor());
+        const pay = withholdPaycheck(totalEarnings(earnings), periods, income.withholding, income.taxWithholdingRate);
+        incomeToday += pay.net;
+        recordPay(date.getFullYear(), pay);
+        const detail = earningsDetail(earnings);
+        events.push({
+          label: `${income.label} paycheck`,
+          amount: pay.net,
+          type: 'income',
+          ...(pay.net !== pay.gross && { breakdown: pay }),
+          ...(detail && { earnings: detail }),
+        });
+      }
+      // Emit a pro-rated partial paycheck on the end date if not a regular payday
+      if (isPartialPayday(date, income, holidays)) {
+        const earnings = scaleEarnings(partialPaycheckEarnings(income, scenario), payFactor());
+        const gross = totalEarnings(earnings);
+        if (gross > 0) {
+          const pay = withholdPaycheck(Math.round(gross * 100) / 100, periods, income.withholding, income.taxWithholdingRate);
+          incomeToday += pay.net;
+          recordPay(date.getFullYear(), pay);
+          const detail = earningsDetail(earnings);
+          events.push({
+            label: `${income.label} paycheck (partial)`,
+            amount: pay.net,
+            type: 'income',
+            ...(pay.net !== pay.gross && { breakdown: pay }),
+            ...(detail && { earnings: detail }),
+          });
+        }
+      }
+    }
+
+    // ── One-time income ──
+    for (const oti of config.oneTimeIncomes) {
+      if (oti.enabled === false) continue;
+      if (oti.date === dateStr) {
+        incomeToday += oti.amount;
+        events.push({ label: oti.label, amount: oti.amount, type: 'income', isOneTime: true });
+      }
+    }
+
+    // ── Recurring expenses ──
+    for (const expense of config.recurringExpenses) {
+      if (expense.enabled === false) continue;
+      // One charge per due date, even when several move onto today
+      const charges = scheduledDueDatesFor(date, expense, holidays).length;
+      for (let n = 0; n < charges; n++) {
+        expensesToday += expense.amount;
+        events.push({ label: expense.label, amount: expense.amount, type: 'expense' });
+      }
+    }
+
+    // ── One-time expenses ──
+    for (const ote of config.oneTimeExpenses) {
+      if (ote.enabled === false) continue;
+      if (ote.date === dateStr) {
+        expensesToday += ote.amount;
+        events.push({ label: ote.label, amount: ote.amount, type: 'expense', isOneTime: true });
+      }
+    }
+
+    // ── Tax return for last year's projected paychecks ──
+    if (taxReturn) {
+      const taxYear = date.getFullYear() - 1;
+      const totals = taxYears.get(taxYear);
+      if (totals && taxYear !== partialYear && dateStr === filingDate(taxYear, taxReturn)) {
+        const { federal, state } = estimateAnnualTax(totals.wages, taxReturn);
+        const refund = Math.round((totals.withheld - federal - state) * 100) / 100;
+        if (refund > 0) {
+          incomeToday += refund;
+          events.push({ label: `Tax refund (${taxYear})`, amount: refund, type: 'income', isOneTime: true });
+        } else if (refund < 0) {
+          expensesToday += -refund;
+          events.push({ label: `Tax payment (${taxYear})`, amount: -refund, type: 'expense', isOneTime: true });
+        }
+      }
+    }
+
+    // ── Student loans ──
+    let liabilities = 0;
+    for (const schedule of loanSchedules) {
+      liabilities += schedule.owed[i] ?? 0;
+      const activity = schedule.activity.get(dateStr);
+      if (activity) {
+        incomeToday += activity.income;
+        expensesToday += activity.expense;
+        events.push(...activity.events);
+      }
+    }
+
+    balance = balance + incomeToday - expensesToday;
+
+    snapshots.push({
+      date: dateStr,
+      balance: Math.round(balance * 100) / 100,
+      incomeToday: Math.round(incomeToday * 100) / 100,
+      expensesToday: Math.round(expensesToday * 100) / 100,
+      liabilities: Math.round(liabilities * 100) / 100,
+      events,
+    });
+  }
+
+  return snapshots;
+}
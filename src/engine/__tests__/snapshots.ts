@@ -0,0 +1,22 @@
+import type { DailySnapshot } from '../types';
+
+// Daily snapshots for tests of code that reads a projection
+
+/** A day with no income, expenses or loans unless given */
+export function day(date: string, balance: number, extra: Partial<DailySnapshot> = {}): DailySnapshot {
+  return { date, balance, incomeToday: 0, expensesToday: 0, liabilities: 0, events: [], ...extra };
+}
+
+/** Three days that dip below zero, with a comma and quotes in one label and a loan on the last day */
+export const SAMPLE_SNAPSHOTS: DailySnapshot[] = [
+  day('2025-03-01', 100, { expensesToday: 50, events: [{ label: 'Rent, "studio"', amount: 50, type: 'expense' }] }),
+  day('2025-03-02', -20, { expensesToday: 120, events: [{ label: 'Books', amount: 120, type: 'expense' }] }),
+  day('2025-03-03', 580, {
+    incomeToday: 600,
+    events: [
+      { label: 'Paycheck', amount: 600, type: 'income' },
+      { label: 'Loan interest', amount: 1.5, type: 'liability' },
+    ],
+    liabilities: 1001.5,
+  }),
+];
@@ -0,0 +1,267 @@
+import { addDays, format } from 'date-fns';
+import type {
+  BudgetConfig,
+  BusinessDayAdjustment,
+  MonthDayRule,
+  PayFrequency,
+  PayType,
+  RecurrenceUnit,
+  RecurringExpense,
+  RecurringIncome,
+} from '../types';
+import { createRandom, type Random } from '../random';
+
+// Budgets for tests and benchmarks of the projection engine: small ones
+// built by hand, and randomly generated ones
+
+/** A budget with no items, and food, transport and holidays turned off */
+export function emptyBudget(overrides: Partial<BudgetConfig> = {}): BudgetConfig {
+  return {
+    initialBalance: 0,
+    projectionMonths: 12,
+    recurringIncomes: [],
+    oneTimeIncomes: [],
+    recurringExpenses: [],
+    oneTimeExpenses: [],
+    foodBudget: {
+      enabled: false,
+      weekdayBreakfast: 0,
+      weekdayLunch: 0,
+      weekdayDinner: 0,
+      weekdaySnacks: 0,
+      weekendDailyTotal: 0,
+    },
+    transportConfig: {
+      enabled: false,
+      autoEnabled: false,
+      autoWeekdayMiles: 0,
+      autoWeekendMiles: 0,
+      autoMpg: 30,
+      autoFuelCostPerGallon: 3,
+      publicEnabled: false,
+      publicWeeklyCost: 0,
+    },
+    holidays: { useFederalHolidays: false, custom: [] },
+    ...overrides,
+  };
+}
+
+/** A biweekly job of 20 hours a week at $15 */
+export function hourly(id: string, startDate: string, extra: Partial<RecurringIncome> = {}): RecurringIncome {
+  return { id, label: id, hoursPerWeek: 20, hourlyRate: 15, frequency: 'biweekly', startDate, ...extra };
+}
+
+/** Monthly salary of `salaryAmount` per paycheck */
+export function salary(
+  id: string,
+  startDate: string,
+  salaryAmount: number,
+  extra: Partial<RecurringIncome> = {}
+): RecurringIncome {
+  return {
+    id,
+    label: id,
+    hoursPerWeek: 0,
+    hourlyRate: 0,
+    frequency: 'monthly',
+    payType: 'salary',
+    salaryAmount,
+    startDate,
+    ...extra,
+  };
+}
+
+export function expense(
+  id: string,
+  amount: number,
+  recurrence: RecurringExpense['recurrence'],
+  extra: Partial<RecurringExpense> = {}
+): RecurringExpense {
+  return { id, label: id, amount, recurrence, ...extra };
+}
+
+const FREQUENCIES: PayFrequency[] = ['weekly', 'biweekly', 'semimonthly', 'monthly'];
+const PAY_TYPES: PayType[] = ['hourly', 'salary', 'variable'];
+const UNITS: RecurrenceUnit[] = ['day', 'week', 'month', 'year'];
+const ADJUSTMENTS: BusinessDayAdjustment[] = ['none', 'previous', 'next'];
+const DAY_RULES: MonthDayRule[] = [1, 15, 29, 30, 31, 'last', 'last-business'];
+
+function pick<T>(random: Random, values: readonly T[]): T {
+  return values[Math.floor(random() * values.length)]!;
+}
+
+function between(random: Random, min: number, max: number): number {
+  return Math.round((min + (max - min) * random()) * 100) / 100;
+}
+
+/** ISO date a random number of days from `today`, within [minDays, maxDays] */
+function dateNear(random: Random, today: Date, minDays: number, maxDays: number): string {
+  return format(addDays(today, Math.round(minDays + (maxDays - minDays) * random())), 'yyyy-MM-dd');
+}
+
+function randomIncome(random: Random, today: Date, index: number): RecurringIncome {
+  const payType = pick(random, PAY_TYPES);
+  const frequency = pick(random, FREQUENCIES);
+  const income: RecurringIncome = {
+    id: `income-${index}`,
+    label: `Income ${index}`,
+    hoursPerWeek: between(random, 5, 45),
+    hourlyRate: between(random, 10, 30),
+    frequency,
+    payType,
+    startDate: dateNear(random, today, -60, 60),
+    businessDayAdjustment: pick(random, ADJUSTMENTS),
+  };
+  if (frequency === 'semimonthly' && random() < 0.5) {
+    income.semimonthlyDays = [pick(random, DAY_RULES), pick(random, DAY_RULES)];
+  }
+  if (random() < 0.4) income.endDate = dateNear(random, today, 30, 600);
+  if (payType === 'salary') income.salaryAmount = between(random, 500, 3000);
+  if (payType === 'variable') {
+    const average = between(random, 200, 1200);
+    income.variablePay = {
+      average,
+      rangeType: random() < 0.5 ? 'range' : 'stddev',
+      low: average * 0.6,
+      high: average * 1.5,
+      stdDev: average * 0.2,
+    };
+  }
+  if (payType === 'hourly' && random() < 0.3) {
+    income.hoursSchedule = [
+      {
+        id: `segment-${index}`,
+        startDate: dateNear(random, today, 0, 120),
+        endDate: dateNear(random, today, 121, 240),
+        hoursPerWeek: between(random, 20, 50),
+      },
+    ];
+  }
+  if (payType === 'hourly' && random() < 0.3) {
+    income.overtime = {
+      enabled: true,
+      thresholdHours: 40,
+      multiplier: 1.5,
+      differentialHours: between(random, 0, 10),
+      differentialRate: between(random, 0, 3),
+    };
+  }
+  if (payType !== 'variable' && random() < 0.3) {
+    income.rateChanges = [
+      { id: `raise-${index}`, date: dateNear(random, today, 30, 400), kind: 'percent', value: between(random, 1, 8) },
+    ];
+  }
+  if (random() < 0.3) {
+    income.withholding = {
+      enabled: true,
+      filingStatus: random() < 0.5 ? 'single' : 'married',
+      dependentsCredit: 0,
+      extraWithholding: between(random, 0, 20),
+      ficaExempt: random() < 0.5,
+      stateRate: between(random, 0, 6),
+      preTaxDeductions: between(random, 0, 50),
+    };
+  } else if (random() < 0.3) {
+    income.taxWithholdingRate = between(random, 5, 20);
+  }
+  if (random() < 0.1) income.enabled = false;
+  return income;
+}
+
+function randomExpense(random: Random, today: Date, index: number): RecurringExpense {
+  const unit = pick(random, UNITS);
+  const expense: RecurringExpense = {
+    id: `expense-${index}`,
+    label: `Expense ${index}`,
+    amount: between(random, 5, 800),
+    recurrence: {
+      interval: unit === 'day' ? 1 + Math.floor(random() * 14) : 1 + Math.floor(random() * 3),
+      unit,
+      anchorDate: dateNear(random, today, -400, 60),
+      ...(unit === 'month' && random() < 0.5 && { dayRule: pick(random, DAY_RULES) }),
+    },
+    businessDayAdjustment: pick(random, ADJUSTMENTS),
+  };
+  if (random() < 0.3) expense.startDate = dateNear(random, today, 0, 200);
+  if (random() < 0.3) expense.endDate = dateNear(random, today, 100, 700);
+  if (random() < 0.1) expense.enabled = false;
+  return expense;
+}
+
+/**
+ * A random budget with `itemCount` of each kind of income and expense,
+ * projected over `months`. The same seed always gives the same budget.
+ */
+export function randomBudget(seed: number, itemCount: number, months: number, today: Date = new Date()): BudgetConfig {
+  const random = createRandom(seed);
+  const indices = Array.from({ length: itemCount }, (_, i) => i);
+
+  return {
+    initialBalance: between(random, 0, 5000),
+    projectionMonths: months,
+    recurringIncomes: indices.map((i) => randomIncome(random, today, i)),
+    oneTimeIncomes: indices.map((i) => ({
+      id: `one-time-income-${i}`,
+      label: `One-time income ${i}`,
+      amount: between(random, 50, 3000),
+      date: dateNear(random, today, -10, months * 31),
+    })),
+    recurringExpenses: indices.map((i) => randomExpense(random, today, i)),
+    oneTimeExpenses: indices.map((i) => ({
+      id: `one-time-expense-${i}`,
+      label: `One-time expense ${i}`,
+      amount: between(random, 20, 2000),
+      date: dateNear(random, today, -10, months * 31),
+    })),
+    foodBudget: {
+      enabled: random() < 0.8,
+      weekdayBreakfast: between(random, 0, 6),
+      weekdayLunch: between(random, 0, 12),
+      weekdayDinner: between(random, 0, 18),
+      weekdaySnacks: between(random, 0, 4),
+      weekendDailyTotal: between(random, 10, 50),
+    },
+    transportConfig: {
+      enabled: random() < 0.8,
+      autoEnabled: random() < 0.6,
+      autoWeekdayMiles: between(random, 0, 40),
+      autoWeekendMiles: between(random, 0, 60),
+      autoMpg: between(random, 15, 45),
+      autoFuelCostPerGallon: between(random, 2.5, 5),
+      publicEnabled: random() < 0.4,
+      publicWeeklyCost: between(random, 10, 40),
+    },
+    studentLoans: [
+      {
+        id: 'loan',
+        label: 'Direct Loan',
+        interestType: random() < 0.5 ? 'subsidized' : 'unsubsidized',
+        interestRate: between(random, 4, 8),
+        originationFeePercent: 1.057,
+        disbursements: [
+          { id: 'fall', date: dateNear(random, today, 0, 60), amount: between(random, 1000, 3500) },
+          { id: 'spring', date: dateNear(random, today, 120, 200), amount: between(random, 1000, 3500) },
+        ],
+        graduationDate: dateNear(random, today, 200, 500),
+        gracePeriodMonths: 6,
+        repaymentYears: 10,
+      },
+    ],
+    taxReturn: {
+      enabled: random() < 0.7,
+      filingStatus: 'single',
+      stateRate: between(random, 0, 6),
+      filingMonth: 1 + Math.floor(random() * 12),
+      filingDay: 1 + Math.floor(random() * 31),
+      aotcAmount: between(random, 0, 2500),
+      otherEducationCredits: 0,
+    },
+    holidays: {
+      useFederalHolidays: random() < 0.8,
+      custom: [
+        { id: 'closure', label: 'Winter closure', date: dateNear(random, today, 0, 365) },
+        { id: 'closure-2', label: 'Winter closure', date: dateNear(random, today, 0, 365) },
+      ],
+    },
+  };
+}
@@ -0,0 +1,147 @@
+import { describe, expect, it } from 'vitest';
+import { format } from 'date-fns';
+import { describeMonthDay, matchesMonthDay, resolveMonthDay } from './dateRules';
+import { occurrencesBetween, occursOn, withAnchorDate, withDayRule } from './recurrence';
+import type { Recurrence } from './types';
+
+const iso = (date: Date) => format(date, 'yyyy-MM-dd');
+
+describe('resolveMonthDay', () => {
+  it('keeps day numbers that exist in the month', () => {
+    expect(iso(resolveMonthDay(2025, 0, 1))).toBe('2025-01-01');
+    expect(iso(resolveMonthDay(2025, 0, 31))).toBe('2025-01-31');
+    expect(iso(resolveMonthDay(2025, 2, 30))).toBe('2025-03-30');
+  });
+
+  it('rolls 29-31 back to the end of short months', () => {
+    expect(iso(resolveMonthDay(2025, 3, 31))).toBe('2025-04-30');
+    expect(iso(resolveMonthDay(2025, 1, 29))).toBe('2025-02-28');
+    expect(iso(resolveMonthDay(2025, 1, 30))).toBe('2025-02-28');
+    expect(iso(resolveMonthDay(2025, 1, 31))).toBe('2025-02-28');
+  });
+
+  it('follows the leap year rules for February', () => {
+    expect(iso(resolveMonthDay(2024, 1, 31))).toBe('2024-02-29');
+    expect(iso(resolveMonthDay(2024, 1, 29))).toBe('2024-02-29');
+    // Divisible by 100 but not 400: not a leap year
+    expect(iso(resolveMonthDay(1900, 1, 31))).toBe('1900-02-28');
+    expect(iso(resolveMonthDay(2100, 1, 29))).toBe('2100-02-28');
+    // Divisible by 400: leap year
+    expect(iso(resolveMonthDay(2000, 1, 31))).toBe('2000-02-29');
+  });
+
+  it('resolves the last day of the month', () => {
+    expect(iso(resolveMonthDay(2024, 1, 'last'))).toBe('2024-02-29');
+    expect(iso(resolveMonthDay(2025, 1, 'last'))).toBe('2025-02-28');
+    expect(iso(resolveMonthDay(2025, 5, 'last'))).toBe('2025-06-30');
+    expect(iso(resolveMonthDay(2025, 11, 'last'))).toBe('2025-12-31');
+  });
+
+  it('resolves the last business day, skipping weekends', () => {
+    // Fri Feb 28, 2025
+    expect(iso(resolveMonthDay(2025, 1, 'last-business'))).toBe('2025-02-28');
+    // Sun Aug 31, 2025 -> Fri Aug 29
+    expect(iso(resolveMonthDay(2025, 7, 'last-business'))).toBe('2025-08-29');
+    // Sat May 31, 2025 -> Fri May 30
+    expect(iso(resolveMonthDay(2025, 4, 'last-business'))).toBe('2025-05-30');
+    // Sat Feb 29, 2020 -> Fri Feb 28
+    expect(iso(resolveMonthDay(2020, 1, 'last-business'))).toBe('2020-02-28');
+    // Thu Feb 29, 2024
+    expect(iso(resolveMonthDay(2024, 1, 'last-business'))).toBe('2024-02-29');
+  });
+});
+
+describe('matchesMonthDay', () => {
+  it('matches only the resolved day', () => {
+    expect(matchesMonthDay(new Date(2025, 1, 28), 31)).toBe(true);
+    expect(matchesMonthDay(new Date(2024, 1, 28), 31)).toBe(false);
+    expect(matchesMonthDay(new Date(2024, 1, 29), 'last')).toBe(true);
+    expect(matchesMonthDay(new Date(2025, 7, 31), 'last-business')).toBe(false);
+    expect(matchesMonthDay(new Date(2025, 7, 29), 'last-business')).toBe(true);
+  });
+});
+
+describe('describeMonthDay', () => {
+  it('labels day numbers with ordinals', () => {
+    expect(describeMonthDay(1)).toBe('1st');
+    expect(describeMonthDay(2)).toBe('2nd');
+    expect(describeMonthDay(3)).toBe('3rd');
+    expect(describeMonthDay(11)).toBe('11th');
+    expect(describeMonthDay(22)).toBe('22nd');
+    expect(describeMonthDay(31)).toBe('31st');
+    expect(describeMonthDay('last')).toBe('Last day');
+    expect(describeMonthDay('last-business')).toBe('Last business day');
+  });
+});
+
+describe('monthly recurrences with day rules', () => {
+  const between = (recurrence: Recurrence, start: string, end: string) =>
+    occurrencesBetween(recurrence, new Date(`${start}T00:00:00`), new Date(`${end}T00:00:00`)).map(iso);
+
+  it('charges a 31st bill on the last day of shorter months', () => {
+    const rent: Recurrence = { interval: 1, unit: 'month', anchorDate: '2024-01-31' };
+    expect(between(rent, '2024-01-01', '2024-05-31')).toEqual([
+      '2024-01-31',
+      '2024-02-29',
+      '2024-03-31',
+      '2024-04-30',
+      '2024-05-31',
+    ]);
+    expect(between(rent, '2025-02-01', '2025-03-01')).toEqual(['2025-02-28']);
+  });
+
+  it('keeps a 30th bill on the 30th after February', () => {
+    const bill: Recurrence = { interval: 1, unit: 'month', anchorDate: '2025-01-30', dayRule: 30 };
+    expect(between(bill, '2025-01-01', '2025-04-30')).toEqual([
+      '2025-01-30',
+      '2025-02-28',
+      '2025-03-30',
+      '2025-04-30',
+    ]);
+  });
+
+  it('supports last and last business day rules', () => {
+    const last: Recurrence = { interval: 1, unit: 'month', anchorDate: '2024-01-31', dayRule: 'last' };
+    expect(between(last, '2024-02-01', '2024-04-30')).toEqual(['2024-02-29', '2024-03-31', '2024-04-30']);
+
+    const business: Recurrence = { interval: 1, unit: 'month', anchorDate: '2025-07-31', dayRule: 'last-business' };
+    expect(between(business, '2025-07-01', '2025-09-30')).toEqual(['2025-07-31', '2025-08-29', '2025-09-30']);
+    expect(occursOn(new Date(2025, 7, 31), business)).toBe(false);
+  });
+
+  it('rolls a February 29th yearly charge to the 28th in common years', () => {
+    const annual: Recurrence = { interval: 1, unit: 'year', anchorDate: '2024-02-29' };
+    expect(between(annual, '2023-01-01', '2028-12-31')).toEqual([
+      '2023-02-28',
+      '2024-02-29',
+      '2025-02-28',
+      '2026-02-28',
+      '2027-02-28',
+      '2028-02-29',
+    ]);
+  });
+
+  it('keeps the rule when stepping several months at a time', () => {
+    const insurance: Recurrence = { interval: 6, unit: 'month', anchorDate: '2025-08-31' };
+    expect(between(insurance, '2025-01-01', '2027-01-01')).toEqual(['2025-02-28', '2025-08-31', '2026-02-28', '2026-08-31']);
+  });
+});
+
+describe('editing day rules', () => {
+  it('moves the anchor onto the chosen day', () => {
+    const recurrence: Recurrence = { interval: 1, unit: 'month', anchorDate: '2024-02-10' };
+    expect(withDayRule(recurrence, 31)).toEqual({ ...recurrence, anchorDate: '2024-02-29', dayRule: 31 });
+    expect(withDayRule(recurrence, 'last-business').anchorDate).toBe('2024-02-29');
+  });
+
+  it('keeps a day number only while the anchor agrees with it', () => {
+    const recurrence: Recurrence = { interval: 1, unit: 'month', anchorDate: '2025-01-31', dayRule: 31 };
+    expect(withAnchorDate(recurrence, '2025-04-30').dayRule).toBe(31);
+    expect(withAnchorDate(recurrence, '2025-04-15').dayRule).toBeUndefined();
+  });
+
+  it('snaps the anchor to last day rules', () => {
+    const recurrence: Recurrence = { interval: 1, unit: 'month', anchorDate: '2025-01-31', dayRule: 'last' };
+    expect(withAnchorDate(recurrence, '2025-02-03')).toEqual({ ...recurrence, anchorDate: '2025-02-28' });
+  });
+});
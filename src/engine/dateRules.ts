@@ -0,0 +1,46 @@
+import { getDaysInMonth, isSameDay, isWeekend, subDays } from 'date-fns';
+import type { MonthDayRule } from './types';
+
+/**
+ * Resolve a day-of-month rule to a date in the given month (0-based).
+ *
+ * - A number is that day of the month; days past the end of a short month
+ *   roll back to its last day (the 31st is Apr 30, Feb 28 or Feb 29).
+ * - `'last'` is the last day of the month.
+ * - `'last-business'` is the last weekday (Mon-Fri) of the month.
+ */
+export function resolveMonthDay(year: number, month: number, rule: MonthDayRule): Date {
+  const daysInMonth = getDaysInMonth(new Date(year, month, 1));
+
+  if (rule === 'last') return new Date(year, month, daysInMonth);
+  if (rule === 'last-business') {
+    let date = new Date(year, month, daysInMonth);
+    while (isWeekend(date)) date = subDays(date, 1);
+    return date;
+  }
+
+  const day = Math.min(Math.max(1, Math.round(rule)), daysInMonth);
+  return new Date(year, month, day);
+}
+
+/** Check if `date` is the day a rule resolves to in that date's month. */
+export function matchesMonthDay(date: Date, rule: MonthDayRule): boolean {
+  return isSameDay(date, resolveMonthDay(date.getFullYear(), date.getMonth(), rule));
+}
+
+/** Short label for a rule, e.g. "31st", "Last day" or "Last business day". */
+export function describeMonthDay(rule: MonthDayRule): string {
+  if (rule === 'last') return 'Last day';
+  if (rule === 'last-business') return 'Last business day';
+  if (rule >= 11 && rule <= 13) return `${rule}th`;
+  switch (rule % 10) {
+    case 1:
+      return `${rule}st`;
+    case 2:
+      return `${rule}nd`;
+    case 3:
+      return `${rule}rd`;
+    default:
+      return `${rule}th`;
+  }
+}
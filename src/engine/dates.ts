@@ -0,0 +1,19 @@
+/**
+ * ISO (yyyy-MM-dd) form of a local date. Same as `format(date, 'yyyy-MM-dd')`,
+ * but cheap enough to call for every day of a long projection.
+ */
+export function toISODate(date: Date): string {
+  const month = date.getMonth() + 1;
+  const day = date.getDate();
+  return `${date.getFullYear()}-${month < 10 ? '0' : ''}${month}-${day < 10 ? '0' : ''}${day}`;
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Calendar days from `earlier` to `later`, both local midnights. A cheaper
+ * `differenceInCalendarDays`; rounding absorbs daylight saving shifts.
+ */
+export function daysBetweenMidnights(later: Date, earlier: Date): number {
+  return Math.round((later.getTime() - earlier.getTime()) / MS_PER_DAY);
+}
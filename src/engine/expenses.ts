@@ -0,0 +1,90 @@
+import { parseISO, startOfDay } from 'date-fns';
+import type { RecurringExpense } from './types';
+import { toISODate } from './dates';
+import { occurrencesBetween, occursOn } from './recurrence';
+import {
+  NO_HOLIDAYS,
+  adjustedDatesBetween,
+  adjustedOccurrencesBetween,
+  scheduledDatesFor,
+  type AdjustedOccurrence,
+  type HolidayCalendar,
+} from './holidays';
+
+/** Unadjusted due date inside the expense's start and end dates */
+function isScheduledDue(date: Date, expense: RecurringExpense): boolean {
+  const dateStr = toISODate(date);
+  if (expense.startDate && dateStr < expense.startDate) return false;
+  if (expense.endDate && dateStr > expense.endDate) return false;
+  return occursOn(date, expense.recurrence);
+}
+
+/**
+ * The due dates of a recurring expense that are charged on a given date,
+ * before weekend/holiday adjustment, earliest first. Includes its optional
+ * start and end dates; empty if nothing is due.
+ */
+export function scheduledDueDatesFor(
+  date: Date,
+  expense: RecurringExpense,
+  calendar: HolidayCalendar = NO_HOLIDAYS
+): Date[] {
+  return scheduledDatesFor(date, expense.businessDayAdjustment ?? 'none', calendar, (d) =>
+    isScheduledDue(d, expense)
+  );
+}
+
+/** Unadjusted due dates from `start` through `end`, clipped to the expense's own dates */
+function scheduledDueDates(expense: RecurringExpense, start: Date, end: Date): Date[] {
+  let first = startOfDay(start);
+  let last = startOfDay(end);
+  if (expense.startDate) {
+    const expenseStart = startOfDay(parseISO(expense.startDate));
+    if (expenseStart > first) first = expenseStart;
+  }
+  if (expense.endDate) {
+    const expenseEnd = startOfDay(parseISO(expense.endDate));
+    if (expenseEnd < last) last = expenseEnd;
+  }
+  if (first > last) return [];
+  return occurrencesBetween(expense.recurrence, first, last);
+}
+
+/**
+ * Every charge of a recurring expense from `start` through `end`, clipped
+ * to its own start and end dates and adjusted for weekends/holidays. Due
+ * dates that move onto the same day are each charged.
+ */
+export function expenseOccurrencesBetween(
+  expense: RecurringExpense,
+  start: Date,
+  end: Date,
+  calendar: HolidayCalendar = NO_HOLIDAYS
+): AdjustedOccurrence[] {
+  return adjustedOccurrencesBetween(
+    (from, to) => scheduledDueDates(expense, from, to),
+    expense.businessDayAdjustment ?? 'none',
+    calendar,
+    start,
+    end
+  );
+}
+
+/**
+ * Distinct days a recurring expense is charged from `start` through `end`
+ * (see `expenseOccurrencesBetween`).
+ */
+export function expenseDueDates(
+  expense: RecurringExpense,
+  start: Date,
+  end: Date,
+  calendar: HolidayCalendar = NO_HOLIDAYS
+): Date[] {
+  return adjustedDatesBetween(
+    (from, to) => scheduledDueDates(expense, from, to),
+    expense.businessDayAdjustment ?? 'none',
+    calendar,
+    start,
+    end
+  );
+}
@@ -0,0 +1,206 @@
+import { addDays, format, getDaysInMonth, isWeekend, startOfDay, subDays } from 'date-fns';
+import type { BusinessDayAdjustment, HolidayConfig } from './types';
+import { daysBetweenMidnights, toISODate } from './dates';
+
+export interface Holiday {
+  /** Observed date, ISO */
+  date: string;
+  name: string;
+}
+
+/** Defaults: federal holidays on, no custom holidays */
+export const DEFAULT_HOLIDAYS: HolidayConfig = {
+  useFederalHolidays: true,
+  custom: [],
+};
+
+/** The nth (1-based) given weekday (0 = Sunday) of a month (0-based). */
+function nthWeekday(year: number, month: number, weekday: number, n: number): Date {
+  const first = new Date(year, month, 1);
+  const offset = (weekday - first.getDay() + 7) % 7;
+  return new Date(year, month, 1 + offset + (n - 1) * 7);
+}
+
+/** The last given weekday of a month. */
+function lastWeekday(year: number, month: number, weekday: number): Date {
+  const last = new Date(year, month, getDaysInMonth(new Date(year, month, 1)));
+  const offset = (last.getDay() - weekday + 7) % 7;
+  return subDays(last, offset);
+}
+
+/** Fixed-date holidays are observed on Friday when they fall on a Saturday and on Monday for a Sunday. */
+function observed(date: Date): Date {
+  if (date.getDay() === 6) return subDays(date, 1);
+  if (date.getDay() === 0) return addDays(date, 1);
+  return date;
+}
+
+/**
+ * US federal holidays observed in a calendar year (5 U.S.C. 6103).
+ * New Year's Day of the following year is included when it is observed on
+ * December 31st.
+ */
+export function federalHolidays(year: number): Holiday[] {
+  const holidays: [Date, string][] = [
+    [observed(new Date(year, 0, 1)), "New Year's Day"],
+    [nthWeekday(year, 0, 1, 3), 'Martin Luther King Jr. Day'],
+    [nthWeekday(year, 1, 1, 3), "Washington's Birthday"],
+    [lastWeekday(year, 4, 1), 'Memorial Day'],
+    [observed(new Date(year, 5, 19)), 'Juneteenth'],
+    [observed(new Date(year, 6, 4)), 'Independence Day'],
+    [nthWeekday(year, 8, 1, 1), 'Labor Day'],
+    [nthWeekday(year, 9, 1, 2), 'Columbus Day'],
+    [observed(new Date(year, 10, 11)), 'Veterans Day'],
+    [nthWeekday(year, 10, 4, 4), 'Thanksgiving Day'],
+    [observed(new Date(year, 11, 25)), 'Christmas Day'],
+    [observed(new Date(year + 1, 0, 1)), "New Year's Day"],
+  ];
+  // Juneteenth became a federal holiday in 2021
+  return holidays
+    .filter(([date, name]) => date.getFullYear() === year && (name !== 'Juneteenth' || year >= 2021))
+    .map(([date, name]) => ({ date: format(date, 'yyyy-MM-dd'), name }));
+}
+
+/** Answers whether a date is a non-business day (weekend or holiday). */
+export interface HolidayCalendar {
+  isHoliday: (date: Date) => boolean;
+}
+
+/** Calendar with weekends only, no holidays */
+export const NO_HOLIDAYS: HolidayCalendar = { isHoliday: () => false };
+
+/**
+ * Build a holiday calendar from the config. Federal holidays are computed
+ * per year on first use.
+ */
+export function createHolidayCalendar(config: HolidayConfig | undefined): HolidayCalendar {
+  const { useFederalHolidays, custom } = config ?? DEFAULT_HOLIDAYS;
+  const customDates = new Set(custom.map((h) => h.date));
+  const federalByYear = new Map<number, Set<string>>();
+
+  return {
+    isHoliday: (date) => {
+      const dateStr = toISODate(date);
+      if (customDates.has(dateStr)) return true;
+      if (!useFederalHolidays) return false;
+      const year = date.getFullYear();
+      let federal = federalByYear.get(year);
+      if (!federal) {
+        federal = new Set(federalHolidays(year).map((h) => h.date));
+        federalByYear.set(year, federal);
+      }
+      return federal.has(dateStr);
+    },
+  };
+}
+
+export function isBusinessDay(date: Date, calendar: HolidayCalendar): boolean {
+  return !isWeekend(date) && !calendar.isHoliday(date);
+}
+
+/** Move a date off weekends and holidays in the direction of the rule. */
+export function adjustToBusinessDay(
+  date: Date,
+  adjustment: BusinessDayAdjustment,
+  calendar: HolidayCalendar
+): Date {
+  if (adjustment === 'none') return date;
+  const step = adjustment === 'previous' ? -1 : 1;
+  let adjusted = date;
+  while (!isBusinessDay(adjusted, calendar)) adjusted = addDays(adjusted, step);
+  return adjusted;
+}
+
+/** Longest run of non-business days an adjustment is expected to skip */
+const MAX_ADJUSTMENT_DAYS = 10;
+
+/**
+ * Every scheduled date that lands on `date` after adjustment, earliest
+ * first; empty if none does. `isScheduled` tests the unadjusted schedule;
+ * only dates within a short window on the far side of `date` can move onto it.
+ */
+export function scheduledDatesFor(
+  date: Date,
+  adjustment: BusinessDayAdjustment,
+  calendar: HolidayCalendar,
+  isScheduled: (scheduled: Date) => boolean
+): Date[] {
+  if (adjustment === 'none') return isScheduled(date) ? [date] : [];
+  if (!isBusinessDay(date, calendar)) return [];
+
+  // Walk from `date` away from the adjustment direction, through the
+  // non-business days that would roll onto it
+  const step = adjustment === 'previous' ? 1 : -1;
+  const scheduled = isScheduled(date) ? [date] : [];
+  for (let i = 1; i <= MAX_ADJUSTMENT_DAYS; i++) {
+    const candidate = addDays(date, i * step);
+    if (isBusinessDay(candidate, calendar)) break;
+    if (isScheduled(candidate)) scheduled.push(candidate);
+  }
+  return step === 1 ? scheduled : scheduled.reverse();
+}
+
+/** Check if `date` is where some scheduled date lands after adjustment. */
+export function isAdjustedOccurrence(
+  date: Date,
+  adjustment: BusinessDayAdjustment,
+  calendar: HolidayCalendar,
+  isScheduled: (scheduled: Date) => boolean
+): boolean {
+  return scheduledDatesFor(date, adjustment, calendar, isScheduled).length > 0;
+}
+
+/** A scheduled date and the business day it moved to */
+export interface AdjustedOccurrence {
+  /** Date after adjustment */
+  date: Date;
+  /** Date on the unadjusted schedule */
+  scheduled: Date;
+}
+
+/**
+ * Adjusted occurrences from `start` through `end`, one per scheduled date,
+ * in order. `scheduledBetween` lists the unadjusted schedule; it is asked
+ * for a slightly wider window so dates just outside the range that move
+ * into it are included. Matches `scheduledDatesFor`: several scheduled
+ * dates can land on the same day, and none moves further than the
+ * adjustment window.
+ */
+export function adjustedOccurrencesBetween(
+  scheduledBetween: (from: Date, to: Date) => Date[],
+  adjustment: BusinessDayAdjustment,
+  calendar: HolidayCalendar,
+  start: Date,
+  end: Date
+): AdjustedOccurrence[] {
+  if (adjustment === 'none') {
+    return scheduledBetween(start, end).map((date) => ({ date, scheduled: date }));
+  }
+  const first = startOfDay(start);
+  const last = startOfDay(end);
+  const occurrences: AdjustedOccurrence[] = [];
+  for (const scheduled of scheduledBetween(subDays(first, MAX_ADJUSTMENT_DAYS), addDays(last, MAX_ADJUSTMENT_DAYS))) {
+    const date = adjustToBusinessDay(scheduled, adjustment, calendar);
+    if (date < first || date > last) continue;
+    if (Math.abs(daysBetweenMidnights(date, scheduled)) > MAX_ADJUSTMENT_DAYS) continue;
+    occurrences.push({ date, scheduled });
+  }
+  return occurrences.sort(
+    (a, b) => a.date.getTime() - b.date.getTime() || a.scheduled.getTime() - b.scheduled.getTime()
+  );
+}
+
+/** Distinct adjusted dates from `start` through `end`; see adjustedOccurrencesBetween. */
+export function adjustedDatesBetween(
+  scheduledBetween: (from: Date, to: Date) => Date[],
+  adjustment: BusinessDayAdjustment,
+  calendar: HolidayCalendar,
+  start: Date,
+  end: Date
+): Date[] {
+  const dates: Date[] = [];
+  for (const { date } of adjustedOccurrencesBetween(scheduledBetween, adjustment, calendar, start, end)) {
+    if (dates[dates.length - 1]?.getTime() !== date.getTime()) dates.push(date);
+  }
+  return dates;
+}
@@ -0,0 +1,462 @@
+import { addDays, differenceInCalendarDays, isSameDay, max as maxDate, min as minDate, parseISO, startOfDay } from 'date-fns';
+import type {
+  EarningsBreakdown,
+  IncomeScenario,
+  MonthDayRule,
+  OvertimeConfig,
+  PaycheckBreakdown,
+  PayFrequency,
+  Recurrence,
+  RecurringIncome,
+  VariablePayConfig,
+} from './types';
+import { nextOccurrence, occurrencesBetween, occursOn, previousOccurrence } from './recurrence';
+import { withholdPaycheck } from './tax';
+import { toISODate } from './dates';
+import {
+  NO_HOLIDAYS,
+  adjustedDatesBetween,
+  adjustedOccurrencesBetween,
+  isAdjustedOccurrence,
+  scheduledDatesFor,
+  type AdjustedOccurrence,
+  type HolidayCalendar,
+} from './holidays';
+
+/** Default paydays for semimonthly pay: the 15th and the last day of the month */
+export const DEFAULT_SEMIMONTHLY_DAYS: [MonthDayRule, MonthDayRule] = [15, 'last'];
+
+/** The most hours a job can be scheduled in a week */
+export const HOURS_IN_WEEK = 168;
+
+/** Defaults for overtime pay: time and a half past 40 hours, no differential */
+export const DEFAULT_OVERTIME: OvertimeConfig = {
+  enabled: true,
+  thresholdHours: 40,
+  multiplier: 1.5,
+  differentialHours: 0,
+  differentialRate: 0,
+};
+
+/** Defaults for a new variable income */
+export const DEFAULT_VARIABLE_PAY: VariablePayConfig = {
+  average: 500,
+  rangeType: 'range',
+  low: 350,
+  high: 650,
+  stdDev: 100,
+};
+
+/** Number of regular paychecks in a year for a pay frequency. */
+export function payPeriodsPerYear(frequency: PayFrequency): number {
+  switch (frequency) {
+    case 'weekly':
+      return 52;
+    case 'biweekly':
+      return 26;
+    case 'semimonthly':
+      return 24;
+    case 'monthly':
+      return 12;
+    default:
+      return 0;
+  }
+}
+
+/** Whether pay is hours × rate (as opposed to a fixed salary or variable pay). */
+export function isHourly(income: RecurringIncome): boolean {
+  return (income.payType ?? 'hourly') === 'hourly';
+}
+
+/** Whether pay varies around an average, like tips or gig work. */
+export function isVariable(income: RecurringIncome): boolean {
+  return income.payType === 'variable';
+}
+
+/**
+ * Gross pay per paycheck of a variable income in a scenario. A standard
+ * deviation spreads low and high one deviation either side of the average.
+ * Pay never goes below zero.
+ */
+export function variablePaycheck(income: RecurringIncome, scenario: IncomeScenario = 'expected'): number {
+  const pay = income.variablePay ?? DEFAULT_VARIABLE_PAY;
+  if (scenario === 'expected') return Math.max(0, pay.average);
+  if (pay.rangeType === 'stddev') {
+    return Math.max(0, scenario === 'low' ? pay.average - pay.stdDev : pay.average + pay.stdDev);
+  }
+  return Math.max(0, scenario === 'low' ? pay.low : pay.high);
+}
+
+/** Whether a variable income's low and high scenarios differ from its average. */
+export function hasPayRange(income: RecurringIncome): boolean {
+  return isVariable(income) && variablePaycheck(income, 'low') !== variablePaycheck(income, 'high');
+}
+
+/**
+ * Pay rate in effect on a date: the hourly rate, or the salary per paycheck
+ * for salaried pay, after every rate change dated on or before it.
+ */
+export function payRateOn(income: RecurringIncome, date: Date): number {
+  let rate = isHourly(income) ? income.hourlyRate : (income.salaryAmount ?? 0);
+  if (!income.rateChanges?.length) return rate;
+
+  const dateStr = toISODate(date);
+  const changes = income.rateChanges
+    .filter((c) => c.date <= dateStr)
+    .sort((a, b) => a.date.localeCompare(b.date));
+  for (const change of changes) {
+    rate = change.kind === 'percent' ? rate * (1 + change.value / 100) : change.value;
+  }
+  return rate;
+}
+
+/**
+ * Weekly hours and hourly rate worked on a date: the first hours schedule
+ * segment covering it, otherwise the income's own hours at the rate in
+ * effect that day.
+ */
+export function hoursOn(income: RecurringIncome, date: Date): { hoursPerWeek: number; hourlyRate: number } {
+  const dateStr = toISODate(date);
+  const segment = income.hoursSchedule?.find((s) => dateStr >= s.startDate && dateStr <= s.endDate);
+  const hourlyRate = segment?.hourlyRate ?? payRateOn(income, date);
+  return { hoursPerWeek: segment ? segment.hoursPerWeek : income.hoursPerWeek, hourlyRate };
+}
+
+/** Whether hourly pay changes over time, so paychecks are worked out day by day. */
+function hasVaryingPay(income: RecurringIncome): boolean {
+  return !!income.hoursSchedule?.length || !!income.rateChanges?.length;
+}
+
+/** Weeks of work paid by one paycheck. */
+function weeksPerPaycheck(frequency: PayFrequency): number {
+  switch (frequency) {
+    case 'weekly':
+      return 1;
+    case 'biweekly':
+      return 2;
+    case 'semimonthly':
+      return 52 / 24;
+    case 'monthly':
+      return 52 / 12;
+    default:
+      return 0;
+  }
+}
+
+/** Total gross pay of an earnings split. */
+export function totalEarnings(earnings: EarningsBreakdown): number {
+  return earnings.regular + earnings.overtime + earnings.differential;
+}
+
+/**
+ * Earnings per paycheck for steady weekly hours at one rate. Hours past the
+ * overtime threshold are paid at the multiplier, and differential hours
+ * (capped at the hours worked) add a flat amount per hour.
+ */
+function hourlyEarnings(income: RecurringIncome, hoursPerWeek: number, hourlyRate: number): EarningsBreakdown {
+  const weeks = weeksPerPaycheck(income.frequency);
+  const overtime = income.overtime?.enabled ? income.overtime : null;
+  if (!overtime) return { regular: hoursPerWeek * hourlyRate * weeks, overtime: 0, differential: 0 };
+
+  const regularHours = Math.min(hoursPerWeek, overtime.thresholdHours);
+  const overtimeHours = Math.max(0, hoursPerWeek - overtime.thresholdHours);
+  return {
+    regular: regularHours * hourlyRate * weeks,
+    overtime: overtimeHours * hourlyRate * overtime.multiplier * weeks,
+    differential: Math.min(overtime.differentialHours, hoursPerWeek) * overtime.differentialRate * weeks,
+  };
+}
+
+/** Round each part of an earnings split to cents. */
+function roundEarnings(earnings: EarningsBreakdown): EarningsBreakdown {
+  return {
+    regular: Math.round(earnings.regular * 100) / 100,
+    overtime: Math.round(earnings.overtime * 100) / 100,
+    differential: Math.round(earnings.differential * 100) / 100,
+  };
+}
+
+/**
+ * Regular, overtime and differential gross pay for a single paycheck.
+ * Variable pay is the amount for `scenario`. Given the (unadjusted) payday, pay follows the hours schedule and rate
+ * changes: salary is the rate in effect on the payday, and each day of an
+ * hourly pay period earns its share at that day's hours and rate, so a
+ * period straddling a change is paid at a blend of both.
+ */
+export function paycheckEarnings(
+  income: RecurringIncome,
+  payday?: Date,
+  scenario: IncomeScenario = 'expected'
+): EarningsBreakdown {
+  if (isVariable(income)) return { regular: variablePaycheck(income, scenario), overtime: 0, differential: 0 };
+  if (!isHourly(income)) {
+    return { regular: payday ? payRateOn(income, payday) : (income.salaryAmount ?? 0), overtime: 0, differential: 0 };
+  }
+  if (payday && hasVaryingPay(income)) {
+    const periodStart = previousPayday(income, addDays(startOfDay(payday), -1));
+    return earnedInPeriod(income, periodStart, startOfDay(payday), startOfDay(payday));
+  }
+  return hourlyEarnings(income, income.hoursPerWeek, income.hourlyRate);
+}
+
+/**
+ * Calculate gross pay for a single paycheck based on income config,
+ * on the (unadjusted) payday when given. See `paycheckEarnings`.
+ */
+export function paycheckAmount(income: RecurringIncome, payday?: Date, scenario: IncomeScenario = 'expected'): number {
+  return totalEarnings(paycheckEarnings(income, payday, scenario));
+}
+
+/** Latest regular payday on or before `date`, ignoring the anchor and end date. */
+function previousPayday(income: RecurringIncome, date: Date): Date {
+  return maxDate(incomeRecurrences(income).map((r) => previousOccurrence(r, date)));
+}
+
+/** Earliest regular payday on or after `date`, ignoring the anchor and end date. */
+function nextPayday(income: RecurringIncome, date: Date): Date {
+  return minDate(incomeRecurrences(income).map((r) => nextOccurrence(r, date)));
+}
+
+/**
+ * Earnings for the days after `periodStart` through `through`, in the pay
+ * period that ends on `periodEnd`. Each day earns an equal share of a
+ * paycheck at the hours in effect that day.
+ */
+function earnedInPeriod(
+  income: RecurringIncome,
+  periodStart: Date,
+  periodEnd: Date,
+  through: Date,
+  scenario: IncomeScenario = 'expected'
+): EarningsBreakdown {
+  const earned: EarningsBreakdown = { regular: 0, overtime: 0, differential: 0 };
+  const periodLength = differenceInCalendarDays(periodEnd, periodStart);
+  const daysWorked = differenceInCalendarDays(through, periodStart);
+  if (periodLength <= 0 || daysWorked <= 0) return earned;
+
+  const addShare = (paycheck: EarningsBreakdown, share: number) => {
+    earned.regular += paycheck.regular * share;
+    earned.overtime += paycheck.overtime * share;
+    earned.differential += paycheck.differential * share;
+  };
+
+  if (!isHourly(income) || !hasVaryingPay(income)) {
+    addShare(paycheckEarnings(income, through, scenario), daysWorked / periodLength);
+  } else {
+    for (let i = 1; i <= daysWorked; i++) {
+      const { hoursPerWeek, hourlyRate } = hoursOn(income, addDays(periodStart, i));
+      addShare(hourlyEarnings(income, hoursPerWeek, hourlyRate), 1 / periodLength);
+    }
+  }
+  return roundEarnings(earned);
+}
+
+/**
+ * Pay schedule of a recurring income as recurrences anchored on its start
+ * date. Semimonthly pay is two monthly recurrences, one per payday.
+ */
+export function incomeRecurrences(income: RecurringIncome): Recurrence[] {
+  switch (income.frequency) {
+    case 'weekly':
+      return [{ interval: 1, unit: 'week', anchorDate: income.startDate }];
+    case 'biweekly':
+      return [{ interval: 2, unit: 'week', anchorDate: income.startDate }];
+    case 'semimonthly':
+      return (income.semimonthlyDays ?? DEFAULT_SEMIMONTHLY_DAYS).map((dayRule) => ({
+        interval: 1,
+        unit: 'month',
+        anchorDate: income.startDate,
+        dayRule,
+      }));
+    case 'monthly':
+    default:
+      return [{ interval: 1, unit: 'month', anchorDate: income.startDate }];
+  }
+}
+
+/**
+ * Check if a given date is a regular payday for a recurring income.
+ * Does NOT check the endDate boundary, callers handle that separately
+ * so partial paycheck logic can emit on the endDate itself.
+ */
+export function isRegularPayday(date: Date, income: RecurringIncome): boolean {
+  const anchor = startOfDay(parseISO(income.startDate));
+  if (startOfDay(date) < anchor) return false;
+  return incomeRecurrences(income).some((recurrence) => occursOn(date, recurrence));
+}
+
+/**
+ * Regular paydays from `start` through `end`, not counting any before the
+ * pay date anchor. The end date is not applied, like `isRegularPayday`.
+ */
+export function regularPaydaysBetween(income: RecurringIncome, start: Date, end: Date): Date[] {
+  const anchor = startOfDay(parseISO(income.startDate));
+  const first = start < anchor ? anchor : start;
+  const byTime = new Map<number, Date>();
+  for (const recurrence of incomeRecurrences(income)) {
+    for (const date of occurrencesBetween(recurrence, first, end)) byTime.set(date.getTime(), date);
+  }
+  return Array.from(byTime.values()).sort((a, b) => a.getTime() - b.getTime());
+}
+
+/** Unadjusted regular payday on or before the income's end date */
+function isScheduledPayday(date: Date, income: RecurringIncome): boolean {
+  if (income.endDate) {
+    const endDate = startOfDay(parseISO(income.endDate));
+    if (startOfDay(date) > endDate) return false;
+  }
+  return isRegularPayday(date, income);
+}
+
+/**
+ * Check if a given date is a payday within the incomes date range, after
+ * moving paydays off weekends and holidays.
+ */
+export function isPayday(date: Date, income: RecurringIncome, calendar: HolidayCalendar = NO_HOLIDAYS): boolean {
+  return isAdjustedOccurrence(date, income.businessDayAdjustment ?? 'none', calendar, (d) =>
+    isScheduledPayday(d, income)
+  );
+}
+
+/**
+ * The regular paydays whose paychecks are deposited on `date`, before
+ * weekend/holiday adjustment, earliest first. Empty if `date` isn't a payday.
+ */
+export function scheduledPaydays(
+  date: Date,
+  income: RecurringIncome,
+  calendar: HolidayCalendar = NO_HOLIDAYS
+): Date[] {
+  return scheduledDatesFor(date, income.businessDayAdjustment ?? 'none', calendar, (d) =>
+    isScheduledPayday(d, income)
+  );
+}
+
+/**
+ * Check if a given date is when the pro-rated final paycheck is paid: the
+ * end date (moved like any other payday) when it isn't a regular payday.
+ */
+export function isPartialPayday(date: Date, income: RecurringIncome, calendar: HolidayCalendar = NO_HOLIDAYS): boolean {
+  if (!income.endDate) return false;
+  const endDate = startOfDay(parseISO(income.endDate));
+  if (isRegularPayday(endDate, income)) return false;
+  return isAdjustedOccurrence(date, income.businessDayAdjustment ?? 'none', calendar, (d) =>
+    isSameDay(d, endDate)
+  );
+}
+
+/**
+ * Regular paychecks deposited from `start` through `end`, up to the end
+ * date and after weekend/holiday adjustment, each with the scheduled payday
+ * it pays for (see `scheduledPaydays`).
+ */
+export function regularPaychecksBetween(
+  income: RecurringIncome,
+  start: Date,
+  end: Date,
+  calendar: HolidayCalendar = NO_HOLIDAYS
+): AdjustedOccurrence[] {
+  const endDate = income.endDate ? startOfDay(parseISO(income.endDate)) : null;
+  return adjustedOccurrencesBetween(
+    (from, to) => regularPaydaysBetween(income, from, endDate && endDate < to ? endDate : to),
+    income.businessDayAdjustment ?? 'none',
+    calendar,
+    start,
+    end
+  );
+}
+
+/**
+ * The day from `start` through `end` the partial final paycheck is
+ * deposited, if any (see `isPartialPayday`). At most one date.
+ */
+export function partialPaydaysBetween(
+  income: RecurringIncome,
+  start: Date,
+  end: Date,
+  calendar: HolidayCalendar = NO_HOLIDAYS
+): Date[] {
+  if (!income.endDate) return [];
+  const endDate = startOfDay(parseISO(income.endDate));
+  if (isRegularPayday(endDate, income)) return [];
+  return adjustedDatesBetween(
+    (from, to) => (endDate >= from && endDate <= to ? [endDate] : []),
+    income.businessDayAdjustment ?? 'none',
+    calendar,
+    start,
+    end
+  );
+}
+
+/**
+ * Dates money is deposited from `start` through `end`: regular paydays up
+ * to the end date plus any partial final paycheck, after weekend/holiday
+ * adjustment.
+ */
+export function paydaysBetween(
+  income: RecurringIncome,
+  start: Date,
+  end: Date,
+  calendar: HolidayCalendar = NO_HOLIDAYS
+): Date[] {
+  const endDate = income.endDate ? startOfDay(parseISO(income.endDate)) : null;
+  return adjustedDatesBetween(
+    (from, to) => {
+      const dates = regularPaydaysBetween(income, from, endDate && endDate < to ? endDate : to);
+      if (endDate && endDate >= from && endDate <= to && partialPaycheckAmount(income) > 0) {
+        dates.push(endDate);
+      }
+      return dates;
+    },
+    income.businessDayAdjustment ?? 'none',
+    calendar,
+    start,
+    end
+  );
+}
+
+/**
+ * Pro-rated earnings of the partial paycheck for an end date that doesn't
+ * fall on a regular payday. All zero if the end date IS a regular payday
+ * (no partial needed).
+ */
+export function partialPaycheckEarnings(
+  income: RecurringIncome,
+  scenario: IncomeScenario = 'expected'
+): EarningsBreakdown {
+  const none: EarningsBreakdown = { regular: 0, overtime: 0, differential: 0 };
+  if (!income.endDate) return none;
+  const endDate = startOfDay(parseISO(income.endDate));
+  if (endDate < startOfDay(parseISO(income.startDate))) return none;
+
+  // If the end date is a regular payday, no partial needed
+  if (isRegularPayday(endDate, income)) return none;
+
+  // Pro-rate by how far the end date is into its pay period
+  return earnedInPeriod(income, previousPayday(income, endDate), nextPayday(income, endDate), endDate, scenario);
+}
+
+/**
+ * Calculate a pro-rated partial paycheck amount for an end date
+ * that doesn't fall on a regular payday.
+ * Returns 0 if the end date IS a regular payday (no partial needed).
+ */
+export function partialPaycheckAmount(income: RecurringIncome): number {
+  return totalEarnings(partialPaycheckEarnings(income));
+}
+
+/**
+ * Gross/withheld/net split of one regular paycheck, used for summaries.
+ * With `asOf`, it is the first regular paycheck on or after that date, so
+ * the rate and hours in effect then are used.
+ */
+export function estimatePaycheck(income: RecurringIncome, asOf?: Date): PaycheckBreakdown {
+  const anchor = startOfDay(parseISO(income.startDate));
+  const payday = asOf && nextPayday(income, maxDate([startOfDay(asOf), anchor]));
+  return withholdPaycheck(
+    paycheckAmount(income, payday),
+    payPeriodsPerYear(income.frequency),
+    income.withholding,
+    income.taxWithholdingRate
+  );
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import type { LoanDisbursement, StudentLoan } from './types';
+import { simulateLoan, standardPayment } from './loans';
+
+/** 6% unsubsidized, ten-year plan, repayment starting on the 1st of a month */
+function loan(graduationDate: string, disbursements: Omit<LoanDisbursement, 'id'>[]): StudentLoan {
+  return {
+    id: 'loan',
+    label: 'Direct Loan',
+    interestType: 'unsubsidized',
+    interestRate: 6,
+    originationFeePercent: 0,
+    disbursements: disbursements.map((d, i) => ({ id: `d${i}`, ...d })),
+    graduationDate,
+    gracePeriodMonths: 6,
+    repaymentYears: 10,
+  };
+}
+
+function paymentOn(schedule: ReturnType<typeof simulateLoan>, date: string): number | undefined {
+  return schedule.activity.get(date)?.events.find((e) => e.label === 'Direct Loan payment')?.amount;
+}
+
+describe('simulateLoan', () => {
+  it('spreads a loan disbursed after repayment began over the months left', () => {
+    // Repayment began 2024-07-01; the 2025-04-01 payment is the 9th of 120
+    const schedule = simulateLoan(
+      loan('2024-01-01', [{ date: '2025-03-10', amount: 12000 }]),
+      new Date(2025, 2, 1),
+      new Date(2025, 5, 30)
+    );
+    const expected = Math.round(standardPayment(12000, 0.005, 112) * 100) / 100;
+    expect(paymentOn(schedule, '2025-04-01')).toBe(expected);
+    expect(paymentOn(schedule, '2025-05-01')).toBe(expected);
+    expect(paymentOn(schedule, '2025-06-01')).toBe(expected);
+  });
+
+  it('raises the payment after a disbursement during repayment', () => {
+    // Repayment starts 2024-08-01
+    const schedule = simulateLoan(
+      loan('2024-02-01', [
+        { date: '2024-01-15', amount: 6000 },
+        { date: '2024-09-20', amount: 6000 },
+      ]),
+      new Date(2024, 0, 1),
+      new Date(2024, 11, 31)
+    );
+    const before = paymentOn(schedule, '2024-09-01')!;
+    const after = paymentOn(schedule, '2024-10-01')!;
+    expect(before).toBeGreaterThan(0);
+    expect(after).toBeGreaterThan(before * 1.9);
+    expect(paymentOn(schedule, '2024-11-01')).toBe(after);
+  });
+});
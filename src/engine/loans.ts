@@ -0,0 +1,142 @@
+import { addDays, addMonths, format, parseISO, startOfDay } from 'date-fns';
+import type { DailyEvent, StudentLoan } from './types';
+
+/** Cash and non-cash loan activity on a single day */
+export interface LoanDay {
+  income: number;
+  expense: number;
+  events: DailyEvent[];
+}
+
+export interface LoanSchedule {
+  /** Activity keyed by ISO date, only for days inside the projection window */
+  activity: Map<string, LoanDay>;
+  /** Principal + unpaid interest at the end of each projected day */
+  owed: number[];
+}
+
+function roundCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Fixed monthly payment that pays off `principal` over `months`
+ * at `monthlyRate` (standard amortization).
+ */
+export function standardPayment(principal: number, monthlyRate: number, months: number): number {
+  if (months <= 0) return principal;
+  if (monthlyRate === 0) return principal / months;
+  return (principal * monthlyRate) / (1 - Math.pow(1 + monthlyRate, -months));
+}
+
+/** First day of repayment: graduation date + grace period. */
+export function repaymentStartDate(loan: StudentLoan): Date {
+  return startOfDay(addMonths(parseISO(loan.graduationDate), loan.gracePeriodMonths));
+}
+
+/**
+ * Simulate a student loan day by day from its first disbursement (or the
+ * projection start, whichever is earlier) through `end`.
+ *
+ * - Disbursements add the full amount to principal; the cash received is
+ *   reduced by the origination fee.
+ * - Interest accrues daily on principal (simple interest). Subsidized loans
+ *   accrue nothing until the grace period ends.
+ * - When repayment starts, unpaid interest is capitalized into principal.
+ *   Payments fall on the same day of the month as the repayment start, one
+ *   month later. The fixed monthly payment is computed at the first payment
+ *   that finds a balance, and again after any later disbursement, spreading
+ *   the principal over the months left in the standard plan.
+ */
+export function simulateLoan(loan: StudentLoan, start: Date, end: Date): LoanSchedule {
+  const activity = new Map<string, LoanDay>();
+  const owed: number[] = [];
+
+  const disbursed = new Map<string, number>();
+  for (const d of loan.disbursements) {
+    disbursed.set(d.date, (disbursed.get(d.date) ?? 0) + d.amount);
+  }
+  const firstDisbursement = Array.from(disbursed.keys()).sort()[0];
+
+  const repaymentStart = repaymentStartDate(loan);
+  const repaymentStartStr = format(repaymentStart, 'yyyy-MM-dd');
+  const totalPayments = Math.max(1, Math.round(loan.repaymentYears * 12));
+  const dailyRate = loan.interestRate / 100 / 365;
+  const monthlyRate = loan.interestRate / 100 / 12;
+  const feeFactor = 1 - loan.originationFeePercent / 100;
+
+  let principal = 0;
+  let interest = 0;
+  let payment: number | null = null;
+  let paymentsDue = 0;
+  let nextPaymentStr = format(addMonths(repaymentStart, 1), 'yyyy-MM-dd');
+
+  let date = startOfDay(start);
+  if (firstDisbursement) {
+    const first = startOfDay(parseISO(firstDisbursement));
+    if (first < date) date = first;
+  }
+  const startStr = format(start, 'yyyy-MM-dd');
+  const endStr = format(end, 'yyyy-MM-dd');
+
+  let ds = format(date, 'yyyy-MM-dd');
+  // Nothing was owed on payment dates before the first day simulated
+  while (nextPaymentStr < ds) {
+    paymentsDue++;
+    nextPaymentStr = format(addMonths(repaymentStart, paymentsDue + 1), 'yyyy-MM-dd');
+  }
+  while (ds <= endStr) {
+    const day: LoanDay = { income: 0, expense: 0, events: [] };
+
+    // ── Disbursement ──
+    const borrowed = disbursed.get(ds);
+    if (borrowed) {
+      principal += borrowed;
+      payment = null;
+      const received = roundCents(borrowed * feeFactor);
+      day.income += received;
+      day.events.push({ label: `${loan.label} disbursement`, amount: received, type: 'income', isOneTime: true });
+    }
+
+    // ── Repayment start: capitalize unpaid interest ──
+    if (ds === repaymentStartStr && interest > 0) {
+      day.events.push({ label: `${loan.label} interest capitalized`, amount: roundCents(interest), type: 'liability' });
+      principal += interest;
+      interest = 0;
+    }
+
+    // ── Daily interest accrual ──
+    if (principal > 0 && (loan.interestType === 'unsubsidized' || ds >= repaymentStartStr)) {
+      interest += principal * dailyRate;
+    }
+
+    // ── Monthly payment (interest first, then principal) ──
+    if (ds === nextPaymentStr) {
+      paymentsDue++;
+      nextPaymentStr = format(addMonths(repaymentStart, paymentsDue + 1), 'yyyy-MM-dd');
+      const balance = roundCents(principal + interest);
+      if (balance > 0) {
+        if (payment === null) {
+          payment = roundCents(standardPayment(principal, monthlyRate, totalPayments - paymentsDue + 1));
+        }
+        // Past the end of the plan, anything still owed is paid off
+        const amount = paymentsDue >= totalPayments ? balance : Math.min(payment, balance);
+        const toInterest = Math.min(amount, interest);
+        interest -= toInterest;
+        principal = Math.max(0, principal - (amount - toInterest));
+        day.expense += amount;
+        day.events.push({ label: `${loan.label} payment`, amount, type: 'expense' });
+      }
+    }
+
+    if (ds >= startStr) {
+      owed.push(roundCents(principal + interest));
+      if (day.events.length > 0) activity.set(ds, day);
+    }
+
+    date = addDays(date, 1);
+    ds = format(date, 'yyyy-MM-dd');
+  }
+
+  return { activity, owed };
+}
@@ -0,0 +1,152 @@
+import { format } from 'date-fns';
+import type { BudgetConfig, MonteCarloConfig, RecurringIncome } from './types';
+import { runProjection, type ProjectionSampler } from './projection';
+import { DEFAULT_VARIABLE_PAY, variablePaycheck } from './income';
+import { createRandom, standardNormal, triangular, uniform, type Random } from './random';
+
+/** Defaults for the Monte Carlo simulation (disabled) */
+export const DEFAULT_MONTE_CARLO: MonteCarloConfig = {
+  enabled: false,
+  runs: 200,
+  foodVariation: 20,
+  fuelPriceVariation: 15,
+};
+
+/** Seed for the simulation, fixed so the same inputs give the same results */
+export const MONTE_CARLO_SEED = 20240817;
+
+/** Most runs allowed, to bound how long a simulation takes */
+export const MAX_MONTE_CARLO_RUNS = 2000;
+
+export interface MonteCarloResult {
+  /** Number of simulated projections */
+  runs: number;
+  /** Share of runs where the balance goes below zero at some point (0-1) */
+  overdraftProbability: number;
+  /** Balance percentiles for each day of the projection */
+  p10: number[];
+  p50: number[];
+  p90: number[];
+}
+
+/**
+ * Random draw for one variable paycheck, as a multiplier on its expected
+ * amount. A low/high range draws from a triangular distribution peaking at
+ * the average; a standard deviation draws from a normal distribution.
+ */
+function drawVariablePay(income: RecurringIncome, random: Random): number {
+  const expected = variablePaycheck(income);
+  if (expected <= 0) return 1;
+  const pay = income.variablePay ?? DEFAULT_VARIABLE_PAY;
+  const drawn =
+    pay.rangeType === 'stddev'
+      ? pay.average + pay.stdDev * standardNormal(random)
+      : triangular(random, Math.min(pay.low, pay.high), pay.average, Math.max(pay.low, pay.high));
+  return Math.max(0, drawn) / expected;
+}
+
+/**
+ * Sampler for one simulated run. Food varies day to day; the fuel price is
+ * drawn once per month, since prices drift rather than jump daily.
+ */
+export function createSampler(settings: MonteCarloConfig, random: Random): ProjectionSampler {
+  const food = Math.max(0, settings.foodVariation) / 100;
+  const fuel = Math.max(0, settings.fuelPriceVariation) / 100;
+  const fuelByMonth = new Map<string, number>();
+
+  return {
+    variablePay: (income) => drawVariablePay(income, random),
+    food: () => (food > 0 ? uniform(random, 1 - food, 1 + food) : 1),
+    fuelPrice: (date) => {
+      if (fuel <= 0) return 1;
+      const month = format(date, 'yyyy-MM');
+      let factor = fuelByMonth.get(month);
+      if (factor === undefined) {
+        factor = uniform(random, 1 - fuel, 1 + fuel);
+        fuelByMonth.set(month, factor);
+      }
+      return factor;
+    },
+  };
+}
+
+/** Value at a percentile (0-100) of sorted values, interpolating between neighbours. */
+function percentile(sorted: Float64Array, p: number): number {
+  if (sorted.length === 0) return 0;
+  const rank = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  const weight = rank - lower;
+  return sorted[lower]! * (1 - weight) + sorted[upper]! * weight;
+}
+
+/** A simulation that runs a batch of projections at a time, so it can be stopped between batches */
+export interface MonteCarloRun {
+  /** Whether every run has finished */
+  readonly done: boolean;
+  /** Run up to `count` more projections */
+  runBatch: (count: number) => void;
+  /** Overdraft chance and percentiles of the finished runs */
+  finish: () => MonteCarloResult;
+}
+
+/** Start a simulation without running it; see runMonteCarlo. */
+export function startMonteCarlo(
+  config: BudgetConfig,
+  settings: MonteCarloConfig = config.monteCarlo ?? DEFAULT_MONTE_CARLO,
+  seed: number = MONTE_CARLO_SEED
+): MonteCarloRun {
+  const runs = Math.min(MAX_MONTE_CARLO_RUNS, Math.max(1, Math.round(settings.runs)));
+  const random = createRandom(seed);
+
+  let completed = 0;
+  let overdrafts = 0;
+  let balancesByDay: Float64Array[] = [];
+
+  return {
+    get done() {
+      return completed >= runs;
+    },
+    runBatch: (count) => {
+      const end = Math.min(runs, completed + count);
+      for (; completed < end; completed++) {
+        const run = completed;
+        const snapshots = runProjection(config, { sampler: createSampler(settings, random) });
+        if (run === 0) balancesByDay = snapshots.map(() => new Float64Array(runs));
+        let overdrawn = false;
+        snapshots.forEach((snapshot, day) => {
+          balancesByDay[day]![run] = snapshot.balance;
+          if (snapshot.balance < 0) overdrawn = true;
+        });
+        if (overdrawn) overdrafts++;
+      }
+    },
+    finish: () => {
+      const p10: number[] = [];
+      const p50: number[] = [];
+      const p90: number[] = [];
+      for (const balances of balancesByDay) {
+        const sorted = balances.slice(0, completed).sort();
+        p10.push(Math.round(percentile(sorted, 10) * 100) / 100);
+        p50.push(Math.round(percentile(sorted, 50) * 100) / 100);
+        p90.push(Math.round(percentile(sorted, 90) * 100) / 100);
+      }
+      return { runs: completed, overdraftProbability: completed > 0 ? overdrafts / completed : 0, p10, p50, p90 };
+    },
+  };
+}
+
+/**
+ * Run the projection many times with random variable income, food spending
+ * and fuel prices. Returns how often the balance goes negative and the
+ * P10/P50/P90 balance on each day.
+ */
+export function runMonteCarlo(
+  config: BudgetConfig,
+  settings: MonteCarloConfig = config.monteCarlo ?? DEFAULT_MONTE_CARLO,
+  seed: number = MONTE_CARLO_SEED
+): MonteCarloResult {
+  const simulation = startMonteCarlo(config, settings, seed);
+  while (!simulation.done) simulation.runBatch(MAX_MONTE_CARLO_RUNS);
+  return simulation.finish();
+}
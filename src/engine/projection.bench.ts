@@ -0,0 +1,32 @@
+import { bench, describe } from 'vitest';
+import { runProjection } from './projection';
+import { runReferenceProjection } from './__tests__/referenceProjection';
+import { randomBudget } from './__tests__/testBudgets';
+import type { BudgetConfig } from './types';
+
+/** Benchmarks only mean something if both engines agree. */
+function assertSameOutput(config: BudgetConfig) {
+  const indexed = JSON.stringify(runProjection(config));
+  const reference = JSON.stringify(runReferenceProjection(config));
+  if (indexed !== reference) throw new Error('runProjection output differs from the reference engine');
+}
+
+describe.each([
+  { label: '1 year, 10 of each item', items: 10, months: 12 },
+  { label: '5 years, 100 of each item', items: 100, months: 60 },
+])('projection: $label', ({ items, months }) => {
+  const config = randomBudget(1, items, months);
+  assertSameOutput(config);
+
+  bench('event-indexed engine', () => {
+    runProjection(config);
+  });
+
+  bench(
+    'reference engine',
+    () => {
+      runReferenceProjection(config);
+    },
+    { iterations: 3 }
+  );
+});
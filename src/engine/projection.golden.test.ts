@@ -0,0 +1,184 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { runProjection } from './projection';
+import { partialPaycheckAmount } from './income';
+import type { BudgetConfig, DailySnapshot } from './types';
+import { emptyBudget, expense, hourly, salary } from './__tests__/testBudgets';
+
+// Golden projections for small budgets around the engine's tricky dates.
+// After an intended change to the engine, review the diff and update the
+// files with `npx vitest run -u`.
+
+function budget(startDate: string, projectionMonths: number, overrides: Partial<BudgetConfig>): BudgetConfig {
+  return emptyBudget({ initialBalance: 1000, projectionMonths, startDate, ...overrides });
+}
+
+/** One block per day with events: the closing balance, then each event */
+function render(snapshots: DailySnapshot[]): string {
+  const lines: string[] = [];
+  for (const snapshot of snapshots) {
+    if (snapshot.events.length === 0) continue;
+    lines.push(`${snapshot.date}  balance ${snapshot.balance.toFixed(2)}`);
+    for (const event of snapshot.events) {
+      const sign = event.type === 'income' ? '+' : '-';
+      lines.push(`  ${sign}${event.amount.toFixed(2).padStart(9)}  ${event.label}`);
+    }
+  }
+  return lines.join('\n') + '\n';
+}
+
+const GOLDEN_BUDGETS: Record<string, BudgetConfig> = {
+  // Monthly anchors on the 29th-31st roll back to the end of shorter months
+  'month-end-anchors': budget('2025-01-01', 6, {
+    recurringIncomes: [
+      salary('Paid on the 31st', '2025-01-31', 1000),
+      salary('Paid on the 15th and 30th', '2025-01-15', 600, {
+        frequency: 'semimonthly',
+        semimonthlyDays: [15, 30],
+      }),
+    ],
+    recurringExpenses: [
+      expense('Due on the 29th', 100, { interval: 1, unit: 'month', anchorDate: '2025-01-29' }),
+      expense('Due on the 30th', 50, { interval: 1, unit: 'month', anchorDate: '2025-01-30' }),
+      expense('Due on the 31st, every other month', 75, {
+        interval: 2,
+        unit: 'month',
+        anchorDate: '2025-01-31',
+        dayRule: 31,
+      }),
+      expense('Due on the last day', 20, { interval: 1, unit: 'month', anchorDate: '2025-01-31', dayRule: 'last' }),
+    ],
+  }),
+
+  // February 29th in a leap year and the years either side of it
+  'leap-year': budget('2027-12-01', 15, {
+    recurringIncomes: [
+      hourly('Biweekly from leap day', '2028-02-29'),
+      salary('Paid on the 29th', '2027-12-29', 800),
+    ],
+    recurringExpenses: [
+      expense('Leap-day renewal', 120, { interval: 1, unit: 'year', anchorDate: '2024-02-29' }),
+      expense('Due on the 29th', 40, { interval: 1, unit: 'month', anchorDate: '2027-12-29', dayRule: 29 }),
+    ],
+    oneTimeExpenses: [{ id: 'leap', label: 'Leap day bill', amount: 29, date: '2028-02-29' }],
+  }),
+
+  // Spring forward (Mar 9) and fall back (Nov 2) in America/New_York
+  dst: budget('2025-03-01', 9, {
+    recurringIncomes: [
+      hourly('Biweekly across DST', '2025-02-28'),
+      hourly('Weekly across DST', '2025-03-03', { frequency: 'weekly', hoursPerWeek: 10 }),
+    ],
+    recurringExpenses: [
+      expense('Every 10 days', 10, { interval: 10, unit: 'day', anchorDate: '2025-03-01' }),
+      expense('Sundays', 5, { interval: 1, unit: 'week', anchorDate: '2025-03-09' }),
+    ],
+    oneTimeIncomes: [
+      { id: 'spring', label: 'Spring forward gift', amount: 25, date: '2025-03-09' },
+      { id: 'fall', label: 'Fall back gift', amount: 25, date: '2025-11-02' },
+    ],
+  }),
+
+  // Incomes and expenses ending on a payday or due date, and between them
+  'end-dates': budget('2025-03-01', 4, {
+    recurringIncomes: [
+      hourly('Ends on a payday', '2025-03-07', { endDate: '2025-04-18' }),
+      hourly('Ends mid-period', '2025-03-07', { endDate: '2025-04-25' }),
+      salary('Semimonthly ends mid-period', '2025-03-15', 900, {
+        frequency: 'semimonthly',
+        endDate: '2025-05-20',
+      }),
+      hourly('Ends on a Saturday payday', '2025-03-08', { endDate: '2025-04-19', businessDayAdjustment: 'previous' }),
+    ],
+    recurringExpenses: [
+      expense('Weekly, ends on a due date', 30, { interval: 1, unit: 'week', anchorDate: '2025-03-03' }, {
+        endDate: '2025-04-14',
+      }),
+      expense('Monthly, starts in April', 200, { interval: 1, unit: 'month', anchorDate: '2025-01-10' }, {
+        startDate: '2025-04-10',
+        endDate: '2025-06-09',
+      }),
+    ],
+  }),
+
+  // Daily items over weekends and Memorial Day charge once per day moved
+  'business-days': budget('2025-05-20', 1, {
+    holidays: { useFederalHolidays: true, custom: [] },
+    recurringIncomes: [
+      hourly('Saturdays, paid the business day before', '2025-05-24', {
+        frequency: 'weekly',
+        businessDayAdjustment: 'previous',
+      }),
+    ],
+    recurringExpenses: [
+      expense('Daily, next business day', 10, { interval: 1, unit: 'day', anchorDate: '2025-05-01' }, {
+        businessDayAdjustment: 'next',
+      }),
+      expense('Daily, previous business day', 5, { interval: 1, unit: 'day', anchorDate: '2025-05-01' }, {
+        businessDayAdjustment: 'previous',
+      }),
+    ],
+  }),
+
+  // Disabled items are left out entirely
+  disabled: budget('2025-03-01', 2, {
+    recurringIncomes: [
+      hourly('Enabled job', '2025-03-07'),
+      hourly('Disabled job', '2025-03-07', { enabled: false }),
+    ],
+    recurringExpenses: [
+      expense('Enabled rent', 500, { interval: 1, unit: 'month', anchorDate: '2025-03-01' }),
+      expense('Disabled gym', 40, { interval: 1, unit: 'month', anchorDate: '2025-03-05' }, { enabled: false }),
+    ],
+    oneTimeIncomes: [{ id: 'refund', label: 'Disabled refund', amount: 300, date: '2025-03-20', enabled: false }],
+    oneTimeExpenses: [{ id: 'trip', label: 'Disabled trip', amount: 250, date: '2025-03-22', enabled: false }],
+  }),
+};
+
+describe('runProjection golden files', () => {
+  beforeAll(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date(2025, 0, 1, 9, 30));
+  });
+
+  afterAll(() => {
+    vi.useRealTimers();
+  });
+
+  it('runs in a time zone with daylight saving time', () => {
+    // Set in vite.config.ts; without it the DST budget tests nothing
+    expect(new Date(2025, 2, 8).getTimezoneOffset()).not.toBe(new Date(2025, 2, 10).getTimezoneOffset());
+  });
+
+  it.each(Object.keys(GOLDEN_BUDGETS))('matches the golden projection for %s', async (name) => {
+    const snapshots = runProjection(GOLDEN_BUDGETS[name]!);
+    await expect(render(snapshots)).toMatchFileSnapshot(`./__golden__/${name}.txt`);
+  });
+
+  it('has one snapshot per day, even across DST changes', () => {
+    const snapshots = runProjection(GOLDEN_BUDGETS.dst!);
+    expect(snapshots[0]!.date).toBe('2025-03-01');
+    expect(snapshots.map((s) => s.date)).toContain('2025-03-09');
+    expect(snapshots.map((s) => s.date)).toContain('2025-11-02');
+    expect(new Set(snapshots.map((s) => s.date)).size).toBe(snapshots.length);
+    // Mar 1 through Dec 1 inclusive
+    expect(snapshots).toHaveLength(276);
+  });
+});
+
+describe('partialPaycheckAmount', () => {
+  const [onPayday, midPeriod, semimonthly] = GOLDEN_BUDGETS['end-dates']!.recurringIncomes;
+
+  it('is zero when the end date is a regular payday', () => {
+    expect(partialPaycheckAmount(onPayday!)).toBe(0);
+  });
+
+  it('pro-rates hourly pay by the days worked in the final period', () => {
+    // One week of a two-week period at 20 h/week and $15/h
+    expect(partialPaycheckAmount(midPeriod!)).toBeCloseTo(300, 2);
+  });
+
+  it('pro-rates salaried pay by the days worked in the final period', () => {
+    // May 15 to May 31; the end date is 5 days in
+    expect(partialPaycheckAmount(semimonthly!)).toBeCloseTo((900 * 5) / 16, 2);
+  });
+});
@@ -0,0 +1,87 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { runProjection } from './projection';
+import { runReferenceProjection } from './__tests__/referenceProjection';
+import { createSampler, DEFAULT_MONTE_CARLO } from './monteCarlo';
+import { createRandom } from './random';
+import { randomBudget } from './__tests__/testBudgets';
+import { createBudgetTemplates } from '@/store/templates';
+
+describe('runProjection', () => {
+  beforeAll(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date(2025, 2, 10, 9, 30));
+  });
+
+  afterAll(() => {
+    vi.useRealTimers();
+  });
+
+  it.each(createBudgetTemplates().map((template) => [template.name, template.config] as const))(
+    'matches the reference engine for the %s template',
+    (_, config) => {
+      expect(runProjection(config)).toEqual(runReferenceProjection(config));
+    }
+  );
+
+  it.each([1, 2, 3, 4, 5, 6])('matches the reference engine for random budget %i', (seed) => {
+    const config = randomBudget(seed, 12, 24);
+    expect(runProjection(config)).toEqual(runReferenceProjection(config));
+  });
+
+  it('starts on the configured start date', () => {
+    const config = { ...randomBudget(3, 4, 6), startDate: '2025-09-02' };
+    const snapshots = runProjection(config);
+    expect(snapshots[0]!.date).toBe('2025-09-02');
+    expect(snapshots[snapshots.length - 1]!.date).toBe('2026-03-02');
+    expect(runProjection({ ...config, startDate: undefined })[0]!.date).toBe('2025-03-10');
+  });
+
+  it('matches the reference engine for low and high income scenarios', () => {
+    const config = randomBudget(42, 10, 18);
+    for (const incomeScenario of ['low', 'high'] as const) {
+      expect(runProjection(config, { incomeScenario })).toEqual(runReferenceProjection(config, { incomeScenario }));
+    }
+  });
+
+  it('draws simulated amounts in the same order as the reference engine', () => {
+    const config = randomBudget(7, 10, 18);
+    const sampler = () => createSampler(DEFAULT_MONTE_CARLO, createRandom(99));
+    expect(runProjection(config, { sampler: sampler() })).toEqual(
+      runReferenceProjection(config, { sampler: sampler() })
+    );
+  });
+
+  it('files no return for a year the projection starts partway through', () => {
+    const base = randomBudget(11, 6, 18);
+    const taxReturn = { ...base.taxReturn!, enabled: true, filingMonth: 4, filingDay: 15 };
+    const returns = (startDate: string) =>
+      runProjection({ ...base, taxReturn, startDate })
+        .flatMap((s) => s.events)
+        .filter((e) => e.label.startsWith('Tax '))
+        .map((e) => e.label);
+    expect(returns('2025-10-01')).toEqual([]);
+    expect(returns('2025-01-01')).toHaveLength(1);
+    expect(returns('2025-01-01')[0]).toMatch(/\(2025\)$/);
+  });
+
+  it('files a return for a year the projection starts partway through from the pay so far', () => {
+    const base = randomBudget(11, 6, 18);
+    const config = {
+      ...base,
+      startDate: '2025-10-01',
+      taxReturn: {
+        ...base.taxReturn!,
+        enabled: true,
+        filingMonth: 4,
+        filingDay: 15,
+        yearToDateWages: 18000,
+        yearToDateWithheld: 5000,
+      },
+    };
+    const snapshots = runProjection(config);
+    expect(snapshots.flatMap((s) => s.events).filter((e) => e.label.startsWith('Tax '))).toEqual([
+      expect.objectContaining({ label: 'Tax refund (2025)', type: 'income' }),
+    ]);
+    expect(snapshots).toEqual(runReferenceProjection(config));
+  });
+});
@@ -1,216 +1,336 @@
 import {
   addDays,
   addMonths,
-  subMonths,
   differenceInCalendarDays,
-  getDate,
+  isValid,
   isWeekend,
   parseISO,
   startOfDay,
   format,
 } from 'date-fns';
-import type { BudgetConfig, DailySnapshot, DailyEvent, RecurringIncome } from './types';
+import type {
+  BudgetConfig,
+  DailySnapshot,
+  DailyEvent,
+  EarningsBreakdown,
+  IncomeScenario,
+  PaycheckBreakdown,
+  RecurringExpense,
+  RecurringIncome,
+  TaxReturnConfig,
+} from './types';
+import { simulateLoan } from './loans';
+import { expenseOccurrencesBetween } from './expenses';
+import {
+  hasPayRange,
+  isVariable,
+  partialPaycheckEarnings,
+  partialPaydaysBetween,
+  paycheckEarnings,
+  payPeriodsPerYear,
+  regularPaychecksBetween,
+  totalEarnings,
+} from './income';
+import { createHolidayCalendar, type HolidayCalendar } from './holidays';
+import { daysBetweenMidnights, toISODate } from './dates';
+import { withholdPaycheck, estimateAnnualTax, yearToDateTotals } from './tax';
 
-/**
- * Calculate gross pay for a single paycheck based on income config.
- */
-function paycheckAmount(income: RecurringIncome): number {
-  switch (income.frequency) {
-    case 'weekly':
-      return income.hoursPerWeek * income.hourlyRate;
-    case 'biweekly':
-      return income.hoursPerWeek * income.hourlyRate * 2;
-    case 'monthly':
-      return income.hoursPerWeek * income.hourlyRate * (52 / 12);
-    default:
-      return 0;
-  }
+/** Wages and income tax withheld over one calendar year of projected paychecks */
+export interface TaxYearTotals {
+  wages: number;
+  withheld: number;
 }
 
 /**
- * Check if a given date is a regular payday for a recurring income.
- * Does NOT check the endDate boundary, callers handle that separately
- * so partial paycheck logic can emit on the endDate itself.
+ * ISO date a tax return for `year` is settled, in the following year.
+ * Days past the end of the month clamp to the last day.
  */
-function isRegularPayday(date: Date, income: RecurringIncome): boolean {
-  const anchor = startOfDay(parseISO(income.startDate));
-  const current = startOfDay(date);
-  const daysDiff = differenceInCalendarDays(current, anchor);
-
-  if (daysDiff < 0) return false;
-
-  switch (income.frequency) {
-    case 'weekly':
-      return daysDiff % 7 === 0;
-    case 'biweekly':
-      return daysDiff % 14 === 0;
-    case 'monthly':
-      return getDate(current) === getDate(anchor);
-    default:
-      return false;
+export function filingDate(year: number, taxReturn: TaxReturnConfig): string {
+  const month = Math.min(12, Math.max(1, Math.round(taxReturn.filingMonth))) - 1;
+  const lastDay = new Date(year + 1, month + 1, 0).getDate();
+  const day = Math.min(lastDay, Math.max(1, Math.round(taxReturn.filingDay)));
+  return format(new Date(year + 1, month, day), 'yyyy-MM-dd');
+}
+
+/** Only paychecks with overtime or differential pay list their earnings */
+export function earningsDetail(earnings: EarningsBreakdown): EarningsBreakdown | undefined {
+  return earnings.overtime > 0 || earnings.differential > 0 ? earnings : undefined;
+}
+
+/** Random multipliers for uncertain amounts, drawn fresh for each Monte Carlo run */
+export interface ProjectionSampler {
+  /** Multiplier on a variable income's expected paycheck */
+  variablePay: (income: RecurringIncome) => number;
+  /** Multiplier on a day's food spending */
+  food: (date: Date) => number;
+  /** Multiplier on the fuel price on a day */
+  fuelPrice: (date: Date) => number;
+}
+
+export interface ProjectionOptions {
+  /** Variable income outcome to project (default: 'expected') */
+  incomeScenario?: IncomeScenario;
+  /** Random variation for a simulated run (default: none, amounts are fixed) */
+  sampler?: ProjectionSampler;
+}
+
+/** Scale every part of an earnings split by a factor. */
+export function scaleEarnings(earnings: EarningsBreakdown, factor: number): EarningsBreakdown {
+  if (factor === 1) return earnings;
+  return {
+    regular: earnings.regular * factor,
+    overtime: earnings.overtime * factor,
+    differential: earnings.differential * factor,
+  };
+}
+
+/** First day of the projection: the config's start date, or today by default. */
+export function projectionStart(config: Pick<BudgetConfig, 'startDate'>): Date {
+  if (config.startDate) {
+    const start = parseISO(config.startDate);
+    if (isValid(start)) return startOfDay(start);
   }
+  return startOfDay(new Date());
 }
 
-/**
- * Check if a given date is a regular payday and within the incomes date range.
- */
-function isPayday(date: Date, income: RecurringIncome): boolean {
-  if (income.endDate) {
-    const endDate = startOfDay(parseISO(income.endDate));
-    if (startOfDay(date) > endDate) return false;
+/** First and last day of the projection. */
+export function projectionRange(config: Pick<BudgetConfig, 'startDate' | 'projectionMonths'>): {
+  start: Date;
+  end: Date;
+} {
+  const start = projectionStart(config);
+  return { start, end: startOfDay(addMonths(start, config.projectionMonths)) };
+}
+
+/** Whether any enabled variable income has a range, so low/high projections differ. */
+export function hasIncomeRange(config: BudgetConfig): boolean {
+  return config.recurringIncomes.some((income) => income.enabled !== false && hasPayRange(income));
+}
+
+/** A paycheck deposited on a projected day */
+interface PaycheckOccurrence {
+  income: RecurringIncome;
+  /** Scheduled payday it pays for, or null for the partial final paycheck */
+  payday: Date | null;
+}
+
+/** Recurring incomes and expenses on one projected day, in the order they are applied */
+interface DayItems {
+  paychecks: PaycheckOccurrence[];
+  expenses: RecurringExpense[];
+}
+
+/** Group dated items by their ISO date, keeping config order within a day. */
+function groupByDate<T extends { date: string; enabled?: boolean }>(items: T[]): Map<string, T[]> {
+  const byDate = new Map<string, T[]>();
+  for (const item of items) {
+    if (item.enabled === false) continue;
+    const group = byDate.get(item.date);
+    if (group) group.push(item);
+    else byDate.set(item.date, [item]);
   }
-  return isRegularPayday(date, income);
+  return byDate;
 }
 
 /**
- * Calculate a pro-rated partial paycheck amount for an end date
- * that doesn't fall on a regular payday.
- * Returns 0 if the end date IS a regular payday (no partial needed).
+ * Expand every recurring income and expense into its occurrence dates over
+ * the projection, indexed by day (0 = today). Days without any are empty.
  */
-function partialPaycheckAmount(income: RecurringIncome): number {
-  if (!income.endDate) return 0;
-  const endDate = startOfDay(parseISO(income.endDate));
-
-  // If the end date is a regular payday, no partial needed
-  if (isRegularPayday(endDate, income)) return 0;
-
-  const fullAmount = paycheckAmount(income);
-
-  switch (income.frequency) {
-    case 'weekly': {
-      // Find how many days into the current week period
-      const anchor = startOfDay(parseISO(income.startDate));
-      const daysDiff = differenceInCalendarDays(endDate, anchor);
-      if (daysDiff < 0) return 0;
-      const daysIntoPeriod = daysDiff % 7;
-      return (daysIntoPeriod / 7) * fullAmount;
+function indexRecurringItems(
+  config: BudgetConfig,
+  today: Date,
+  endDate: Date,
+  holidays: HolidayCalendar
+): (DayItems | undefined)[] {
+  const totalDays = differenceInCalendarDays(endDate, today);
+  const days: (DayItems | undefined)[] = new Array(totalDays + 1);
+  const itemsOn = (date: Date): DayItems => {
+    const i = daysBetweenMidnights(date, today);
+    return (days[i] ??= { paychecks: [], expenses: [] });
+  };
+
+  // Each income's regular paycheck comes before its partial one on the same day
+  for (const income of config.recurringIncomes) {
+    if (income.enabled === false) continue;
+    for (const { date, scheduled } of regularPaychecksBetween(income, today, endDate, holidays)) {
+      itemsOn(date).paychecks.push({ income, payday: scheduled });
     }
-    case 'biweekly': {
-      const anchor = startOfDay(parseISO(income.startDate));
-      const daysDiff = differenceInCalendarDays(endDate, anchor);
-      if (daysDiff < 0) return 0;
-      const daysIntoPeriod = daysDiff % 14;
-      return (daysIntoPeriod / 14) * fullAmount;
+    for (const date of partialPaydaysBetween(income, today, endDate, holidays)) {
+      itemsOn(date).paychecks.push({ income, payday: null });
     }
-    case 'monthly': {
-      // Find the previous payday and next payday to get period length
-      const anchorDay = getDate(parseISO(income.startDate));
-      const endMonth = endDate;
-
-      // Previous payday: same day-of-month in the current or prior month
-      let prevPayday: Date;
-      if (getDate(endMonth) >= anchorDay) {
-        prevPayday = new Date(endMonth.getFullYear(), endMonth.getMonth(), anchorDay);
-      } else {
-        const prevMonth = subMonths(endMonth, 1);
-        prevPayday = new Date(prevMonth.getFullYear(), prevMonth.getMonth(), anchorDay);
-      }
-      // Next payday
-      const nextPayday = addMonths(prevPayday, 1);
-
-      const periodLength = differenceInCalendarDays(nextPayday, prevPayday);
-      const daysIntoPeriod = differenceInCalendarDays(endDate, prevPayday);
+  }
 
-      if (periodLength <= 0 || daysIntoPeriod <= 0) return 0;
-      return (daysIntoPeriod / periodLength) * fullAmount;
+  for (const expense of config.recurringExpenses) {
+    if (expense.enabled === false) continue;
+    for (const { date } of expenseOccurrencesBetween(expense, today, endDate, holidays)) {
+      itemsOn(date).expenses.push(expense);
     }
-    default:
-      return 0;
   }
+
+  return days;
 }
 
 /**
- * Run the day-by-day budget projection.
- * Returns an array of daily snapshots from today through the projection horizon.
+ * Run the budget projection.
+ * Returns an array of daily snapshots from the start date through the projection horizon.
+ *
+ * Income and expense rules are expanded into their dates once up front, so
+ * the day loop only does per-day work for daily costs like food and
+ * transport. Output matches `runReferenceProjection`.
  */
-export function runProjection(config: BudgetConfig): DailySnapshot[] {
-  const today = startOfDay(new Date());
-  const endDate = startOfDay(addMonths(today, config.projectionMonths));
+export function runProjection(config: BudgetConfig, options: ProjectionOptions = {}): DailySnapshot[] {
+  const scenario = options.incomeScenario ?? 'expected';
+  const sampler = options.sampler;
+  const { start: today, end: endDate } = projectionRange(config);
   const totalDays = differenceInCalendarDays(endDate, today);
 
+  const loanSchedules = (config.studentLoans ?? [])
+    .filter((loan) => loan.enabled !== false)
+    .map((loan) => simulateLoan(loan, today, endDate));
+
+  const holidays = createHolidayCalendar(config.holidays);
+  const recurringByDay = indexRecurringItems(config, today, endDate, holidays);
+  const oneTimeIncomesByDate = groupByDate(config.oneTimeIncomes);
+  const oneTimeExpensesByDate = groupByDate(config.oneTimeExpenses);
+
+  const taxReturn = config.taxReturn?.enabled ? config.taxReturn : null;
+  const taxYears = new Map<number, TaxYearTotals>();
+  // Pay before the start isn't projected, so a year already under way starts
+  // from the pay so far entered, or has no return without it
+  const firstYearTotals = taxReturn && yearToDateTotals(today, taxReturn);
+  if (firstYearTotals) taxYears.set(today.getFullYear(), firstYearTotals);
+  const partialYear = taxReturn && !firstYearTotals ? today.getFullYear() : null;
+  // Filing date by tax year, looked up once a day
+  const filingDates = new Map<number, string>();
+  const recordPay = (year: number, pay: PaycheckBreakdown) => {
+    const totals = taxYears.get(year) ?? { wages: 0, withheld: 0 };
+    totals.wages += pay.gross - pay.preTax;
+    totals.withheld += pay.federal + pay.state;
+    taxYears.set(year, totals);
+  };
+
+  const food = config.foodBudget;
+  const weekdayFood = food.weekdayBreakfast + food.weekdayLunch + food.weekdayDinner + food.weekdaySnacks;
+  const transport = config.transportConfig;
+
   const snapshots: DailySnapshot[] = [];
   let balance = config.initialBalance;
 
   for (let i = 0; i <= totalDays; i++) {
     const date = addDays(today, i);
-    const dateStr = format(date, 'yyyy-MM-dd');
-    const dom = getDate(date);
+    const dateStr = toISODate(date);
+    const year = date.getFullYear();
     const weekend = isWeekend(date);
 
     let incomeToday = 0;
     let expensesToday = 0;
     const events: DailyEvent[] = [];
 
+    // Every projected year gets a return, even without wages (refundable credits)
+    if (taxReturn && !taxYears.has(year)) {
+      taxYears.set(year, { wages: 0, withheld: 0 });
+    }
+
     // ── Food budget ──
-    if (config.foodBudget.enabled) {
-      if (weekend) {
-        expensesToday += config.foodBudget.weekendDailyTotal;
-      } else {
-        expensesToday +=
-          config.foodBudget.weekdayBreakfast +
-          config.foodBudget.weekdayLunch +
-          config.foodBudget.weekdayDinner +
-          config.foodBudget.weekdaySnacks;
-      }
+    if (food.enabled) {
+      const cost = weekend ? food.weekendDailyTotal : weekdayFood;
+      expensesToday += sampler ? cost * sampler.food(date) : cost;
     }
 
     // ── Transport costs ──
-    if (config.transportConfig.enabled) {
-      if (config.transportConfig.autoEnabled && config.transportConfig.autoMpg > 0) {
-        const miles = weekend
-          ? config.transportConfig.autoWeekendMiles
-          : config.transportConfig.autoWeekdayMiles;
-        const gallons = miles / config.transportConfig.autoMpg;
-        expensesToday += gallons * config.transportConfig.autoFuelCostPerGallon;
+    if (transport.enabled) {
+      if (transport.autoEnabled && transport.autoMpg > 0) {
+        const miles = weekend ? transport.autoWeekendMiles : transport.autoWeekdayMiles;
+        const gallons = miles / transport.autoMpg;
+        const fuelPrice = transport.autoFuelCostPerGallon;
+        expensesToday += gallons * (sampler ? fuelPrice * sampler.fuelPrice(date) : fuelPrice);
       }
-      if (config.transportConfig.publicEnabled) {
+      if (transport.publicEnabled) {
         // Spread weekly cost evenly across 7 days
-        expensesToday += config.transportConfig.publicWeeklyCost / 7;
+        expensesToday += transport.publicWeeklyCost / 7;
       }
     }
 
+    const recurring = recurringByDay[i];
+
     // ── Recurring income ──
-    for (const income of config.recurringIncomes) {
-      if (income.enabled === false) continue;
-      if (isPayday(date, income)) {
-        const amount = paycheckAmount(income);
-        incomeToday += amount;
-        events.push({ label: `${income.label} paycheck`, amount, type: 'income' });
-      }
-      // Emit a pro-rated partial paycheck on the end date if not a regular payday
-      if (income.endDate && dateStr === income.endDate && !isRegularPayday(date, income)) {
-        const amount = partialPaycheckAmount(income);
-        if (amount > 0) {
-          incomeToday += amount;
-          events.push({ label: `${income.label} paycheck (partial)`, amount: Math.round(amount * 100) / 100, type: 'income' });
-        }
+    for (const { income, payday } of recurring?.paychecks ?? []) {
+      // Simulated runs draw each variable paycheck separately
+      const payFactor = sampler && isVariable(income) ? sampler.variablePay(income) : 1;
+      let earnings: EarningsBreakdown;
+      let gross: number;
+      if (payday) {
+        earnings = scaleEarnings(paycheckEarnings(income, payday, scenario), payFactor);
+        gross = totalEarnings(earnings);
+      } else {
+        // Pro-rated partial paycheck on an end date that isn't a regular payday
+        earnings = scaleEarnings(partialPaycheckEarnings(income, scenario), payFactor);
+        const total = totalEarnings(earnings);
+        if (total <= 0) continue;
+        gross = Math.round(total * 100) / 100;
       }
+      const pay = withholdPaycheck(gross, payPeriodsPerYear(income.frequency), income.withholding, income.taxWithholdingRate);
+      incomeToday += pay.net;
+      recordPay(year, pay);
+      const detail = earningsDetail(earnings);
+      events.push({
+        label: payday ? `${income.label} paycheck` : `${income.label} paycheck (partial)`,
+        amount: pay.net,
+        type: 'income',
+        ...(pay.net !== pay.gross && { breakdown: pay }),
+        ...(detail && { earnings: detail }),
+      });
     }
 
     // ── One-time income ──
-    for (const oti of config.oneTimeIncomes) {
-      if (oti.enabled === false) continue;
-      if (oti.date === dateStr) {
-        incomeToday += oti.amount;
-        events.push({ label: oti.label, amount: oti.amount, type: 'income', isOneTime: true });
-      }
+    for (const oti of oneTimeIncomesByDate.get(dateStr) ?? []) {
+      incomeToday += oti.amount;
+      events.push({ label: oti.label, amount: oti.amount, type: 'income', isOneTime: true });
     }
 
     // ── Recurring expenses ──
-    for (const expense of config.recurringExpenses) {
-      if (expense.enabled === false) continue;
-      if (dom === expense.dayOfMonth) {
-        expensesToday += expense.amount;
-        events.push({ label: expense.label, amount: expense.amount, type: 'expense' });
-      }
+    for (const expense of recurring?.expenses ?? []) {
+      expensesToday += expense.amount;
+      events.push({ label: expense.label, amount: expense.amount, type: 'expense' });
     }
 
     // ── One-time expenses ──
-    for (const ote of config.oneTimeExpenses) {
-      if (ote.enabled === false) continue;
-      if (ote.date === dateStr) {
-        expensesToday += ote.amount;
-        events.push({ label: ote.label, amount: ote.amount, type: 'expense', isOneTime: true });
+    for (const ote of oneTimeExpensesByDate.get(dateStr) ?? []) {
+      expensesToday += ote.amount;
+      events.push({ label: ote.label, amount: ote.amount, type: 'expense', isOneTime: true });
+    }
+
+    // ── Tax return for last year's projected paychecks ──
+    if (taxReturn) {
+      const taxYear = year - 1;
+      const totals = taxYears.get(taxYear);
+      let filing = filingDates.get(taxYear);
+      if (filing === undefined) {
+        filing = filingDate(taxYear, taxReturn);
+        filingDates.set(taxYear, filing);
+      }
+      if (totals && taxYear !== partialYear && dateStr === filing) {
+        const { federal, state } = estimateAnnualTax(totals.wages, taxReturn);
+        const refund = Math.round((totals.withheld - federal - state) * 100) / 100;
+        if (refund > 0) {
+          incomeToday += refund;
+          events.push({ label: `Tax refund (${taxYear})`, amount: refund, type: 'income', isOneTime: true });
+        } else if (refund < 0) {
+          expensesToday += -refund;
+          events.push({ label: `Tax payment (${taxYear})`, amount: -refund, type: 'expense', isOneTime: true });
+        }
+      }
+    }
+
+    // ── Student loans ──
+    let liabilities = 0;
+    for (const schedule of loanSchedules) {
+      liabilities += schedule.owed[i] ?? 0;
+      const activity = schedule.activity.get(dateStr);
+      if (activity) {
+        incomeToday += activity.income;
+        expensesToday += activity.expense;
+        events.push(...activity.events);
       }
     }
 
@@ -221,6 +341,7 @@ export function runProjection(config: BudgetConfig): DailySnapshot[] {
       balance: Math.round(balance * 100) / 100,
       incomeToday: Math.round(incomeToday * 100) / 100,
       expensesToday: Math.round(expensesToday * 100) / 100,
+      liabilities: Math.round(liabilities * 100) / 100,
       events,
     });
   }
@@ -228,6 +349,35 @@ export function runProjection(config: BudgetConfig): DailySnapshot[] {
   return snapshots;
 }
 
+/** Pessimistic/optimistic daily balances when variable income has a range */
+export interface BalanceRange {
+  low: number[];
+  high: number[];
+}
+
+/** Everything the dashboard draws from one set of inputs */
+export interface ProjectionResult {
+  snapshots: DailySnapshot[];
+  /** Low/high balances, or null when no income has a range */
+  balanceRange: BalanceRange | null;
+}
+
+/**
+ * Run the expected projection, plus the low and high income scenarios when
+ * variable income has a range.
+ */
+export function projectBudget(config: BudgetConfig): ProjectionResult {
+  const snapshots = runProjection(config);
+  if (!hasIncomeRange(config)) return { snapshots, balanceRange: null };
+  return {
+    snapshots,
+    balanceRange: {
+      low: runProjection(config, { incomeScenario: 'low' }).map((s) => s.balance),
+      high: runProjection(config, { incomeScenario: 'high' }).map((s) => s.balance),
+    },
+  };
+}
+
 /**
  * Find the first date the balance goes negative, if any.
  */
@@ -244,3 +394,53 @@ export function findLowestBalance(snapshots: DailySnapshot[]): DailySnapshot | n
   if (snapshots.length === 0) return null;
   return snapshots.reduce((min, s) => (s.balance < min.balance ? s : min));
 }
+
+/** Headline figures of a projection, as shown on the summary cards */
+export interface ProjectionSummary {
+  /** First day the balance is negative */
+  dangerDate: DailySnapshot | null;
+  lowestPoint: DailySnapshot | null;
+  totalIncome: number;
+  totalExpenses: number;
+  finalBalance: number;
+  /** What is still owed on student loans at the end of the projection */
+  finalLiabilities: number;
+}
+
+export function summarizeProjection(snapshots: DailySnapshot[]): ProjectionSummary {
+  const last = snapshots[snapshots.length - 1];
+  return {
+    dangerDate: findDangerDate(snapshots),
+    lowestPoint: findLowestBalance(snapshots),
+    totalIncome: snapshots.reduce((sum, s) => sum + s.incomeToday, 0),
+    totalExpenses: snapshots.reduce((sum, s) => sum + s.expensesToday, 0),
+    finalBalance: last?.balance ?? 0,
+    finalLiabilities: last?.liabilities ?? 0,
+  };
+}
+
+/** Income and expenses of one calendar month of a projection */
+export interface MonthlyTotals {
+  /** yyyy-MM */
+  month: string;
+  income: number;
+  expenses: number;
+  net: number;
+}
+
+/** Sum a projection's days by calendar month, in date order */
+export function aggregateMonthly(
+  snapshots: Pick<DailySnapshot, 'date' | 'incomeToday' | 'expensesToday'>[]
+): MonthlyTotals[] {
+  const map = new Map<string, { income: number; expenses: number }>();
+
+  for (const s of snapshots) {
+    const monthKey = s.date.slice(0, 7); // "2026-03"
+    const existing = map.get(monthKey) ?? { income: 0, expenses: 0 };
+    existing.income += s.incomeToday;
+    existing.expenses += s.expensesToday;
+    map.set(monthKey, existing);
+  }
+
+  return Array.from(map, ([month, { income, expenses }]) => ({ month, income, expenses, net: income - expenses }));
+}
@@ -0,0 +1,39 @@
+/** Seeded source of uniform random numbers in [0, 1) */
+export type Random = () => number;
+
+/**
+ * Small, fast seeded PRNG (mulberry32). The same seed always gives the same
+ * sequence, so simulations are repeatable.
+ */
+export function createRandom(seed: number): Random {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Uniform draw between `min` and `max`. */
+export function uniform(random: Random, min: number, max: number): number {
+  return min + (max - min) * random();
+}
+
+/** Standard normal draw (Box-Muller). */
+export function standardNormal(random: Random): number {
+  const u = 1 - random(); // (0, 1], keeps log finite
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+/** Triangular draw between `min` and `max`, most likely at `mode`. */
+export function triangular(random: Random, min: number, mode: number, max: number): number {
+  if (max <= min) return min;
+  const peak = Math.min(max, Math.max(min, mode));
+  const u = random();
+  const split = (peak - min) / (max - min);
+  if (u < split) return min + Math.sqrt(u * (max - min) * (peak - min));
+  return max - Math.sqrt((1 - u) * (max - min) * (max - peak));
+}
@@ -0,0 +1,205 @@
+import {
+  addDays,
+  addMonths,
+  differenceInCalendarDays,
+  differenceInCalendarMonths,
+  format,
+  getDate,
+  getDaysInMonth,
+  parseISO,
+  setDate,
+  startOfDay,
+  startOfMonth,
+} from 'date-fns';
+import type { MonthDayRule, Recurrence, RecurrenceUnit } from './types';
+import { describeMonthDay, matchesMonthDay, resolveMonthDay } from './dateRules';
+
+const SINGLE_INTERVAL_LABELS: Record<RecurrenceUnit, string> = {
+  day: 'Daily',
+  week: 'Weekly',
+  month: 'Monthly',
+  year: 'Yearly',
+};
+
+/** Monthly recurrence on `dayOfMonth`, anchored in the month of `reference`. */
+export function monthlyRecurrence(dayOfMonth: number, reference: Date = new Date()): Recurrence {
+  const day = Math.min(Math.max(1, Math.round(dayOfMonth)), getDaysInMonth(reference));
+  return { interval: 1, unit: 'month', anchorDate: format(setDate(reference, day), 'yyyy-MM-dd') };
+}
+
+function stepOf(recurrence: Recurrence): number {
+  return Math.max(1, Math.round(recurrence.interval));
+}
+
+/** Euclidean modulo, so dates before the anchor line up too */
+function mod(value: number, divisor: number): number {
+  return ((value % divisor) + divisor) % divisor;
+}
+
+/** Days between occurrences for day/week units */
+function dayStep(recurrence: Recurrence): number {
+  return stepOf(recurrence) * (recurrence.unit === 'week' ? 7 : 1);
+}
+
+/** Months between occurrences for month/year units */
+function monthStep(recurrence: Recurrence): number {
+  return stepOf(recurrence) * (recurrence.unit === 'year' ? 12 : 1);
+}
+
+/** Day of the month a month/year recurrence falls on */
+function dayRuleOf(recurrence: Recurrence, anchor: Date): MonthDayRule {
+  return recurrence.dayRule ?? getDate(anchor);
+}
+
+/** The k-th month/year occurrence counted from the anchor's month. */
+function monthlyOccurrence(anchor: Date, step: number, k: number, rule: MonthDayRule): Date {
+  const month = addMonths(startOfMonth(anchor), k * step);
+  return resolveMonthDay(month.getFullYear(), month.getMonth(), rule);
+}
+
+/**
+ * Check if a recurrence falls on a given date. The anchor only sets the
+ * phase, so dates before it are matched too.
+ */
+export function occursOn(date: Date, recurrence: Recurrence): boolean {
+  const anchor = startOfDay(parseISO(recurrence.anchorDate));
+  const current = startOfDay(date);
+
+  switch (recurrence.unit) {
+    case 'day':
+    case 'week':
+      return mod(differenceInCalendarDays(current, anchor), dayStep(recurrence)) === 0;
+    case 'month':
+    case 'year':
+      return (
+        mod(differenceInCalendarMonths(current, anchor), monthStep(recurrence)) === 0 &&
+        matchesMonthDay(current, dayRuleOf(recurrence, anchor))
+      );
+    default:
+      return false;
+  }
+}
+
+/** First occurrence on or after `from`. */
+export function nextOccurrence(recurrence: Recurrence, from: Date): Date {
+  const anchor = startOfDay(parseISO(recurrence.anchorDate));
+  const start = startOfDay(from);
+
+  if (recurrence.unit === 'day' || recurrence.unit === 'week') {
+    const step = dayStep(recurrence);
+    return addDays(anchor, Math.ceil(differenceInCalendarDays(start, anchor) / step) * step);
+  }
+
+  // Every month step has exactly one occurrence, so at most one step is skipped
+  const step = monthStep(recurrence);
+  const rule = dayRuleOf(recurrence, anchor);
+  const k = Math.floor(differenceInCalendarMonths(start, anchor) / step);
+  const candidate = monthlyOccurrence(anchor, step, k, rule);
+  return candidate >= start ? candidate : monthlyOccurrence(anchor, step, k + 1, rule);
+}
+
+/** Last occurrence on or before `from`. */
+export function previousOccurrence(recurrence: Recurrence, from: Date): Date {
+  const anchor = startOfDay(parseISO(recurrence.anchorDate));
+  const start = startOfDay(from);
+
+  if (recurrence.unit === 'day' || recurrence.unit === 'week') {
+    const step = dayStep(recurrence);
+    return addDays(anchor, Math.floor(differenceInCalendarDays(start, anchor) / step) * step);
+  }
+
+  const step = monthStep(recurrence);
+  const rule = dayRuleOf(recurrence, anchor);
+  const k = Math.floor(differenceInCalendarMonths(start, anchor) / step);
+  const candidate = monthlyOccurrence(anchor, step, k, rule);
+  return candidate <= start ? candidate : monthlyOccurrence(anchor, step, k - 1, rule);
+}
+
+/** All occurrences from `start` through `end`, inclusive. */
+export function occurrencesBetween(recurrence: Recurrence, start: Date, end: Date): Date[] {
+  const anchor = startOfDay(parseISO(recurrence.anchorDate));
+  const first = startOfDay(start);
+  const last = startOfDay(end);
+  const dates: Date[] = [];
+
+  // Step through occurrences by their index from the anchor, starting at the
+  // first one on or after `start` (as nextOccurrence finds it)
+  if (recurrence.unit === 'day' || recurrence.unit === 'week') {
+    const step = dayStep(recurrence);
+    for (let k = Math.ceil(differenceInCalendarDays(first, anchor) / step); ; k++) {
+      const date = addDays(anchor, k * step);
+      if (date > last) break;
+      dates.push(date);
+    }
+    return dates;
+  }
+
+  const step = monthStep(recurrence);
+  const rule = dayRuleOf(recurrence, anchor);
+  let k = Math.floor(differenceInCalendarMonths(first, anchor) / step);
+  if (monthlyOccurrence(anchor, step, k, rule) < first) k++;
+  for (; ; k++) {
+    const date = monthlyOccurrence(anchor, step, k, rule);
+    if (date > last) break;
+    dates.push(date);
+  }
+  return dates;
+}
+
+/** Average number of occurrences in a year (52-week year for weekly units). */
+export function occurrencesPerYear(recurrence: Recurrence): number {
+  const interval = stepOf(recurrence);
+  switch (recurrence.unit) {
+    case 'day':
+      return 365 / interval;
+    case 'week':
+      return 52 / interval;
+    case 'month':
+      return 12 / interval;
+    case 'year':
+      return 1 / interval;
+    default:
+      return 0;
+  }
+}
+
+/** Whether a recurrence uses a day-of-month rule (month and year units) */
+export function hasMonthDay(recurrence: Recurrence): boolean {
+  return recurrence.unit === 'month' || recurrence.unit === 'year';
+}
+
+/** The day-of-month rule in effect for a month/year recurrence. */
+export function monthDayOf(recurrence: Recurrence): MonthDayRule {
+  return dayRuleOf(recurrence, parseISO(recurrence.anchorDate));
+}
+
+/**
+ * Set the day-of-month rule, moving the anchor onto that day so it stays
+ * an actual occurrence.
+ */
+export function withDayRule(recurrence: Recurrence, rule: MonthDayRule): Recurrence {
+  const anchor = parseISO(recurrence.anchorDate);
+  const resolved = resolveMonthDay(anchor.getFullYear(), anchor.getMonth(), rule);
+  return { ...recurrence, anchorDate: format(resolved, 'yyyy-MM-dd'), dayRule: rule };
+}
+
+/**
+ * Move the anchor to a new date. "Last day" style rules are kept and the
+ * anchor snaps to them; a day number is kept only if the new date agrees
+ * with it, otherwise the new date's day takes over.
+ */
+export function withAnchorDate(recurrence: Recurrence, anchorDate: string): Recurrence {
+  const rule = recurrence.dayRule;
+  if (rule === undefined) return { ...recurrence, anchorDate };
+  if (typeof rule === 'string') return withDayRule({ ...recurrence, anchorDate }, rule);
+  if (matchesMonthDay(parseISO(anchorDate), rule)) return { ...recurrence, anchorDate };
+  return { ...recurrence, anchorDate, dayRule: undefined };
+}
+
+/** Short description such as "Every 2 weeks" or "Monthly on the last day". */
+export function describeRecurrence(recurrence: Recurrence): string {
+  const interval = stepOf(recurrence);
+  const repeat = interval === 1 ? SINGLE_INTERVAL_LABELS[recurrence.unit] : `Every ${interval} ${recurrence.unit}s`;
+  if (!hasMonthDay(recurrence)) return repeat;
+  return `${repeat} on the ${describeMonthDay(monthDayOf(recurrence)).toLowerCase()}`;
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import type { BudgetConfig, RecurringIncome } from './types';
+import { emptyBudget, expense, hourly } from './__tests__/testBudgets';
+import { MAX_HOURS_PER_WEEK, solveMinimumHours, solveMinimumHoursScale } from './solver';
+
+function job(id: string, hoursPerWeek: number, hourlyRate: number): RecurringIncome {
+  return hourly(id, '2025-03-07', { hoursPerWeek, hourlyRate, frequency: 'weekly' });
+}
+
+/** Weekly pay against $8,000 due on the 28th of each month */
+function budget(recurringIncomes: RecurringIncome[]): BudgetConfig {
+  return emptyBudget({
+    projectionMonths: 3,
+    startDate: '2025-03-03',
+    recurringIncomes,
+    recurringExpenses: [expense('rent', 8000, { interval: 1, unit: 'month', anchorDate: '2025-03-28' })],
+  });
+}
+
+describe('solveMinimumHoursScale', () => {
+  it('caps each scaled job at the most hours a week the solver allows', () => {
+    const result = solveMinimumHoursScale(budget([job('cafe', 40, 10), job('tutoring', 4, 100)]), 0)!;
+    expect(result.scale).toBeGreaterThan(2);
+    expect(result.hours.cafe).toBe(MAX_HOURS_PER_WEEK);
+    expect(result.lowestBalance).toBeGreaterThanOrEqual(0);
+  });
+
+  it('leaves out incomes whose hours schedule sets their hours', () => {
+    const scheduled: RecurringIncome = {
+      ...job('lab', 10, 20),
+      hoursSchedule: [{ id: 'term', startDate: '2025-03-01', endDate: '2025-06-30', hoursPerWeek: 10 }],
+    };
+    const config = budget([scheduled, job('cafe', 20, 40)]);
+    expect(solveMinimumHours(config, 'lab', 0)).toBeNull();
+    expect(Object.keys(solveMinimumHoursScale(config, 0)!.hours)).toEqual(['cafe']);
+  });
+});
@@ -0,0 +1,231 @@
+import { addYears, format, parseISO } from 'date-fns';
+import { runProjection, findLowestBalance } from './projection';
+import { isHourly } from './income';
+import type { BudgetConfig, OneTimeIncome, RecurringIncome } from './types';
+
+/** Upper bound for a single job's weekly hours when searching */
+export const MAX_HOURS_PER_WEEK = 80;
+/** Hours suggestions are rounded up to this increment */
+const HOURS_STEP = 0.5;
+/** Upper bound for the all-incomes hours multiplier */
+export const MAX_HOURS_SCALE = 10;
+/** Multiplier suggestions are rounded up to this increment */
+const SCALE_STEP = 0.01;
+/** Label used for loan disbursements inserted as one-time income */
+export const LOAN_DISBURSEMENT_LABEL = 'Student Loan Disbursement';
+
+export interface HoursSuggestion {
+  /** Suggested hoursPerWeek keyed by income id */
+  hours: Record<string, number>;
+  /** Multiplier applied to every enabled income's current hours (scale mode only) */
+  scale?: number;
+  /** Lowest projected balance with the suggestion applied */
+  lowestBalance: number;
+}
+
+/**
+ * Whether the solver can set an income's hours: it must be hourly, with no
+ * hours schedule, since schedule segments take priority over its hours.
+ */
+export function hasAdjustableHours(income: RecurringIncome): boolean {
+  return isHourly(income) && !income.hoursSchedule?.length;
+}
+
+/** Round hours up to the nearest HOURS_STEP so rounding never breaks the floor. */
+function ceilHours(hours: number): number {
+  return Math.ceil(hours / HOURS_STEP - 1e-9) * HOURS_STEP;
+}
+
+/**
+ * Find the smallest step index in [0, maxSteps] for which `holds` is true.
+ * Assumes `holds` is monotone (once true, stays true for larger steps).
+ * Returns null when even the largest step fails.
+ */
+function findMinimumStep(maxSteps: number, holds: (step: number) => boolean): number | null {
+  if (!holds(maxSteps)) return null;
+  let lo = 0;
+  let hi = maxSteps;
+  while (lo < hi) {
+    const mid = Math.floor((lo + hi) / 2);
+    if (holds(mid)) {
+      hi = mid;
+    } else {
+      lo = mid + 1;
+    }
+  }
+  return lo;
+}
+
+/** Lowest balance of a projection with the given hours applied. */
+function lowestWithHours(config: BudgetConfig, hours: Record<string, number>): number {
+  const recurringIncomes: RecurringIncome[] = config.recurringIncomes.map((income) =>
+    income.id in hours ? { ...income, hoursPerWeek: hours[income.id]! } : income
+  );
+  const lowest = findLowestBalance(runProjection({ ...config, recurringIncomes }));
+  return lowest ? lowest.balance : config.initialBalance;
+}
+
+/**
+ * Find the fewest weekly hours for one hourly income without an hours
+ * schedule that keep the balance at or above `floor` for the whole
+ * projection. Returns null if even MAX_HOURS_PER_WEEK isn't enough.
+ */
+export function solveMinimumHours(
+  config: BudgetConfig,
+  incomeId: string,
+  floor: number
+): HoursSuggestion | null {
+  if (!config.recurringIncomes.some((i) => i.id === incomeId && hasAdjustableHours(i))) return null;
+
+  const hoursAt = (step: number) => ({ [incomeId]: step * HOURS_STEP });
+  const step = findMinimumStep(Math.round(MAX_HOURS_PER_WEEK / HOURS_STEP), (s) =>
+    lowestWithHours(config, hoursAt(s)) >= floor
+  );
+  if (step === null) return null;
+
+  const hours = hoursAt(step);
+  return { hours, lowestBalance: lowestWithHours(config, hours) };
+}
+
+/**
+ * Find the smallest multiplier on every enabled hourly income's hours that keeps the
+ * balance at or above `floor`. Incomes with an hours schedule are left out.
+ * Each scaled value is rounded up to the nearest half hour and capped at
+ * MAX_HOURS_PER_WEEK. Returns null if no enabled income has hours to scale
+ * or even MAX_HOURS_SCALE isn't enough.
+ */
+export function solveMinimumHoursScale(config: BudgetConfig, floor: number): HoursSuggestion | null {
+  const scalable = config.recurringIncomes.filter(
+    (i) => i.enabled !== false && hasAdjustableHours(i) && i.hoursPerWeek > 0
+  );
+  if (scalable.length === 0) return null;
+
+  const hoursAt = (step: number) =>
+    Object.fromEntries(
+      scalable.map((i) => [i.id, Math.min(MAX_HOURS_PER_WEEK, ceilHours(i.hoursPerWeek * step * SCALE_STEP))])
+    );
+  const step = findMinimumStep(Math.round(MAX_HOURS_SCALE / SCALE_STEP), (s) =>
+    lowestWithHours(config, hoursAt(s)) >= floor
+  );
+  if (step === null) return null;
+
+  const hours = hoursAt(step);
+  return {
+    hours,
+    scale: Math.round(step * SCALE_STEP * 100) / 100,
+    lowestBalance: lowestWithHours(config, hours),
+  };
+}
+
+export interface LoanDisbursementSuggestion {
+  date: string; // ISO date string
+  amount: number;
+}
+
+export interface LoanSuggestion {
+  /** Disbursements in date order; empty when no loan is needed */
+  disbursements: LoanDisbursementSuggestion[];
+  total: number;
+  /** Lowest projected balance with the disbursements added */
+  lowestBalance: number;
+}
+
+export interface LoanSolverOptions {
+  /** Safety buffer: the balance must stay at or above this on every day */
+  buffer: number;
+  /**
+   * Dates a disbursement may land on (e.g. semester starts). A shortfall
+   * before the first date, or an empty list, adds a disbursement on the
+   * first projected day.
+   */
+  disbursementDates?: string[];
+  /** Round each disbursement up to a multiple of this amount (default: 1) */
+  roundTo?: number;
+}
+
+/**
+ * Expand anchor dates (e.g. fall and spring semester starts) into every
+ * yearly repeat of their month/day that falls within [start, end].
+ */
+export function annualDatesInRange(anchors: string[], start: string, end: string): string[] {
+  const dates = new Set<string>();
+  const startYear = parseISO(start).getFullYear();
+  for (const anchor of anchors) {
+    const anchorDate = parseISO(anchor);
+    let d = addYears(anchorDate, startYear - anchorDate.getFullYear() - 1);
+    let ds = format(d, 'yyyy-MM-dd');
+    while (ds <= end) {
+      if (ds >= start) dates.add(ds);
+      d = addYears(d, 1);
+      ds = format(d, 'yyyy-MM-dd');
+    }
+  }
+  return Array.from(dates).sort();
+}
+
+/**
+ * Find the smallest loan disbursements that keep the balance at or above
+ * `buffer` for the whole projection. Each disbursement covers the deepest
+ * shortfall between its date and the next disbursement date, so later
+ * disbursements only borrow what earlier ones didn't already cover.
+ */
+export function solveLoanAmount(config: BudgetConfig, options: LoanSolverOptions): LoanSuggestion {
+  const { buffer, roundTo = 1 } = options;
+  const snapshots = runProjection(config);
+  const empty: LoanSuggestion = {
+    disbursements: [],
+    total: 0,
+    lowestBalance: findLowestBalance(snapshots)?.balance ?? config.initialBalance,
+  };
+  if (snapshots.length === 0) return empty;
+
+  const firstDay = snapshots[0]!.date;
+  const lastDay = snapshots[snapshots.length - 1]!.date;
+  const dates = Array.from(new Set(options.disbursementDates ?? []))
+    .filter((d) => d > firstDay && d <= lastDay)
+    .sort();
+  dates.unshift(firstDay);
+
+  const disbursements: LoanDisbursementSuggestion[] = [];
+  let borrowed = 0;
+  let windowIdx = 0;
+  let windowMin = Infinity;
+
+  const closeWindow = () => {
+    const shortfall = buffer - (windowMin + borrowed);
+    if (shortfall > 0) {
+      const amount = Math.ceil(shortfall / roundTo - 1e-9) * roundTo;
+      disbursements.push({ date: dates[windowIdx]!, amount });
+      borrowed += amount;
+    }
+  };
+
+  for (const s of snapshots) {
+    // Advance to the window this day belongs to
+    while (windowIdx + 1 < dates.length && s.date >= dates[windowIdx + 1]!) {
+      closeWindow();
+      windowIdx++;
+      windowMin = Infinity;
+    }
+    windowMin = Math.min(windowMin, s.balance);
+  }
+  closeWindow();
+
+  if (disbursements.length === 0) return empty;
+
+  const loanIncomes: OneTimeIncome[] = disbursements.map((d, i) => ({
+    id: `loan-${i}`,
+    label: LOAN_DISBURSEMENT_LABEL,
+    amount: d.amount,
+    date: d.date,
+  }));
+  const lowest = findLowestBalance(
+    runProjection({ ...config, oneTimeIncomes: [...config.oneTimeIncomes, ...loanIncomes] })
+  );
+  return {
+    disbursements,
+    total: borrowed,
+    lowestBalance: lowest ? lowest.balance : config.initialBalance,
+  };
+}
+
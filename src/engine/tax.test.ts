@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import type { WithholdingConfig } from './types';
+import { withholdPaycheck } from './tax';
+
+const WITHHOLDING: WithholdingConfig = {
+  enabled: true,
+  filingStatus: 'single',
+  dependentsCredit: 0,
+  extraWithholding: 50,
+  ficaExempt: false,
+  stateRate: 60,
+  preTaxDeductions: 0,
+};
+
+describe('withholdPaycheck', () => {
+  it('scales each part down when withholding would take more than the paycheck', () => {
+    // $50 extra federal, $7.65 FICA and $60 state against $100 of wages
+    const pay = withholdPaycheck(100, 52, WITHHOLDING);
+    expect(pay).toEqual({ gross: 100, preTax: 0, federal: 42.5, fica: 6.5, state: 51, net: 0 });
+    expect(pay.federal + pay.fica + pay.state).toBeCloseTo(100, 10);
+  });
+
+  it('leaves withholding alone when the paycheck covers it', () => {
+    expect(withholdPaycheck(1000, 52, { ...WITHHOLDING, extraWithholding: 0, stateRate: 5 })).toMatchObject({
+      fica: 76.5,
+      state: 50,
+    });
+  });
+});
@@ -0,0 +1,193 @@
+import { getDayOfYear } from 'date-fns';
+import type { FilingStatus, PaycheckBreakdown, TaxReturnConfig, WithholdingConfig } from './types';
+
+// ── Federal tables (2025 tax year) ──
+
+interface TaxBracket {
+  /** Upper edge of the bracket (taxable income) */
+  upTo: number;
+  /** Marginal rate as a fraction */
+  rate: number;
+}
+
+export const FEDERAL_BRACKETS: Record<FilingStatus, TaxBracket[]> = {
+  single: [
+    { upTo: 11_925, rate: 0.10 },
+    { upTo: 48_475, rate: 0.12 },
+    { upTo: 103_350, rate: 0.22 },
+    { upTo: 197_300, rate: 0.24 },
+    { upTo: 250_525, rate: 0.32 },
+    { upTo: 626_350, rate: 0.35 },
+    { upTo: Infinity, rate: 0.37 },
+  ],
+  married: [
+    { upTo: 23_850, rate: 0.10 },
+    { upTo: 96_950, rate: 0.12 },
+    { upTo: 206_700, rate: 0.22 },
+    { upTo: 394_600, rate: 0.24 },
+    { upTo: 501_050, rate: 0.32 },
+    { upTo: 751_600, rate: 0.35 },
+    { upTo: Infinity, rate: 0.37 },
+  ],
+};
+
+export const STANDARD_DEDUCTION: Record<FilingStatus, number> = {
+  single: 15_750,
+  married: 31_500,
+};
+
+/** Social Security (6.2%) + Medicare (1.45%) employee share */
+export const FICA_RATE = 0.0765;
+
+/** Maximum American Opportunity Tax Credit per student */
+export const AOTC_MAX = 2_500;
+/** Share of the AOTC that is refundable */
+export const AOTC_REFUNDABLE_SHARE = 0.4;
+
+/** Defaults applied when withholding is first turned on for an income */
+export const DEFAULT_WITHHOLDING: WithholdingConfig = {
+  enabled: true,
+  filingStatus: 'single',
+  dependentsCredit: 0,
+  extraWithholding: 0,
+  ficaExempt: false,
+  stateRate: 4,
+  preTaxDeductions: 0,
+};
+
+/** Defaults for the yearly tax return estimate (filed mid-April, disabled) */
+export const DEFAULT_TAX_RETURN: TaxReturnConfig = {
+  enabled: false,
+  filingStatus: 'single',
+  stateRate: 4,
+  filingMonth: 4,
+  filingDay: 15,
+  aotcAmount: 0,
+  otherEducationCredits: 0,
+};
+
+/**
+ * Wages and withholding the tax year a projection starts in already has on
+ * its first day: nothing on January 1st, otherwise the pay so far entered.
+ * Null when that year is under way and its pay so far isn't entered, so its
+ * return can't be estimated.
+ */
+export function yearToDateTotals(
+  start: Date,
+  taxReturn: TaxReturnConfig
+): { wages: number; withheld: number } | null {
+  if (getDayOfYear(start) === 1) return { wages: 0, withheld: 0 };
+  if (taxReturn.yearToDateWages === undefined) return null;
+  return { wages: taxReturn.yearToDateWages, withheld: taxReturn.yearToDateWithheld ?? 0 };
+}
+
+function roundCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Federal income tax on a year's taxable income (after deductions).
+ */
+export function federalIncomeTax(taxableIncome: number, status: FilingStatus): number {
+  let tax = 0;
+  let lower = 0;
+  for (const bracket of FEDERAL_BRACKETS[status]) {
+    if (taxableIncome <= lower) break;
+    tax += (Math.min(taxableIncome, bracket.upTo) - lower) * bracket.rate;
+    lower = bracket.upTo;
+  }
+  return tax;
+}
+
+/**
+ * Split one paycheck's gross pay into withholding and take-home pay.
+ *
+ * Federal withholding follows the annualized percentage method: the
+ * paycheck is scaled to a full year, the standard deduction and bracket
+ * tax are applied, W-4 dependent credits are subtracted, and the result is
+ * divided back per paycheck. Pre-tax deductions reduce income-tax wages
+ * only; FICA is taken on gross pay. The Social Security wage base is
+ * ignored since student wages don't reach it.
+ *
+ * Without a withholding setup, `flatRate` (%) of gross is withheld for
+ * income tax instead.
+ */
+export function withholdPaycheck(
+  gross: number,
+  periodsPerYear: number,
+  withholding: WithholdingConfig | undefined,
+  flatRate = 0
+): PaycheckBreakdown {
+  if (gross <= 0) {
+    return { gross, preTax: 0, federal: 0, fica: 0, state: 0, net: gross };
+  }
+  if (!withholding?.enabled) {
+    // Flat-rate fallback: a single income tax percentage, no FICA or deductions
+    const federal = roundCents(gross * (Math.min(100, Math.max(0, flatRate)) / 100));
+    return { gross, preTax: 0, federal, fica: 0, state: 0, net: gross - federal };
+  }
+
+  const preTax = Math.min(gross, withholding.preTaxDeductions);
+  const taxableWages = gross - preTax;
+
+  const annualTaxable = Math.max(
+    0,
+    taxableWages * periodsPerYear - STANDARD_DEDUCTION[withholding.filingStatus]
+  );
+  const annualFederal = Math.max(
+    0,
+    federalIncomeTax(annualTaxable, withholding.filingStatus) - withholding.dependentsCredit
+  );
+  const federal = roundCents(annualFederal / periodsPerYear + withholding.extraWithholding);
+  const fica = withholding.ficaExempt ? 0 : roundCents(gross * FICA_RATE);
+  const state = roundCents(taxableWages * (withholding.stateRate / 100));
+
+  // Withholding can never exceed what's left of the paycheck, so scale each part down to fit
+  const withheld = federal + fica + state;
+  if (withheld > taxableWages) {
+    const scale = taxableWages / withheld;
+    const scaledFederal = roundCents(federal * scale);
+    const scaledFica = roundCents(fica * scale);
+    return {
+      gross,
+      preTax,
+      federal: scaledFederal,
+      fica: scaledFica,
+      state: roundCents(taxableWages - scaledFederal - scaledFica),
+      net: 0,
+    };
+  }
+  return {
+    gross,
+    preTax,
+    federal,
+    fica,
+    state,
+    net: roundCents(taxableWages - withheld),
+  };
+}
+
+export interface AnnualTaxEstimate {
+  /** Federal income tax after credits; negative when refundable credits exceed the tax */
+  federal: number;
+  state: number;
+}
+
+/**
+ * Estimate a calendar year's federal and state income tax on taxable wages.
+ * The nonrefundable part of the AOTC and other education credits can only
+ * bring federal tax to zero; the refundable part is paid out beyond that.
+ */
+export function estimateAnnualTax(wages: number, taxReturn: TaxReturnConfig): AnnualTaxEstimate {
+  const taxable = Math.max(0, wages - STANDARD_DEDUCTION[taxReturn.filingStatus]);
+  const tax = federalIncomeTax(taxable, taxReturn.filingStatus);
+
+  const aotc = Math.min(AOTC_MAX, Math.max(0, taxReturn.aotcAmount));
+  const refundable = aotc * AOTC_REFUNDABLE_SHARE;
+  const nonrefundable = aotc - refundable + Math.max(0, taxReturn.otherEducationCredits);
+
+  return {
+    federal: roundCents(Math.max(0, tax - nonrefundable) - refundable),
+    state: roundCents(Math.max(0, wages) * (taxReturn.stateRate / 100)),
+  };
+}
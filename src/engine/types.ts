@@ -1,17 +1,154 @@
 // ── Frequency types ──
-export type PayFrequency = 'weekly' | 'biweekly' | 'monthly';
+export type PayFrequency = 'weekly' | 'biweekly' | 'semimonthly' | 'monthly';
+
+/** Hourly pay is hours × rate; salary pays a fixed amount each period; variable pay (tips, gig work) varies around an average */
+export type PayType = 'hourly' | 'salary' | 'variable';
+
+/** Which variable income outcome a projection uses: the average, or the low/high end of its range */
+export type IncomeScenario = 'expected' | 'low' | 'high';
+
+export type RecurrenceUnit = 'day' | 'week' | 'month' | 'year';
+
+/** Day of the month: a day number (29-31 roll back in short months), the last day, or the last weekday */
+export type MonthDayRule = number | 'last' | 'last-business';
+
+/** Where a date on a weekend or holiday moves to */
+export type BusinessDayAdjustment = 'none' | 'previous' | 'next';
+
+/** Repeats every `interval` units, in step with `anchorDate` */
+export interface Recurrence {
+  interval: number;
+  unit: RecurrenceUnit;
+  /** Any one occurrence; sets the phase of the repeat */
+  anchorDate: string; // ISO date string
+  /** Day month and year repeats fall on (default: the anchor's day of the month) */
+  dayRule?: MonthDayRule;
+}
+
+// ── Payroll withholding ──
+export type FilingStatus = 'single' | 'married';
+
+/** W-4 style withholding setup used to turn gross pay into take-home pay */
+export interface WithholdingConfig {
+  /** Whether withholding is estimated (when false, gross pay is deposited) */
+  enabled: boolean;
+  /** W-4 Step 1(c) filing status */
+  filingStatus: FilingStatus;
+  /** W-4 Step 3: annual credit for dependents ($) */
+  dependentsCredit: number;
+  /** W-4 Step 4(c): extra federal withholding per paycheck ($) */
+  extraWithholding: number;
+  /** Student FICA exemption: no Social Security or Medicare withheld */
+  ficaExempt: boolean;
+  /** Flat state income tax rate (%) */
+  stateRate: number;
+  /** Pre-tax deductions per paycheck, e.g. retirement or health premiums ($) */
+  preTaxDeductions: number;
+}
+
+/** Annual tax return estimate, filed each year for the previous calendar year */
+export interface TaxReturnConfig {
+  /** Whether a projected refund or balance due is added each year */
+  enabled: boolean;
+  filingStatus: FilingStatus;
+  /** Flat state income tax rate (%) */
+  stateRate: number;
+  /** Month (1-12) and day the refund arrives or the payment is made */
+  filingMonth: number;
+  filingDay: number;
+  /** American Opportunity Tax Credit claimed per year ($, up to 2,500; 40% refundable) */
+  aotcAmount: number;
+  /** Other nonrefundable education credits per year, e.g. Lifetime Learning ($) */
+  otherEducationCredits: number;
+  /**
+   * Taxable wages paid earlier in the year the projection starts ($). When
+   * unset, no return is estimated for a year the projection starts partway through.
+   */
+  yearToDateWages?: number;
+  /** Federal and state income tax withheld from those wages ($) */
+  yearToDateWithheld?: number;
+}
 
 // ── Income ──
+/** Weekly hours worked over a date range, e.g. full time over the summer */
+export interface HoursSegment {
+  id: string;
+  startDate: string; // ISO date string
+  endDate: string; // ISO date string
+  hoursPerWeek: number;
+  /** Hourly rate during the segment (default: the income's hourlyRate) */
+  hourlyRate?: number;
+}
+
+/** Overtime and shift differential pay for hourly incomes */
+export interface OvertimeConfig {
+  /** Whether overtime and differential pay are calculated */
+  enabled: boolean;
+  /** Weekly hours paid at the regular rate before overtime starts */
+  thresholdHours: number;
+  /** Pay multiplier for hours past the threshold, e.g. 1.5 */
+  multiplier: number;
+  /** Weekly hours that earn the shift differential, e.g. night shifts */
+  differentialHours: number;
+  /** Extra pay per differential hour ($) */
+  differentialRate: number;
+}
+
+/** Expected amount and spread of variable pay, per paycheck */
+export interface VariablePayConfig {
+  /** Average gross pay per paycheck ($) */
+  average: number;
+  /** Spread given as a low/high range or a standard deviation */
+  rangeType: 'range' | 'stddev';
+  /** Pessimistic gross pay per paycheck ($), for 'range' */
+  low: number;
+  /** Optimistic gross pay per paycheck ($), for 'range' */
+  high: number;
+  /** Standard deviation of gross pay per paycheck ($), for 'stddev' */
+  stdDev: number;
+}
+
+/** A dated change to an income's pay rate, e.g. a raise after 90 days */
+export interface RateChange {
+  id: string;
+  /** First day the new rate applies, ISO */
+  date: string;
+  /** 'amount' sets a new rate, 'percent' changes the current rate by a percentage */
+  kind: 'amount' | 'percent';
+  /** New rate ($) or % change */
+  value: number;
+}
+
 export interface RecurringIncome {
   id: string;
   label: string;
   hoursPerWeek: number;
   hourlyRate: number;
+  /** Dated hours that replace hoursPerWeek/hourlyRate while they apply, for hourly pay (default: none) */
+  hoursSchedule?: HoursSegment[];
   frequency: PayFrequency;
+  /** Paydays for semimonthly pay (default: 15th and last day of the month) */
+  semimonthlyDays?: [MonthDayRule, MonthDayRule];
+  /** Hourly, fixed salary or variable pay (default: 'hourly') */
+  payType?: PayType;
+  /** Gross pay per paycheck for salaried incomes ($) */
+  salaryAmount?: number;
+  /** Average and range of pay per paycheck for variable incomes */
+  variablePay?: VariablePayConfig;
+  /** Overtime and shift differential for hourly pay (default: none) */
+  overtime?: OvertimeConfig;
+  /** Dated raises to hourlyRate, or salaryAmount for salaried pay (default: none) */
+  rateChanges?: RateChange[];
   /** Anchor date for biweekly pay – the date of a known paycheck */
   startDate: string; // ISO date string
   /** Optional end date for recurring income (e.g., for summer jobs or internships) */
   endDate?: string; // ISO date string
+  /** Move paydays that land on a weekend or holiday (default: 'none') */
+  businessDayAdjustment?: BusinessDayAdjustment;
+  /** Payroll tax withholding (default: none, gross pay is deposited) */
+  withholding?: WithholdingConfig;
+  /** Income tax withheld as a flat % of gross when detailed withholding is off (default: 0) */
+  taxWithholdingRate?: number;
   /** Whether this income is included in the projection (default: true) */
   enabled?: boolean;
 }
@@ -30,8 +167,14 @@ export interface RecurringExpense {
   id: string;
   label: string;
   amount: number;
-  /** Day of the month this expense is due (1-28) */
-  dayOfMonth: number;
+  /** When this expense is due, e.g. every month on the 1st */
+  recurrence: Recurrence;
+  /** Optional first day this expense applies (e.g., a gym membership starting in September) */
+  startDate?: string; // ISO date string
+  /** Optional last day this expense applies (e.g., a lease ending in May) */
+  endDate?: string; // ISO date string
+  /** Move due dates that land on a weekend or holiday (default: 'none') */
+  businessDayAdjustment?: BusinessDayAdjustment;
   /** Whether this expense is included in the projection (default: true) */
   enabled?: boolean;
 }
@@ -73,13 +216,66 @@ export interface TransportConfig {
   publicWeeklyCost: number;
 }
 
+// ── Student Loans ──
+export type LoanInterestType = 'subsidized' | 'unsubsidized';
+
+export interface LoanDisbursement {
+  id: string;
+  date: string; // ISO date string
+  /** Amount borrowed before the origination fee is deducted */
+  amount: number;
+}
+
+export interface StudentLoan {
+  id: string;
+  label: string;
+  /** Subsidized loans accrue no interest until the grace period ends */
+  interestType: LoanInterestType;
+  /** Annual interest rate (%) */
+  interestRate: number;
+  /** Origination fee (%) deducted from each disbursement before it reaches the bank */
+  originationFeePercent: number;
+  disbursements: LoanDisbursement[];
+  /** Date you graduate or leave school; the grace period starts here */
+  graduationDate: string; // ISO date string
+  /** Months after graduation before repayment begins */
+  gracePeriodMonths: number;
+  /** Length of the standard (fixed monthly payment) repayment plan */
+  repaymentYears: number;
+  /** Whether this loan is included in the projection (default: true) */
+  enabled?: boolean;
+}
+
 // ── Projection output ──
+/** Where a paycheck's gross pay went */
+export interface PaycheckBreakdown {
+  gross: number;
+  preTax: number;
+  federal: number;
+  fica: number;
+  state: number;
+  /** Take-home pay deposited to the bank */
+  net: number;
+}
+
+/** Gross pay of a paycheck split by how it was earned */
+export interface EarningsBreakdown {
+  regular: number;
+  overtime: number;
+  differential: number;
+}
+
 export interface DailyEvent {
   label: string;
   amount: number;
-  type: 'income' | 'expense';
+  /** 'liability' events change what is owed without moving cash */
+  type: 'income' | 'expense' | 'liability';
   /** Whether this is a one-time (non-recurring) event */
   isOneTime?: boolean;
+  /** Gross/withheld split for paychecks with withholding enabled */
+  breakdown?: PaycheckBreakdown;
+  /** Regular/overtime/differential split for paychecks with overtime pay */
+  earnings?: EarningsBreakdown;
 }
 
 export interface DailySnapshot {
@@ -87,9 +283,39 @@ export interface DailySnapshot {
   balance: number;
   incomeToday: number;
   expensesToday: number;
+  /** Total owed on student loans at the end of the day */
+  liabilities: number;
   events: DailyEvent[]; // structured events that happened today
 }
 
+// ── Holidays ──
+export interface CustomHoliday {
+  id: string;
+  label: string;
+  date: string; // ISO date string
+}
+
+/** Days that aren't business days, besides weekends */
+export interface HolidayConfig {
+  /** Include the US federal holiday calendar (observed dates) */
+  useFederalHolidays: boolean;
+  /** Extra closures, e.g. a state holiday or a company shutdown */
+  custom: CustomHoliday[];
+}
+
+// ── Monte Carlo ──
+/** Settings for the simulated projection with random variation */
+export interface MonteCarloConfig {
+  /** Whether the simulation runs */
+  enabled: boolean;
+  /** Number of simulated projections */
+  runs: number;
+  /** Daily food spending varies up to ± this % */
+  foodVariation: number;
+  /** Fuel price varies up to ± this %, month to month */
+  fuelPriceVariation: number;
+}
+
 // ── Top-level budget configuration ──
 export interface BudgetConfig {
   initialBalance: number;
@@ -99,5 +325,15 @@ export interface BudgetConfig {
   oneTimeExpenses: OneTimeExpense[];
   foodBudget: FoodBudget;
   transportConfig: TransportConfig;
+  /** Student loans with interest and repayment (default: none) */
+  studentLoans?: StudentLoan[];
+  /** Yearly tax return estimate (default: disabled) */
+  taxReturn?: TaxReturnConfig;
+  /** Holidays used for business-day adjustments (default: US federal holidays) */
+  holidays?: HolidayConfig;
+  /** Monte Carlo simulation of uncertain income and spending (default: disabled) */
+  monteCarlo?: MonteCarloConfig;
   projectionMonths: number; // how many months to project
+  /** First day of the projection, ISO (default: today) */
+  startDate?: string;
 }
@@ -0,0 +1,11 @@
+import { selectBudgetConfig, useBudgetStore } from '@/store/budgetStore';
+import { useShallow } from 'zustand/react/shallow';
+import type { BudgetConfig } from '@/engine/types';
+
+/**
+ * Select the engine-facing BudgetConfig from the store.
+ * Shallow-compared so consumers only re-render when a config field changes.
+ */
+export function useBudgetConfig(): BudgetConfig {
+  return useBudgetStore(useShallow(selectBudgetConfig));
+}
@@ -0,0 +1,73 @@
+import { useEffect, useRef } from 'react';
+import { useBudgetConfig } from './useBudgetConfig';
+import { useProjectionStore } from '@/store/projectionStore';
+import { useMonteCarloStore } from '@/store/monteCarloStore';
+import { createEngineClient, type EngineClient } from '@/workers/engineClient';
+
+/** Wait this long after the last edit before starting a simulation */
+const SIMULATION_DEBOUNCE_MS = 400;
+
+/**
+ * Recompute the projection and Monte Carlo simulation in Web Workers
+ * whenever the inputs change, publishing results to their stores. Runs for
+ * outdated inputs are cancelled. Mount once, near the root.
+ */
+export function useEngine() {
+  const config = useBudgetConfig();
+  const { setResult: setProjection, setLoading } = useProjectionStore.getState();
+  const { setResult: setSimulation, setRunning } = useMonteCarloStore.getState();
+
+  const clientRef = useRef<EngineClient | null>(null);
+  const isFirstRunRef = useRef(true);
+
+  useEffect(() => {
+    const client = createEngineClient();
+    clientRef.current = client;
+    return () => {
+      client.dispose();
+      clientRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    // The store already holds the projection for the initial inputs
+    if (isFirstRunRef.current) {
+      isFirstRunRef.current = false;
+      return;
+    }
+    const client = clientRef.current;
+    if (!client) return;
+
+    setLoading(true);
+    client.run('projection', config).then(
+      (result) => {
+        if (result) setProjection(result);
+      },
+      // Keep showing the last good projection
+      () => setLoading(false)
+    );
+  }, [config, setProjection, setLoading]);
+
+  useEffect(() => {
+    const client = clientRef.current;
+    if (!client) return;
+
+    if (!config.monteCarlo?.enabled) {
+      client.cancel('monteCarlo');
+      setSimulation(null);
+      return;
+    }
+
+    setRunning(true);
+    const timer = setTimeout(() => {
+      client.run('monteCarlo', config).then(
+        (result) => {
+          if (result) setSimulation(result);
+        },
+        () => setRunning(false)
+      );
+    }, SIMULATION_DEBOUNCE_MS);
+
+    return () => clearTimeout(timer);
+  }, [config, setSimulation, setRunning]);
+}
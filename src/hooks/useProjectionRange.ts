@@ -0,0 +1,18 @@
+import { useMemo } from 'react';
+import { format } from 'date-fns';
+import { useBudgetStore } from '@/store/budgetStore';
+import { projectionRange } from '@/engine/projection';
+
+/**
+ * First and last day of the projection, as dates and ISO strings
+ * (`minDate`/`maxDate`) for comparing against item dates.
+ */
+export function useProjectionRange() {
+  const startDate = useBudgetStore((s) => s.startDate);
+  const projectionMonths = useBudgetStore((s) => s.projectionMonths);
+
+  return useMemo(() => {
+    const { start, end } = projectionRange({ startDate, projectionMonths });
+    return { start, end, minDate: format(start, 'yyyy-MM-dd'), maxDate: format(end, 'yyyy-MM-dd') };
+  }, [startDate, projectionMonths]);
+}
@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { parseCsv } from '@/lib/csv';
+import { guessColumnMapping, parseBankAmount, parseBankDate, readTransactions } from './bankCsv';
+
+describe('parseBankDate', () => {
+  it.each([
+    ['2025-03-07', 'ymd', '2025-03-07'],
+    ['03/07/2025', 'mdy', '2025-03-07'],
+    ['3/7/25', 'mdy', '2025-03-07'],
+    ['07.03.2025', 'dmy', '2025-03-07'],
+    ['2025-03-07T00:00:00', 'ymd', '2025-03-07'],
+  ] as const)('reads %s as %s', (value, order, expected) => {
+    expect(parseBankDate(value, order)).toBe(expected);
+  });
+
+  it('rejects dates that do not exist', () => {
+    expect(parseBankDate('02/30/2025', 'mdy')).toBeNull();
+    expect(parseBankDate('13/01/2025', 'mdy')).toBeNull();
+    expect(parseBankDate('Pending', 'mdy')).toBeNull();
+  });
+});
+
+describe('parseBankAmount', () => {
+  it.each([
+    ['-12.50', -12.5],
+    ['$1,234.56', 1234.56],
+    ['($45.00)', -45],
+    ['12.00-', -12],
+    ['-1.234,56 €', -1234.56],
+    ['', null],
+    ['n/a', null],
+  ])('reads %j', (value, expected) => {
+    expect(parseBankAmount(value)).toBe(expected);
+  });
+});
+
+describe('guessColumnMapping', () => {
+  it('maps a signed amount column by its header', () => {
+    const rows = parseCsv(
+      'Posting Date,Description,Amount,Balance\n' +
+        '03/01/2025,RENT OAK APTS,-800.00,200.00\n' +
+        '03/03/2025,ACME PAYROLL,1200.00,1400.00\n' +
+        '03/04/2025,KROGER #12,-54.10,1345.90\n'
+    );
+    expect(guessColumnMapping(rows)).toMatchObject({
+      hasHeader: true,
+      dateColumn: 0,
+      dateOrder: 'mdy',
+      descriptionColumn: 1,
+      amountMode: 'signed',
+      amountColumn: 2,
+      spendingIsPositive: false,
+    });
+  });
+
+  it('maps separate money out and money in columns', () => {
+    const rows = parseCsv('Date,Details,Money Out,Money In\n14/03/2025,Coffee,3.20,\n15/03/2025,Wages,,900.00\n');
+    expect(guessColumnMapping(rows)).toMatchObject({
+      dateOrder: 'dmy',
+      descriptionColumn: 1,
+      amountMode: 'split',
+      debitColumn: 2,
+      creditColumn: 3,
+    });
+  });
+
+  it('guesses from the values when there is no header', () => {
+    const rows = parseCsv('2025-03-01,12.99,NETFLIX.COM\n2025-03-02,40.00,SHELL OIL\n2025-03-05,-100.00,PAYMENT THANK YOU\n');
+    expect(guessColumnMapping(rows)).toMatchObject({
+      hasHeader: false,
+      dateColumn: 0,
+      dateOrder: 'ymd',
+      descriptionColumn: 2,
+      amountColumn: 1,
+      spendingIsPositive: true,
+    });
+  });
+});
+
+describe('readTransactions', () => {
+  it('signs amounts by the mapping and skips unreadable rows', () => {
+    const rows = parseCsv(
+      'Date,Details,Money Out,Money In\n15/03/2025,Wages,,900.00\nPending,Coffee,3.20,\n14/03/2025,Coffee,3.20,\n'
+    );
+    const result = readTransactions(rows, guessColumnMapping(rows));
+    expect(result.transactions).toEqual([
+      { date: '2025-03-14', description: 'Coffee', amount: -3.2 },
+      { date: '2025-03-15', description: 'Wages', amount: 900 },
+    ]);
+    expect(result.skippedLines).toEqual([3]);
+  });
+
+  it('flips card statements that show spending as positive', () => {
+    const rows = parseCsv('2025-03-01,12.99,NETFLIX.COM\n2025-03-05,-100.00,PAYMENT THANK YOU\n');
+    const mapping = { ...guessColumnMapping(rows), spendingIsPositive: true };
+    expect(readTransactions(rows, mapping).transactions.map((t) => t.amount)).toEqual([-12.99, 100]);
+  });
+});
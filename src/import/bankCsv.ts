@@ -0,0 +1,180 @@
+import { format, isValid } from 'date-fns';
+import type { BankTransaction } from './types';
+
+// Reading bank and credit card CSV exports into transactions. Every bank
+// lays its export out differently, so columns are mapped by the user, with
+// a guess from the header row to start from.
+
+/** Order of the day, month and year in the file's dates */
+export type DateOrder = 'ymd' | 'mdy' | 'dmy';
+
+export interface ColumnMapping {
+  /** Whether the first row holds column names */
+  hasHeader: boolean;
+  dateColumn: number;
+  dateOrder: DateOrder;
+  descriptionColumn: number;
+  /** One column of signed amounts, or separate columns for money out and money in */
+  amountMode: 'signed' | 'split';
+  amountColumn: number;
+  /** For signed amounts: spending is positive, as in many credit card exports */
+  spendingIsPositive: boolean;
+  debitColumn: number;
+  creditColumn: number;
+}
+
+export interface ReadTransactionsResult {
+  transactions: BankTransaction[];
+  /** Row numbers (1-based, counting the header) without a readable date or amount */
+  skippedLines: number[];
+}
+
+const DATE_PATTERN = /^(\d{1,4})[-/.](\d{1,2})[-/.](\d{1,4})/;
+
+/** A date in the given order as yyyy-MM-dd, or null if it isn't one */
+export function parseBankDate(value: string, order: DateOrder): string | null {
+  const match = DATE_PATTERN.exec(value.trim());
+  if (!match) return null;
+  const [a, b, c] = [match[1]!, match[2]!, match[3]!];
+  const [y, m, d] = order === 'ymd' ? [a, b, c] : order === 'mdy' ? [c, a, b] : [c, b, a];
+  const year = y.length === 2 ? 2000 + Number(y) : Number(y);
+  const date = new Date(year, Number(m) - 1, Number(d));
+  // Rolled-over dates like 02/30 aren't real dates
+  if (!isValid(date) || date.getMonth() !== Number(m) - 1 || year < 1900) return null;
+  return format(date, 'yyyy-MM-dd');
+}
+
+/**
+ * An amount as a number, or null for empty or unreadable fields. Handles
+ * currency signs, thousands separators, decimal commas and (negative)
+ * amounts in parentheses.
+ */
+export function parseBankAmount(value: string): number | null {
+  let text = value.trim();
+  if (text === '') return null;
+  const negative = /^\(.*\)$/.test(text) || /^-|-$/.test(text.replace(/[^\d.,()-]/g, ''));
+  text = text.replace(/[^\d.,]/g, '');
+  // A comma followed by exactly two digits at the end is a decimal comma
+  if (/,\d{2}$/.test(text)) text = text.replace(/\./g, '').replace(',', '.');
+  else text = text.replace(/,/g, '');
+  if (!/^\d*\.?\d+$/.test(text)) return null;
+  const amount = Number(text);
+  return negative ? -amount : amount;
+}
+
+// Column names for each field, best match first
+const HEADER_PATTERNS = {
+  date: [/date/i, /posted/i],
+  description: [/description/i, /payee|merchant/i, /name|memo|narrative|details/i],
+  amount: [/amount|^value$/i],
+  debit: [/debit|withdrawal|money out|paid out|spent/i],
+  credit: [/credit|deposit|money in|paid in|received/i],
+};
+
+function findColumn(header: string[], patterns: RegExp[], exclude: number[] = []): number {
+  for (const pattern of patterns) {
+    const index = header.findIndex((name, i) => pattern.test(name) && !exclude.includes(i));
+    if (index >= 0) return index;
+  }
+  return -1;
+}
+
+/** Likeliest order of the day, month and year in a list of dates */
+export function guessDateOrder(values: string[]): DateOrder {
+  const parts = values.map((v) => DATE_PATTERN.exec(v.trim())).filter((m) => m !== null);
+  if (parts.some((m) => m[1]!.length === 4)) return 'ymd';
+  if (parts.some((m) => Number(m[1]) > 12)) return 'dmy';
+  return 'mdy';
+}
+
+function share<T>(values: T[], test: (value: T) => boolean): number {
+  return values.length === 0 ? 0 : values.filter(test).length / values.length;
+}
+
+/**
+ * A first guess at the column mapping: from column names when the file has
+ * a header row, otherwise from what the values look like.
+ */
+export function guessColumnMapping(rows: string[][]): ColumnMapping {
+  const first = rows[0] ?? [];
+  const width = Math.max(0, ...rows.slice(0, 20).map((r) => r.length));
+  const sample = (hasHeader: boolean) => rows.slice(hasHeader ? 1 : 0, 50);
+  const column = (hasHeader: boolean, i: number) => sample(hasHeader).map((r) => r[i] ?? '');
+
+  const hasHeader = first.every((cell) => !DATE_PATTERN.test(cell.trim())) && first.some((cell) => /[a-z]/i.test(cell));
+  const columns = Array.from({ length: width }, (_, i) => column(hasHeader, i));
+  const looksLikeDates = (i: number) => share(columns[i]!, (v) => DATE_PATTERN.test(v.trim())) > 0.8;
+  const looksLikeAmounts = (i: number) =>
+    share(columns[i]!.filter((v) => v.trim() !== ''), (v) => parseBankAmount(v) !== null) > 0.8;
+
+  let dateColumn = -1;
+  let descriptionColumn = -1;
+  let amountColumn = -1;
+  let debitColumn = -1;
+  let creditColumn = -1;
+  if (hasHeader) {
+    dateColumn = findColumn(first, HEADER_PATTERNS.date);
+    descriptionColumn = findColumn(first, HEADER_PATTERNS.description);
+    amountColumn = findColumn(first, HEADER_PATTERNS.amount);
+    debitColumn = findColumn(first, HEADER_PATTERNS.debit, [amountColumn]);
+    creditColumn = findColumn(first, HEADER_PATTERNS.credit, [amountColumn, debitColumn]);
+  }
+  const indexes = [...Array(width).keys()];
+  if (dateColumn < 0) dateColumn = Math.max(0, indexes.findIndex(looksLikeDates));
+  if (amountColumn < 0 && (debitColumn < 0 || creditColumn < 0)) {
+    // Balance columns come last, so take the first column of numbers
+    amountColumn = indexes.find((i) => i !== dateColumn && looksLikeAmounts(i)) ?? -1;
+  }
+  if (descriptionColumn < 0) {
+    // The column with the longest text that isn't a date or amount
+    const textLength = (i: number) => columns[i]!.reduce((sum, v) => sum + v.length, 0);
+    const candidates = indexes.filter((i) => i !== dateColumn && i !== amountColumn && !looksLikeAmounts(i));
+    descriptionColumn = candidates.reduce((best, i) => (textLength(i) > textLength(best) ? i : best), candidates[0] ?? 0);
+  }
+
+  const amountMode = amountColumn < 0 ? 'split' : 'signed';
+  // Most lines of a statement are spending, so mostly positive amounts mean spending is positive
+  const amounts = amountMode === 'signed' ? column(hasHeader, amountColumn).map(parseBankAmount) : [];
+  return {
+    hasHeader,
+    dateColumn,
+    dateOrder: guessDateOrder(column(hasHeader, dateColumn)),
+    descriptionColumn,
+    amountMode,
+    amountColumn: Math.max(0, amountColumn),
+    spendingIsPositive: share(amounts.filter((a) => a !== null && a !== 0), (a) => a! > 0) > 0.5,
+    debitColumn: Math.max(0, debitColumn),
+    creditColumn: Math.max(0, creditColumn),
+  };
+}
+
+function rowAmount(row: string[], mapping: ColumnMapping): number | null {
+  if (mapping.amountMode === 'signed') {
+    const amount = parseBankAmount(row[mapping.amountColumn] ?? '');
+    return amount === null ? null : mapping.spendingIsPositive ? -amount : amount;
+  }
+  // Split columns hold sizes; some banks still sign them
+  const debit = parseBankAmount(row[mapping.debitColumn] ?? '');
+  const credit = parseBankAmount(row[mapping.creditColumn] ?? '');
+  if (debit === null && credit === null) return null;
+  return Math.abs(credit ?? 0) - Math.abs(debit ?? 0);
+}
+
+/** The transactions of parsed CSV rows under a column mapping. */
+export function readTransactions(rows: string[][], mapping: ColumnMapping): ReadTransactionsResult {
+  const transactions: BankTransaction[] = [];
+  const skippedLines: number[] = [];
+  rows.forEach((row, i) => {
+    if (i === 0 && mapping.hasHeader) return;
+    const date = parseBankDate(row[mapping.dateColumn] ?? '', mapping.dateOrder);
+    const amount = rowAmount(row, mapping);
+    if (date === null || amount === null) {
+      skippedLines.push(i + 1);
+      return;
+    }
+    const description = (row[mapping.descriptionColumn] ?? '').trim().replace(/\s+/g, ' ');
+    transactions.push({ date, description, amount });
+  });
+  transactions.sort((a, b) => a.date.localeCompare(b.date));
+  return { transactions, skippedLines };
+}
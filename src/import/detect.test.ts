@@ -0,0 +1,163 @@
+import { describe, expect, it } from 'vitest';
+import { addDays, format, isWeekend, lastDayOfMonth } from 'date-fns';
+import type { FoodBudget } from '@/engine/types';
+import { isRegularPayday } from '@/engine/income';
+import type { BankTransaction } from './types';
+import { analyzeStatement, isFoodPurchase, payeeKey, seriesToExpenses, seriesToIncome } from './detect';
+
+const FOOD: FoodBudget = {
+  enabled: false,
+  weekdayBreakfast: 2,
+  weekdayLunch: 4,
+  weekdayDinner: 4,
+  weekdaySnacks: 0,
+  weekendDailyTotal: 20,
+};
+
+function tx(date: Date, description: string, amount: number): BankTransaction {
+  return { date: format(date, 'yyyy-MM-dd'), description, amount };
+}
+
+/** Friday before a weekend date, as payroll moves it */
+function businessDay(date: Date): Date {
+  let d = date;
+  while (isWeekend(d)) d = addDays(d, -1);
+  return d;
+}
+
+// January to April 2025
+function statement(): BankTransaction[] {
+  const t: BankTransaction[] = [];
+  for (let d = new Date(2025, 0, 3); d <= new Date(2025, 3, 30); d = addDays(d, 14)) {
+    t.push(tx(d, `ACME CORP PAYROLL PPD ID: ${d.getDate()}`, 812.4));
+  }
+  for (let d = new Date(2025, 0, 4); d <= new Date(2025, 3, 30); d = addDays(d, 7)) {
+    t.push(tx(d, 'KROGER #123 COLUMBUS OH', -60));
+  }
+  const phone = [45, 58, 61, 48];
+  for (let m = 0; m < 4; m++) {
+    t.push(tx(new Date(2025, m, 1), 'RENT PAYMENT OAK APTS', -800));
+    t.push(tx(new Date(2025, m, 15), `NETFLIX.COM 866-579-${m}172 CA`, -15.49));
+    t.push(tx(new Date(2025, m, 20), 'VERIZON WIRELESS PAYMENTS', -phone[m]!));
+    t.push(tx(businessDay(new Date(2025, m, 15)), 'STATE UNIV DIRECT DEP', 400));
+    t.push(tx(businessDay(lastDayOfMonth(new Date(2025, m, 1))), 'STATE UNIV DIRECT DEP', 400));
+    if (m < 3) t.push(tx(new Date(2025, m, 5), 'PLANET FITNESS', -24.99));
+  }
+  t.push(tx(new Date(2025, 1, 9), 'AMAZON MKTP US*2K4', -31.2));
+  t.push(tx(new Date(2025, 2, 22), 'AMAZON MKTP US*9Q1', -12.99));
+  return t.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+describe('payeeKey', () => {
+  it('drops reference numbers and payment words', () => {
+    expect(payeeKey('ACME CORP PAYROLL PPD ID: 0123')).toBe('ACME CORP PAYROLL');
+    expect(payeeKey('POS DEBIT NETFLIX.COM 866-579-7172 CA')).toBe('NETFLIX');
+    expect(payeeKey('SQ *BLUE BOTTLE COFFEE')).toBe('BLUE BOTTLE COFFEE');
+    expect(payeeKey('AT&T')).toBe('AT&T');
+  });
+});
+
+describe('isFoodPurchase', () => {
+  it('recognizes groceries and restaurants', () => {
+    expect(isFoodPurchase('KROGER #123')).toBe(true);
+    expect(isFoodPurchase("MCDONALD'S F1234")).toBe(true);
+    expect(isFoodPurchase('UBER EATS HELP.UBER.COM')).toBe(true);
+    expect(isFoodPurchase('SHELL OIL 5744')).toBe(false);
+  });
+});
+
+describe('analyzeStatement', () => {
+  const { series, food } = analyzeStatement(statement(), FOOD);
+  const find = (label: string) => series.find((s) => s.label === label)!;
+
+  it('finds each recurring payee once, incomes first', () => {
+    expect(series.map((s) => [s.label, s.kind, s.cadence])).toEqual([
+      ['Acme Corp Payroll', 'income', 'biweekly'],
+      ['State Univ', 'income', 'semimonthly'],
+      ['Rent Oak Apts', 'expense', 'monthly'],
+      ['Verizon Wireless Payments', 'expense', 'monthly'],
+      ['Planet Fitness', 'expense', 'monthly'],
+      ['Netflix', 'expense', 'monthly'],
+    ]);
+  });
+
+  it('flags changing amounts and series that have stopped', () => {
+    expect(find('Verizon Wireless Payments')).toMatchObject({ amount: 53, low: 45, high: 61, variable: true });
+    expect(find('Rent Oak Apts')).toMatchObject({ variable: false, active: true });
+    expect(find('Planet Fitness').active).toBe(false);
+  });
+
+  it('proposes items that repeat on the same schedule', () => {
+    expect(seriesToExpenses(find('Rent Oak Apts'))).toEqual([
+      {
+        label: 'Rent Oak Apts',
+        amount: 800,
+        recurrence: { interval: 1, unit: 'month', anchorDate: '2025-04-01' },
+        enabled: true,
+      },
+    ]);
+    expect(seriesToIncome(find('Acme Corp Payroll'))).toMatchObject({
+      frequency: 'biweekly',
+      payType: 'salary',
+      salaryAmount: 812.4,
+      startDate: '2025-04-25',
+    });
+    // Paid on the 15th and last day, the default semimonthly paydays
+    const campus = seriesToIncome(find('State Univ'));
+    expect(campus).toMatchObject({ frequency: 'semimonthly', salaryAmount: 400 });
+    expect(campus).not.toHaveProperty('semimonthlyDays');
+  });
+
+  it('anchors pay on the last day in a month with 31 days', () => {
+    const dates = ['2025-01-31', '2025-02-28', '2025-03-31', '2025-04-30'];
+    const stipend = analyzeStatement(
+      dates.map((date) => ({ date, description: 'GRAD STIPEND', amount: 1500 })),
+      FOOD
+    ).series[0]!;
+    const income = { id: 'stipend', ...seriesToIncome(stipend) };
+    expect(income).toMatchObject({ frequency: 'monthly', startDate: '2025-03-31' });
+    expect(isRegularPayday(new Date(2025, 4, 31), income)).toBe(true);
+    expect(isRegularPayday(new Date(2025, 5, 30), income)).toBe(true);
+    expect(isRegularPayday(new Date(2025, 6, 30), income)).toBe(false);
+  });
+
+  it('turns a variable series into variable pay', () => {
+    const tips = analyzeStatement(
+      [0, 7, 14, 21].map((days, i) => tx(addDays(new Date(2025, 0, 6), days), 'TIPS POOL', [80, 140, 95, 120][i]!)),
+      FOOD
+    ).series[0]!;
+    expect(seriesToIncome(tips)).toMatchObject({
+      frequency: 'weekly',
+      payType: 'variable',
+      variablePay: { average: 107.5, rangeType: 'range', low: 80, high: 140 },
+    });
+  });
+
+  it('estimates food spending from purchases left out of the recurring search', () => {
+    expect(series.some((s) => s.label.startsWith('Kroger'))).toBe(false);
+    // Every Saturday from Jan 4 to Apr 26; Jan 1 to Apr 30 has 34 weekend days and 86 weekdays
+    expect(food).toMatchObject({ purchases: 17, weekdayDaily: 0, weekendDaily: 30 });
+    expect(food!.budget).toEqual({
+      ...FOOD,
+      enabled: true,
+      weekdayBreakfast: 0,
+      weekdayLunch: 0,
+      weekdayDinner: 0,
+      weekendDailyTotal: 30,
+    });
+  });
+
+  it('offers large transactions outside any series as one-time items', () => {
+    const extras = [tx(new Date(2025, 1, 12), 'JIFFY AUTO REPAIR', -640), tx(new Date(2025, 2, 3), 'IRS TREAS 310 TAX REF', 1500)];
+    const { oneTime } = analyzeStatement([...statement(), ...extras], FOOD);
+    expect(oneTime.map((t) => t.description)).toEqual(['IRS TREAS 310 TAX REF', 'JIFFY AUTO REPAIR']);
+  });
+
+  it('splits weekday food spending like the current budget', () => {
+    const lunches = [6, 7, 8, 9, 10, 13, 14, 15, 16, 17].map((day) => tx(new Date(2025, 0, day), 'CHIPOTLE 1234', -10));
+    // Two full weeks, ending on a Sunday
+    const result = analyzeStatement([...lunches, tx(new Date(2025, 0, 19), 'CITY PARKING', -5)], FOOD).food!;
+    expect(result.weekdayDaily).toBe(10);
+    expect(result.budget).toMatchObject({ weekdayBreakfast: 2, weekdayLunch: 4, weekdayDinner: 4, weekdaySnacks: 0 });
+  });
+});
@@ -0,0 +1,428 @@
+import {
+  differenceInCalendarDays,
+  eachDayOfInterval,
+  format,
+  getDate,
+  getDaysInMonth,
+  isWeekend,
+  parseISO,
+  setDate,
+  startOfMonth,
+  subMonths,
+} from 'date-fns';
+import type {
+  FoodBudget,
+  MonthDayRule,
+  PayFrequency,
+  Recurrence,
+  RecurringExpense,
+  RecurringIncome,
+} from '@/engine/types';
+import { resolveMonthDay } from '@/engine/dateRules';
+import { DEFAULT_SEMIMONTHLY_DAYS } from '@/engine/income';
+import type { BankTransaction } from './types';
+
+// Heuristics that turn a statement into budget items: charges and deposits
+// from the same payee at a steady cadence become recurring items, and food
+// purchases become a daily food budget. Nothing leaves the device.
+
+/** How often a series of transactions repeats */
+export type Cadence = PayFrequency;
+
+/** Transactions from one payee that repeat at a steady cadence */
+export interface RecurringSeries {
+  /** Payee the transactions share, normalized */
+  payee: string;
+  /** Suggested item label */
+  label: string;
+  kind: 'income' | 'expense';
+  cadence: Cadence;
+  /** Days it happened, oldest first */
+  dates: string[];
+  /** Typical (median) amount; always positive */
+  amount: number;
+  low: number;
+  high: number;
+  /** Whether the amount changes too much from one time to the next to call fixed */
+  variable: boolean;
+  /** Usual day of the month, for monthly series; the two paydays for semimonthly ones */
+  monthDays?: MonthDayRule[];
+  /** Whether it was still going at the end of the statement */
+  active: boolean;
+}
+
+/** Average food spending over a statement and a food budget to match it */
+export interface FoodEstimate {
+  purchases: number;
+  weekdayDaily: number;
+  weekendDaily: number;
+  budget: FoodBudget;
+}
+
+export interface StatementAnalysis {
+  series: RecurringSeries[];
+  /** Null when the statement is too short or has no food purchases */
+  food: FoodEstimate | null;
+  /** The largest transactions that don't repeat, e.g. tuition or a refund, biggest first */
+  oneTime: BankTransaction[];
+}
+
+/** Fewest times a payee must appear before it counts as recurring */
+const MIN_OCCURRENCES = 3;
+
+/** Share of gaps between occurrences that must fit a cadence */
+const MIN_REGULAR_SHARE = 0.75;
+
+/** Days between occurrences accepted for each cadence */
+const CADENCE_GAPS: Record<Cadence, [number, number]> = {
+  weekly: [6, 8],
+  biweekly: [13, 15],
+  semimonthly: [12, 19],
+  monthly: [26, 35],
+};
+
+const CADENCE_DAYS: Record<Cadence, number> = { weekly: 7, biweekly: 14, semimonthly: 15, monthly: 30 };
+
+/** Days a date may move for weekends and holidays */
+const DAY_SLACK = 3;
+
+/** Spread of amounts, relative to the typical amount, above which a series is variable */
+const VARIABLE_SPREAD = 0.25;
+
+/** Smallest transaction, either way, offered as a one-time item */
+const MIN_ONE_TIME_AMOUNT = 100;
+
+/** Most one-time items offered */
+const MAX_ONE_TIME_ITEMS = 10;
+
+/** Shortest statement, in days, a food budget is estimated from */
+const MIN_FOOD_DAYS = 14;
+
+// Words in statement descriptions that say how a payment was made rather than who to
+const NOISE_WORDS = new Set(
+  (
+    'POS DEBIT CREDIT CARD PURCHASE CHECKCARD VISA MC ACH PPD CCD WEB ID INDN DES CO ONLINE RECURRING ' +
+    'PAYMENT PMT TRANSFER XFER DIRECT DEP DEPOSIT SQ TST PAYPAL COM WWW INC LLC THE'
+  ).split(' ')
+);
+
+const FOOD_PATTERN = new RegExp(
+  '\\b(' +
+    [
+      'GROCER(Y|IES)',
+      'SUPERMARKET',
+      'MARKET',
+      'FOODS?',
+      'RESTAURANT',
+      'CAFE',
+      'COFFEE',
+      'PIZZA',
+      'BURGERS?',
+      'TACOS?',
+      'SUSHI',
+      'DELI',
+      'BAKERY',
+      'DINER',
+      'GRILL',
+      'KITCHEN',
+      'BISTRO',
+      'DINING',
+      'DOORDASH',
+      'UBER ?EATS',
+      'GRUBHUB',
+      'POSTMATES',
+      'STARBUCKS',
+      'DUNKIN',
+      "MCDONALD'?S?",
+      'CHIPOTLE',
+      'PANERA',
+      'CHICK-?FIL-?A',
+      "DOMINO'?S?",
+      "WENDY'?S?",
+      'KROGER',
+      'SAFEWAY',
+      'PUBLIX',
+      'ALDI',
+      "TRADER JOE'?S?",
+      'WEGMANS',
+      'MEIJER',
+      'H-E-B',
+      'FOOD LION',
+      'SPROUTS',
+    ].join('|') +
+    ')\\b'
+);
+
+/** The payee of a statement description, without card numbers, dates and payment jargon */
+export function payeeKey(description: string): string {
+  const words = description
+    .toUpperCase()
+    .replace(/[^A-Z&]+/g, ' ')
+    .split(' ')
+    .filter((word) => word !== '' && !NOISE_WORDS.has(word));
+  // Leftover state codes and initials only get in the way, unless they're all there is
+  const meaningful = words.filter((word) => word.length > 2);
+  return (meaningful.length > 0 ? meaningful : words).slice(0, 3).join(' ');
+}
+
+/** Whether a description looks like a grocery or restaurant purchase */
+export function isFoodPurchase(description: string): boolean {
+  return FOOD_PATTERN.test(description.toUpperCase());
+}
+
+function titleCase(text: string): string {
+  return text.replace(/\w\S*/g, (word) => word[0] + word.slice(1).toLowerCase());
+}
+
+/** A readable item label for a statement description */
+export function itemLabel(description: string): string {
+  return titleCase(payeeKey(description)) || description;
+}
+
+function share<T>(values: T[], test: (value: T) => boolean): number {
+  return values.length === 0 ? 0 : values.filter(test).length / values.length;
+}
+
+function median(sorted: number[]): number {
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[mid]! : (sorted[mid - 1]! + sorted[mid]!) / 2;
+}
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/** Most common value, the earliest on ties */
+function mode(values: number[]): number {
+  const counts = new Map<number, number>();
+  for (const v of values) counts.set(v, (counts.get(v) ?? 0) + 1);
+  return [...counts].reduce((best, entry) => (entry[1] > best[1] ? entry : best))[0];
+}
+
+/** The day of the month dates keep to, allowing for weekend shifts; null if they don't */
+function monthDayOf(dates: Date[]): MonthDayRule | null {
+  const days = dates.map((d) => getDate(d));
+  const fromEnd = dates.map((d) => getDaysInMonth(d) - getDate(d));
+  if (new Set(days).size > 1 && fromEnd.includes(0) && Math.max(...fromEnd) <= DAY_SLACK) return 'last';
+  if (Math.max(...days) - Math.min(...days) > DAY_SLACK) return null;
+  return mode(days);
+}
+
+/** Two paydays a month: one day in each half of the month */
+function semimonthlyDaysOf(dates: Date[]): [MonthDayRule, MonthDayRule] | null {
+  const firstHalf = dates.filter((d) => getDate(d) <= 15);
+  const secondHalf = dates.filter((d) => getDate(d) > 15);
+  if (firstHalf.length === 0 || secondHalf.length === 0) return null;
+  const first = monthDayOf(firstHalf);
+  const second = monthDayOf(secondHalf);
+  return first !== null && second !== null ? [first, second] : null;
+}
+
+function cadenceOf(dates: Date[]): Cadence | null {
+  const gaps = dates.slice(1).map((date, i) => differenceInCalendarDays(date, dates[i]!));
+  const fits = (cadence: Cadence) => {
+    const [min, max] = CADENCE_GAPS[cadence];
+    return share(gaps, (gap) => gap >= min && gap <= max) >= MIN_REGULAR_SHARE;
+  };
+  if (fits('weekly')) return 'weekly';
+  // Biweekly dates drift through the month, semimonthly ones keep to two days
+  if (fits('semimonthly') && !gaps.every((gap) => gap === 14) && semimonthlyDaysOf(dates)) return 'semimonthly';
+  if (fits('biweekly')) return 'biweekly';
+  if (fits('monthly')) return 'monthly';
+  return null;
+}
+
+/** A series from one payee's transactions, or null if they don't repeat steadily */
+function toSeries(payee: string, kind: RecurringSeries['kind'], group: BankTransaction[], end: Date): RecurringSeries | null {
+  // Several charges on one day count as one occurrence
+  const byDate = new Map<string, number>();
+  for (const t of group) byDate.set(t.date, (byDate.get(t.date) ?? 0) + Math.abs(t.amount));
+  if (byDate.size < MIN_OCCURRENCES) return null;
+
+  const dateKeys = [...byDate.keys()].sort();
+  const dates = dateKeys.map((d) => parseISO(d));
+  const cadence = cadenceOf(dates);
+  if (!cadence) return null;
+
+  const amounts = [...byDate.values()].sort((a, b) => a - b);
+  const amount = roundCents(median(amounts));
+  const low = amounts[0]!;
+  const high = amounts[amounts.length - 1]!;
+  const monthDays =
+    cadence === 'semimonthly'
+      ? semimonthlyDaysOf(dates)!
+      : cadence === 'monthly'
+        ? [monthDayOf(dates)].filter((rule) => rule !== null)
+        : undefined;
+
+  return {
+    payee,
+    label: titleCase(payee),
+    kind,
+    cadence,
+    dates: dateKeys,
+    amount,
+    low,
+    high,
+    variable: amount > 0 && (high - low) / amount > VARIABLE_SPREAD,
+    monthDays: monthDays?.length ? monthDays : undefined,
+    active: differenceInCalendarDays(end, dates[dates.length - 1]!) <= CADENCE_DAYS[cadence] * 1.5 + DAY_SLACK,
+  };
+}
+
+/** Food spending per weekday and weekend day, scaled into the shape of `current` */
+function estimateFood(transactions: BankTransaction[], current: FoodBudget): FoodEstimate | null {
+  const purchases = transactions.filter((t) => t.amount < 0 && isFoodPurchase(t.description));
+  const first = transactions[0];
+  const last = transactions[transactions.length - 1];
+  if (purchases.length === 0 || !first || !last) return null;
+  const days = eachDayOfInterval({ start: parseISO(first.date), end: parseISO(last.date) });
+  if (days.length < MIN_FOOD_DAYS) return null;
+
+  const weekendDays = days.filter((d) => isWeekend(d)).length;
+  const weekdays = days.length - weekendDays;
+  let weekdaySpend = 0;
+  let weekendSpend = 0;
+  for (const p of purchases) {
+    if (isWeekend(parseISO(p.date))) weekendSpend -= p.amount;
+    else weekdaySpend -= p.amount;
+  }
+  const weekdayDaily = roundCents(weekdays > 0 ? weekdaySpend / weekdays : 0);
+  const weekendDaily = roundCents(weekendDays > 0 ? weekendSpend / weekendDays : 0);
+
+  // Keep the current split between meals; split evenly if there isn't one
+  const meals = ['weekdayBreakfast', 'weekdayLunch', 'weekdayDinner', 'weekdaySnacks'] as const;
+  const currentTotal = meals.reduce((sum, meal) => sum + current[meal], 0);
+  const budget: FoodBudget = { ...current, enabled: true, weekendDailyTotal: weekendDaily };
+  for (const meal of meals) {
+    const weight = currentTotal > 0 ? current[meal] / currentTotal : 1 / meals.length;
+    budget[meal] = roundCents(weekdayDaily * weight);
+  }
+  return { purchases: purchases.length, weekdayDaily, weekendDaily, budget };
+}
+
+/**
+ * Find recurring deposits and charges in a statement (sorted by date) and
+ * estimate food spending. Food purchases are left out of the recurring
+ * search so a weekly grocery run isn't proposed as an expense.
+ */
+export function analyzeStatement(transactions: BankTransaction[], currentFood: FoodBudget): StatementAnalysis {
+  const last = transactions[transactions.length - 1];
+  if (!last) return { series: [], food: null, oneTime: [] };
+  const end = parseISO(last.date);
+
+  const groups = new Map<string, { payee: string; kind: RecurringSeries['kind']; transactions: BankTransaction[] }>();
+  for (const t of transactions) {
+    const kind = t.amount > 0 ? 'income' : 'expense';
+    if (t.amount === 0 || (kind === 'expense' && isFoodPurchase(t.description))) continue;
+    const payee = payeeKey(t.description);
+    if (payee === '') continue;
+    const key = `${kind}:${payee}`;
+    const group = groups.get(key) ?? { payee, kind, transactions: [] };
+    group.transactions.push(t);
+    groups.set(key, group);
+  }
+
+  const series: RecurringSeries[] = [];
+  const inSeries = new Set<BankTransaction>();
+  for (const group of groups.values()) {
+    const found = toSeries(group.payee, group.kind, group.transactions, end);
+    if (!found) continue;
+    series.push(found);
+    group.transactions.forEach((t) => inSeries.add(t));
+  }
+  series.sort((a, b) => (a.kind === b.kind ? b.amount - a.amount : a.kind === 'income' ? -1 : 1));
+
+  const oneTime = transactions
+    .filter((t) => !inSeries.has(t) && Math.abs(t.amount) >= MIN_ONE_TIME_AMOUNT && !isFoodPurchase(t.description))
+    .sort((a, b) => Math.abs(b.amount) - Math.abs(a.amount))
+    .slice(0, MAX_ONE_TIME_ITEMS);
+  return { series, food: estimateFood(transactions, currentFood), oneTime };
+}
+
+/** The latest date on a monthly series' usual day, so the item's anchor sets that day */
+function monthlyAnchor(series: RecurringSeries, rule: MonthDayRule | undefined, dates = series.dates): string {
+  const last = parseISO(dates[dates.length - 1]!);
+  if (rule === undefined) return format(last, 'yyyy-MM-dd');
+  return format(resolveMonthDay(last.getFullYear(), last.getMonth(), rule), 'yyyy-MM-dd');
+}
+
+/**
+ * Start date for monthly pay. Incomes have no day rule, so the anchor's day
+ * is the payday: pay on the last day or a late day is anchored in the latest
+ * month that has that day, and shorter months roll back to their last day.
+ */
+function monthlyPayAnchor(series: RecurringSeries): string {
+  const rule = series.monthDays?.[0];
+  const day = rule === 'last' ? 31 : rule;
+  if (typeof day !== 'number') return monthlyAnchor(series, rule);
+  let month = startOfMonth(parseISO(series.dates[series.dates.length - 1]!));
+  while (getDaysInMonth(month) < day) month = subMonths(month, 1);
+  return format(setDate(month, day), 'yyyy-MM-dd');
+}
+
+/** Recurring expenses for a series; a semimonthly charge becomes one per half of the month */
+export function seriesToExpenses(series: RecurringSeries): Omit<RecurringExpense, 'id'>[] {
+  const lastDate = series.dates[series.dates.length - 1]!;
+  const expense = (recurrence: Recurrence): Omit<RecurringExpense, 'id'> => ({
+    label: series.label,
+    amount: series.amount,
+    recurrence,
+    enabled: true,
+  });
+  const monthly = (rule: MonthDayRule | undefined, dates?: string[]): Recurrence => ({
+    interval: 1,
+    unit: 'month',
+    anchorDate: monthlyAnchor(series, rule, dates),
+    // Numbered days are set by the anchor; 'last' needs a rule to follow short months
+    ...(rule === 'last' && { dayRule: rule }),
+  });
+
+  switch (series.cadence) {
+    case 'weekly':
+      return [expense({ interval: 1, unit: 'week', anchorDate: lastDate })];
+    case 'biweekly':
+      return [expense({ interval: 2, unit: 'week', anchorDate: lastDate })];
+    case 'semimonthly':
+      return [
+        expense(monthly(series.monthDays?.[0], series.dates.filter((d) => getDate(parseISO(d)) <= 15))),
+        expense(monthly(series.monthDays?.[1], series.dates.filter((d) => getDate(parseISO(d)) > 15))),
+      ];
+    case 'monthly':
+      return [expense(monthly(series.monthDays?.[0]))];
+  }
+}
+
+/**
+ * A recurring income for a series of deposits. Deposits are take-home pay,
+ * so the income is a salary (or variable pay when the amounts move around)
+ * with no withholding.
+ */
+export function seriesToIncome(series: RecurringSeries): Omit<RecurringIncome, 'id'> {
+  const semimonthlyDays = series.cadence === 'semimonthly' ? series.monthDays : undefined;
+  const isDefaultDays =
+    semimonthlyDays?.[0] === DEFAULT_SEMIMONTHLY_DAYS[0] && semimonthlyDays?.[1] === DEFAULT_SEMIMONTHLY_DAYS[1];
+  return {
+    label: series.label,
+    hoursPerWeek: 0,
+    hourlyRate: 0,
+    frequency: series.cadence,
+    ...(semimonthlyDays?.length === 2 &&
+      !isDefaultDays && { semimonthlyDays: [semimonthlyDays[0]!, semimonthlyDays[1]!] }),
+    ...(series.variable
+      ? {
+          payType: 'variable' as const,
+          variablePay: {
+            average: series.amount,
+            rangeType: 'range' as const,
+            low: series.low,
+            high: series.high,
+            stdDev: roundCents((series.high - series.low) / 4),
+          },
+        }
+      : { payType: 'salary' as const, salaryAmount: series.amount }),
+    // A known payday; monthly pay keeps to its anchor's day of the month
+    startDate: series.cadence === 'monthly' ? monthlyPayAnchor(series) : series.dates[series.dates.length - 1]!,
+    enabled: true,
+  };
+}
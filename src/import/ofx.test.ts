@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { parseOfx } from './ofx';
+
+// Version 1 (SGML) with a checking account and a credit card
+const SGML = `OFXHEADER:100
+DATA:OFXSGML
+VERSION:102
+
+<OFX>
+<BANKMSGSRSV1><STMTTRNRS><STMTRS>
+<CURDEF>USD
+<BANKTRANLIST>
+<DTSTART>20250301
+<STMTTRN>
+<TRNTYPE>CREDIT
+<DTPOSTED>20250314120000.000[-5:EST]
+<TRNAMT>1200.00
+<FITID>2
+<NAME>ACME PAYROLL
+</STMTTRN>
+<STMTTRN>
+<TRNTYPE>DEBIT
+<DTPOSTED>20250301
+<TRNAMT>-800.00
+<FITID>1
+<NAME>
+<MEMO>RENT OAK   APTS
+</STMTTRN>
+</BANKTRANLIST>
+<LEDGERBAL>
+<BALAMT>2150.25
+<DTASOF>20250331
+</LEDGERBAL>
+<AVAILBAL>
+<BALAMT>2000.00
+<DTASOF>20250331
+</AVAILBAL>
+</STMTRS></STMTTRNRS></BANKMSGSRSV1>
+<CREDITCARDMSGSRSV1><CCSTMTTRNRS><CCSTMTRS>
+<BANKTRANLIST>
+<STMTTRN>
+<DTPOSTED>20250305
+<TRNAMT>-42.10
+<NAME>BARNES &amp; NOBLE
+</STMTTRN>
+</BANKTRANLIST>
+<LEDGERBAL>
+<BALAMT>-530.00
+<DTASOF>20250331
+</LEDGERBAL>
+</CCSTMTRS></CCSTMTTRNRS></CREDITCARDMSGSRSV1>
+</OFX>
+`;
+
+// Version 2 (XML) with every tag closed
+const XML = `<?xml version="1.0" encoding="UTF-8"?>
+<?OFX OFXHEADER="200" VERSION="220"?>
+<OFX><BANKMSGSRSV1><STMTTRNRS><STMTRS>
+<BANKTRANLIST>
+<STMTTRN><TRNTYPE>DEBIT</TRNTYPE><DTPOSTED>20250402</DTPOSTED><TRNAMT>-15.49</TRNAMT><NAME>NETFLIX.COM</NAME></STMTTRN>
+</BANKTRANLIST>
+<LEDGERBAL><BALAMT>310.00</BALAMT><DTASOF>20250405</DTASOF></LEDGERBAL>
+</STMTRS></STMTTRNRS></BANKMSGSRSV1></OFX>
+`;
+
+describe('parseOfx', () => {
+  it('reads transactions from every account, oldest first', () => {
+    expect(parseOfx(SGML)!.transactions).toEqual([
+      { date: '2025-03-01', description: 'RENT OAK APTS', amount: -800 },
+      { date: '2025-03-05', description: 'BARNES & NOBLE', amount: -42.1 },
+      { date: '2025-03-14', description: 'ACME PAYROLL', amount: 1200 },
+    ]);
+  });
+
+  it('takes the ledger balance of bank accounts only', () => {
+    expect(parseOfx(SGML)!.balance).toEqual({ amount: 2150.25, date: '2025-03-31' });
+  });
+
+  it('reads XML files', () => {
+    expect(parseOfx(XML)).toEqual({
+      transactions: [{ date: '2025-04-02', description: 'NETFLIX.COM', amount: -15.49 }],
+      balance: { amount: 310, date: '2025-04-05' },
+    });
+  });
+
+  it('skips transactions dated on days that do not exist', () => {
+    const text = XML.replace('<DTPOSTED>20250402</DTPOSTED>', '<DTPOSTED>20250399</DTPOSTED>');
+    expect(parseOfx(text)!.transactions).toEqual([]);
+  });
+
+  it('returns null for other files', () => {
+    expect(parseOfx('Date,Description,Amount\n')).toBeNull();
+  });
+});
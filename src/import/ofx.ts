@@ -0,0 +1,74 @@
+import { isValid, parseISO } from 'date-fns';
+import { parseBankAmount } from './bankCsv';
+import type { BankTransaction, ParsedStatement, StatementBalance } from './types';
+
+// OFX and QFX (Quicken's OFX) statements. Version 1 files are SGML where
+// fields like <TRNAMT>-12.50 have no closing tag; version 2 files are XML.
+// Reading each field up to the next tag handles both.
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#\d+|[a-z]+);/gi, (entity, name: string) =>
+    name.startsWith('#') ? String.fromCharCode(Number(name.slice(1))) : (ENTITIES[name.toLowerCase()] ?? entity)
+  );
+}
+
+/** The value of the first `<name>` field in an OFX block, or '' */
+function field(block: string, name: string): string {
+  const match = new RegExp(`<${name}>([^<\\r\\n]*)`, 'i').exec(block);
+  return match ? decodeEntities(match[1]!).trim() : '';
+}
+
+/** yyyy-MM-dd from an OFX date (yyyyMMdd, optionally followed by a time and zone), or null if it doesn't exist */
+function ofxDate(value: string): string | null {
+  const match = /^(\d{4})(\d{2})(\d{2})/.exec(value);
+  if (!match) return null;
+  const date = `${match[1]}-${match[2]}-${match[3]}`;
+  return isValid(parseISO(date)) ? date : null;
+}
+
+function readTransaction(block: string): BankTransaction | null {
+  const date = ofxDate(field(block, 'DTPOSTED'));
+  const amount = parseBankAmount(field(block, 'TRNAMT'));
+  if (date === null || amount === null) return null;
+  const name = field(block, 'NAME');
+  const memo = field(block, 'MEMO');
+  return { date, description: (name || memo).replace(/\s+/g, ' '), amount };
+}
+
+function readBalance(statement: string): StatementBalance | null {
+  const ledger = /<LEDGERBAL>([\s\S]*?)(<\/LEDGERBAL>|<AVAILBAL>|$)/i.exec(statement)?.[1];
+  if (!ledger) return null;
+  const amount = parseBankAmount(field(ledger, 'BALAMT'));
+  const date = ofxDate(field(ledger, 'DTASOF'));
+  return amount === null || date === null ? null : { amount, date };
+}
+
+/** Balance of two accounts together, as of the later of their dates */
+function addBalances(a: StatementBalance | null, b: StatementBalance | null): StatementBalance | null {
+  if (!a || !b) return a ?? b;
+  return { amount: Math.round((a.amount + b.amount) * 100) / 100, date: a.date > b.date ? a.date : b.date };
+}
+
+/**
+ * Transactions and bank balance of an OFX or QFX file, or null if the text
+ * isn't one. Files can hold several accounts; their transactions are
+ * combined and the balances of bank accounts added up. Credit card balances
+ * are what is owed, not cash, so they are left out.
+ */
+export function parseOfx(text: string): ParsedStatement | null {
+  if (!/<OFX>/i.test(text)) return null;
+
+  const transactions: BankTransaction[] = [];
+  let balance: StatementBalance | null = null;
+  for (const [, kind, body] of text.matchAll(/<(STMTRS|CCSTMTRS)>([\s\S]*?)<\/\1>/gi)) {
+    for (const [, block] of body!.matchAll(/<STMTTRN>([\s\S]*?)<\/STMTTRN>/gi)) {
+      const transaction = readTransaction(block!);
+      if (transaction) transactions.push(transaction);
+    }
+    if (kind!.toUpperCase() === 'STMTRS') balance = addBalances(balance, readBalance(body!));
+  }
+  transactions.sort((a, b) => a.date.localeCompare(b.date));
+  return { transactions, balance };
+}
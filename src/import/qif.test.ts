@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { parseQif } from './qif';
+
+describe('parseQif', () => {
+  it('reads records and works out the balance from the opening balance', () => {
+    const text = [
+      '!Type:Bank',
+      "D1/ 1'25",
+      'T500.00',
+      'POpening Balance',
+      'L[Checking]',
+      '^',
+      "D1/15'25",
+      'T1,200.00',
+      'PACME PAYROLL',
+      '^',
+      "D1/ 3'25",
+      'T-800.00',
+      'MRENT OAK APTS',
+      '^',
+    ].join('\r\n');
+    expect(parseQif(text)).toEqual({
+      transactions: [
+        { date: '2025-01-03', description: 'RENT OAK APTS', amount: -800 },
+        { date: '2025-01-15', description: 'ACME PAYROLL', amount: 1200 },
+      ],
+      balance: { amount: 900, date: '2025-01-15' },
+    });
+  });
+
+  it('has no balance without an opening balance, or for cards', () => {
+    const bank = '!Type:Bank\nD03/02/2025\nT-20.00\nPSHELL OIL\n^\n';
+    expect(parseQif(bank)!.balance).toBeNull();
+    const card = '!Type:CCard\nD03/02/2025\nT-20.00\nPOpening Balance\n^\nD03/04/2025\nT-9.99\nPSPOTIFY\n^\n';
+    expect(parseQif(card)).toEqual({
+      transactions: [{ date: '2025-03-04', description: 'SPOTIFY', amount: -9.99 }],
+      balance: null,
+    });
+  });
+
+  it('skips investment sections and other files', () => {
+    expect(parseQif('!Type:Invst\nD03/02/2025\nT100.00\nPBUY\n^\n')!.transactions).toEqual([]);
+    expect(parseQif('Date,Description,Amount\n')).toBeNull();
+  });
+});
@@ -0,0 +1,114 @@
+import { guessDateOrder, parseBankAmount, parseBankDate } from './bankCsv';
+import type { BankTransaction, ParsedStatement } from './types';
+
+// QIF (Quicken Interchange Format) statements: sections start with a
+// `!Type:` line, each record is a set of lines keyed by their first letter
+// (D date, T amount, P payee, M memo) and ends with `^`.
+
+/** Section types holding cash or card transactions; investment and list sections are skipped */
+const TRANSACTION_TYPES = new Set(['bank', 'cash', 'ccard', 'oth a', 'oth l']);
+
+/** Section types whose balance is cash on hand */
+const CASH_TYPES = new Set(['bank', 'cash']);
+
+interface QifRecord {
+  date: string;
+  amount: string;
+  payee: string;
+  memo: string;
+}
+
+interface QifSection {
+  type: string;
+  records: QifRecord[];
+}
+
+/** Quicken writes years after 1999 with an apostrophe, e.g. 1/ 5'25 */
+function normalizeDate(value: string): string {
+  return value.replace(/'/g, '/').replace(/\s+/g, '');
+}
+
+function readSections(text: string): QifSection[] {
+  const sections: QifSection[] = [];
+  let section: QifSection | null = null;
+  let record: Partial<QifRecord> = {};
+
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.trim();
+    if (line === '') continue;
+    if (line.startsWith('!')) {
+      // Account lists and options have records too, but no transactions
+      const type = /^!Type:(.*)$/i.exec(line)?.[1]?.trim().toLowerCase();
+      section = type !== undefined && TRANSACTION_TYPES.has(type) ? { type, records: [] } : null;
+      if (section) sections.push(section);
+      record = {};
+      continue;
+    }
+    const value = line.slice(1).trim();
+    switch (line[0]) {
+      case '^':
+        if (section && record.date !== undefined && record.amount !== undefined) {
+          section.records.push({ payee: '', memo: '', ...record } as QifRecord);
+        }
+        record = {};
+        break;
+      case 'D':
+        record.date = normalizeDate(value);
+        break;
+      case 'T':
+      case 'U':
+        record.amount ??= value;
+        break;
+      case 'P':
+        record.payee = value;
+        break;
+      case 'M':
+        record.memo = value;
+        break;
+      // Splits, categories, check numbers and cleared flags don't matter here
+    }
+  }
+  return sections;
+}
+
+/**
+ * Transactions of a QIF file, or null if the text isn't one. QIF has no
+ * statement balance; when every bank and cash section starts with an
+ * "Opening Balance" record, the balance is that plus the transactions.
+ */
+export function parseQif(text: string): ParsedStatement | null {
+  if (!/^\s*!(Type|Account|Option)/i.test(text)) return null;
+
+  const sections = readSections(text);
+  const order = guessDateOrder(sections.flatMap((s) => s.records.map((r) => r.date)));
+  const transactions: BankTransaction[] = [];
+  let cash = 0;
+  let cashDate = '';
+  let knowsBalance = sections.some((s) => CASH_TYPES.has(s.type));
+
+  for (const section of sections) {
+    const isCash = CASH_TYPES.has(section.type);
+    let opened = false;
+    for (const record of section.records) {
+      const date = parseBankDate(record.date, order);
+      const amount = parseBankAmount(record.amount);
+      if (date === null || amount === null) continue;
+      if (isCash) {
+        cash += amount;
+        if (date > cashDate) cashDate = date;
+      }
+      if (/^opening balance$/i.test(record.payee)) {
+        opened = true;
+        continue;
+      }
+      transactions.push({ date, description: (record.payee || record.memo).replace(/\s+/g, ' '), amount });
+    }
+    if (isCash && !opened) knowsBalance = false;
+  }
+
+  transactions.sort((a, b) => a.date.localeCompare(b.date));
+  return {
+    transactions,
+    balance: knowsBalance && cashDate !== '' ? { amount: Math.round(cash * 100) / 100, date: cashDate } : null,
+  };
+}
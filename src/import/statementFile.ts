@@ -0,0 +1,18 @@
+import { guessDelimiter, parseCsv } from '@/lib/csv';
+import { parseOfx } from './ofx';
+import { parseQif } from './qif';
+import type { ParsedStatement } from './types';
+
+/** A statement file: CSV rows still to be mapped, or transactions read from OFX/QFX or QIF */
+export type StatementFile =
+  | { format: 'csv'; rows: string[][] }
+  | { format: 'ofx' | 'qif'; statement: ParsedStatement };
+
+/** Read a statement by what it contains, since exported file names aren't always right. */
+export function readStatementFile(text: string): StatementFile {
+  const ofx = parseOfx(text);
+  if (ofx) return { format: 'ofx', statement: ofx };
+  const qif = parseQif(text);
+  if (qif) return { format: 'qif', statement: qif };
+  return { format: 'csv', rows: parseCsv(text, guessDelimiter(text)) };
+}
@@ -0,0 +1,22 @@
+// Shared shapes of imported statements, whatever file format they came from
+
+/** A statement line; deposits are positive, spending negative */
+export interface BankTransaction {
+  date: string; // ISO date string
+  description: string;
+  amount: number;
+}
+
+/** An account balance the statement reports */
+export interface StatementBalance {
+  amount: number;
+  /** Day the balance is as of */
+  date: string; // ISO date string
+}
+
+/** Transactions read from an OFX or QIF file, which need no column mapping */
+export interface ParsedStatement {
+  transactions: BankTransaction[];
+  /** Cash balance of the bank accounts in the file, when it says; card balances are left out */
+  balance: StatementBalance | null;
+}
@@ -36,4 +36,6 @@ export const CHART_COLORS = {
   warning: '#f59e0b',
   /** Neutral gray — zero reference line */
   zeroLine: '#888888',
+  /** Blue-500 — variable income low/high band */
+  range: '#3b82f6',
 } as const;
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { guessDelimiter, parseCsv, toCsv } from './csv';
+
+describe('toCsv', () => {
+  it('quotes fields with commas, quotes and line breaks', () => {
+    expect(toCsv(['a', 'b'], [['plain', 'with, comma'], ['say "hi"', 'two\nlines'], [1.5, null]])).toBe(
+      'a,b\r\nplain,"with, comma"\r\n"say ""hi""","two\nlines"\r\n1.5,\r\n'
+    );
+  });
+});
+
+describe('parseCsv', () => {
+  it('reads quoted fields, escaped quotes and both line endings', () => {
+    expect(parseCsv('\ufeffa,b\r\n"with, comma","say ""hi"""\n"two\nlines",\n\n')).toEqual([
+      ['a', 'b'],
+      ['with, comma', 'say "hi"'],
+      ['two\nlines', ''],
+    ]);
+  });
+
+  it('reads what toCsv writes', () => {
+    const rows = [
+      ['plain', 'with, comma'],
+      ['say "hi"', 'two\r\nlines'],
+    ];
+    expect(parseCsv(toCsv(['a', 'b'], rows))).toEqual([['a', 'b'], ...rows]);
+  });
+
+  it('splits on other delimiters', () => {
+    const text = 'Datum;Betrag\n01.03.2025;-12,50\n';
+    expect(guessDelimiter(text)).toBe(';');
+    expect(parseCsv(text, ';')).toEqual([
+      ['Datum', 'Betrag'],
+      ['01.03.2025', '-12,50'],
+    ]);
+  });
+});
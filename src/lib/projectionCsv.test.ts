@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import type { DailySnapshot } from '@/engine/types';
+import { day, SAMPLE_SNAPSHOTS } from '@/engine/__tests__/snapshots';
+import { monthlyTotalsToCsv, snapshotsToCsv } from './projectionCsv';
+
+const snapshots: DailySnapshot[] = [
+  ...SAMPLE_SNAPSHOTS,
+  day('2025-04-01', 567.55, { expensesToday: 12.45, events: [{ label: 'Phone', amount: 12.45, type: 'expense' }] }),
+];
+
+describe('snapshotsToCsv', () => {
+  it('writes one row per day with its events', () => {
+    const lines = snapshotsToCsv(snapshots).split('\r\n');
+    expect(lines[0]).toBe('date,balance,income,expenses,liabilities,events');
+    expect(lines[1]).toBe('2025-03-01,100.00,0.00,50.00,0.00,"Rent, ""studio"": -50.00"');
+    expect(lines[3]).toBe('2025-03-03,580.00,600.00,0.00,1001.50,Paycheck: +600.00; Loan interest: 1.50 owed');
+  });
+});
+
+describe('monthlyTotalsToCsv', () => {
+  it('writes one row per calendar month', () => {
+    expect(monthlyTotalsToCsv(snapshots)).toBe(
+      'month,income,expenses,net\r\n2025-03,600.00,170.00,430.00\r\n2025-04,0.00,12.45,-12.45\r\n'
+    );
+  });
+});
@@ -0,0 +1,34 @@
+import { aggregateMonthly } from '@/engine/projection';
+import type { DailyEvent, DailySnapshot } from '@/engine/types';
+import { toCsv } from './csv';
+
+// Projection exports for spreadsheets, shared by the app and the CLI
+
+function formatEvent(event: DailyEvent): string {
+  const amount = event.amount.toFixed(2);
+  if (event.type === 'liability') return `${event.label}: ${amount} owed`;
+  return `${event.label}: ${event.type === 'income' ? '+' : '-'}${amount}`;
+}
+
+/** One CSV row per day, with the day's events in the last column */
+export function snapshotsToCsv(snapshots: DailySnapshot[]): string {
+  return toCsv(
+    ['date', 'balance', 'income', 'expenses', 'liabilities', 'events'],
+    snapshots.map((s) => [
+      s.date,
+      s.balance.toFixed(2),
+      s.incomeToday.toFixed(2),
+      s.expensesToday.toFixed(2),
+      s.liabilities.toFixed(2),
+      s.events.map(formatEvent).join('; '),
+    ])
+  );
+}
+
+/** One CSV row per calendar month with its income, expenses and net */
+export function monthlyTotalsToCsv(snapshots: DailySnapshot[]): string {
+  return toCsv(
+    ['month', 'income', 'expenses', 'net'],
+    aggregateMonthly(snapshots).map((m) => [m.month, m.income.toFixed(2), m.expenses.toFixed(2), m.net.toFixed(2)])
+  );
+}
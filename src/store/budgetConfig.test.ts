@@ -0,0 +1,138 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_TAX_RETURN } from '@/engine/tax';
+import { DEFAULT_HOLIDAYS } from '@/engine/holidays';
+import { DEFAULT_MONTE_CARLO } from '@/engine/monteCarlo';
+import { randomBudget } from '@/engine/__tests__/testBudgets';
+import { CONFIG_VERSION, loadBudgetConfig, parseBudgetConfig, settingsDefaults } from './budgetConfig';
+import { createBudgetTemplates } from './templates';
+
+const TODAY = new Date(2025, 2, 10);
+
+function exported(config: object) {
+  return JSON.parse(JSON.stringify({ version: CONFIG_VERSION, ...config }));
+}
+
+describe('loadBudgetConfig', () => {
+  it.each(createBudgetTemplates('2025-03-10').map((template) => [template.name, template.config] as const))(
+    'accepts the %s template',
+    (_, config) => {
+      const result = loadBudgetConfig(exported(config));
+      expect(result).toMatchObject({ success: true, config: JSON.parse(JSON.stringify(config)) });
+    }
+  );
+
+  it.each([1, 2, 3])('accepts random budget %i', (seed) => {
+    expect(loadBudgetConfig(exported(randomBudget(seed, 8, 12, TODAY))).success).toBe(true);
+  });
+
+  it('migrates monthly expenses from files without a version', () => {
+    const file = exported(randomBudget(1, 1, 6, TODAY));
+    delete file.version;
+    file.recurringExpenses = [{ id: 'rent', label: 'Rent', amount: 800, dayOfMonth: 3 }];
+
+    const result = loadBudgetConfig(file);
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    const [rent] = result.config.recurringExpenses;
+    expect(rent).not.toHaveProperty('dayOfMonth');
+    expect(rent!.recurrence).toMatchObject({ interval: 1, unit: 'month' });
+    expect(rent!.recurrence.anchorDate).toMatch(/-03$/);
+  });
+
+  it('refuses files from a newer version', () => {
+    const result = loadBudgetConfig({ ...exported(randomBudget(1, 1, 6, TODAY)), version: CONFIG_VERSION + 1 });
+    expect(result).toMatchObject({ success: false, error: expect.stringContaining('newer version') });
+  });
+
+  it('fills in optional sections and fields left out', () => {
+    const file = exported(randomBudget(2, 1, 6, TODAY));
+    delete file.studentLoans;
+    delete file.holidays;
+    delete file.monteCarlo;
+    file.taxReturn = { enabled: true, filingMonth: 4, filingDay: 15 };
+
+    const result = loadBudgetConfig(file);
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.config.studentLoans).toEqual([]);
+    expect(result.config.holidays).toEqual(DEFAULT_HOLIDAYS);
+    expect(result.config.monteCarlo).toEqual(DEFAULT_MONTE_CARLO);
+    expect(result.config.taxReturn).toEqual({ ...DEFAULT_TAX_RETURN, enabled: true, filingMonth: 4, filingDay: 15 });
+  });
+
+  it('reports each invalid field by its path', () => {
+    const file = exported(randomBudget(3, 2, 6, TODAY));
+    file.recurringIncomes[1].hourlyRate = '15';
+    file.recurringExpenses[0].recurrence.unit = 'fortnight';
+    file.oneTimeExpenses[1].date = '2025-02-30';
+    delete file.foodBudget.weekdayLunch;
+
+    const result = loadBudgetConfig(file);
+    expect(result.success).toBe(false);
+    if (result.success) return;
+    expect(result.issues.map(({ path, message }) => ({ path, message }))).toEqual([
+      { path: 'recurringIncomes[1].hourlyRate', message: 'must be a number' },
+      { path: 'recurringExpenses[0].recurrence.unit', message: 'must be one of "day", "week", "month", "year"' },
+      { path: 'oneTimeExpenses[1].date', message: 'must be a date (yyyy-mm-dd)' },
+      { path: 'foodBudget.weekdayLunch', message: 'must be a number' },
+    ]);
+    expect(result.error).toContain('recurringIncomes[1].hourlyRate: must be a number');
+  });
+});
+
+describe('loadBudgetConfig recovery', () => {
+  it('leaves out invalid items, drops invalid optional fields and resets invalid settings', () => {
+    const file = exported(randomBudget(4, 3, 6, TODAY));
+    file.recurringIncomes[0].endDate = 'soon';
+    file.recurringIncomes[1].frequency = 'daily';
+    file.oneTimeIncomes[2].amount = -5;
+    file.foodBudget.weekdayLunch = 'eight';
+    file.projectionMonths = 0;
+
+    const result = loadBudgetConfig(file);
+    expect(result.success).toBe(false);
+    if (result.success) return;
+    expect(result.issues.map(({ path, recovery }) => [path, recovery])).toEqual([
+      ['recurringIncomes[0].endDate', { kind: 'useDefault' }],
+      ['recurringIncomes[1].frequency', { kind: 'skipItem', itemPath: 'recurringIncomes[1]', itemLabel: 'Income 1' }],
+      ['oneTimeIncomes[2].amount', { kind: 'skipItem', itemPath: 'oneTimeIncomes[2]', itemLabel: 'One-time income 2' }],
+      ['foodBudget.weekdayLunch', { kind: 'useDefault' }],
+      ['projectionMonths', { kind: 'useDefault' }],
+    ]);
+
+    const recovered = result.recovered!;
+    expect(recovered.recurringIncomes.map((i) => i.id)).toEqual(['income-0', 'income-2']);
+    expect(recovered.recurringIncomes[0]).not.toHaveProperty('endDate');
+    expect(recovered.oneTimeIncomes).toHaveLength(2);
+    expect(recovered.foodBudget).toEqual({ ...file.foodBudget, weekdayLunch: settingsDefaults.foodBudget.weekdayLunch });
+    expect(recovered.projectionMonths).toBe(settingsDefaults.projectionMonths);
+    expect(loadBudgetConfig(exported(recovered))).toMatchObject({ success: true });
+  });
+
+  it('leaves out only the innermost invalid item', () => {
+    const file = exported(randomBudget(5, 1, 6, TODAY));
+    file.recurringIncomes[0].rateChanges = [
+      { id: 'a', date: '2025-06-01', kind: 'percent', value: 3 },
+      { id: 'b', date: 'June', kind: 'percent', value: 3 },
+    ];
+
+    const result = loadBudgetConfig(file);
+    expect(result.success).toBe(false);
+    if (result.success) return;
+    expect(result.issues[0]!.recovery).toMatchObject({ kind: 'skipItem', itemPath: 'recurringIncomes[0].rateChanges[1]' });
+    expect(result.recovered!.recurringIncomes[0]!.rateChanges).toEqual([file.recurringIncomes[0].rateChanges[0]]);
+  });
+
+  it('does not recover files that are not budgets', () => {
+    const result = loadBudgetConfig({ name: 'package', version: 0 });
+    expect(result).toMatchObject({ success: false, recovered: null });
+    if (result.success) return;
+    expect(result.issues.every((issue) => issue.recovery === undefined)).toBe(true);
+  });
+});
+
+describe('parseBudgetConfig', () => {
+  it('reports files that are not JSON', () => {
+    expect(parseBudgetConfig('{ not json')).toMatchObject({ success: false, error: expect.stringContaining('JSON') });
+  });
+});
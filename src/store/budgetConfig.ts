@@ -0,0 +1,193 @@
+import type { BudgetConfig } from '@/engine/types';
+import { DEFAULT_TAX_RETURN } from '@/engine/tax';
+import { DEFAULT_HOLIDAYS } from '@/engine/holidays';
+import { DEFAULT_MONTE_CARLO } from '@/engine/monteCarlo';
+import { monthlyRecurrence } from '@/engine/recurrence';
+import { checkBudgetConfig, type ConfigIssue } from './schema';
+
+// Reading saved budget files and stored state, shared by the app's import
+// and the CLI
+
+/**
+ * Version of the saved config format. Bump it and add a step to
+ * MIGRATIONS whenever a change would break configs saved before it.
+ */
+export const CONFIG_VERSION = 1;
+
+type RawConfig = Record<string, unknown>;
+
+function isRecord(value: unknown): value is RawConfig {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Configs saved before recurrences existed only had a monthly `dayOfMonth`
+function migrateRecurringExpense(expense: unknown): unknown {
+  if (!isRecord(expense) || expense.recurrence !== undefined) return expense;
+  const { dayOfMonth, ...rest } = expense;
+  return { ...rest, recurrence: monthlyRecurrence(typeof dayOfMonth === 'number' ? dayOfMonth : 1) };
+}
+
+/**
+ * Steps that bring a config from each version to the next. Files exported
+ * before versioning have no `version` and start at 0.
+ */
+const MIGRATIONS: Record<number, (config: RawConfig) => RawConfig> = {
+  0: (config) =>
+    Array.isArray(config.recurringExpenses)
+      ? { ...config, recurringExpenses: config.recurringExpenses.map(migrateRecurringExpense) }
+      : config,
+};
+
+/** Run the migrations from `version` up to CONFIG_VERSION. */
+export function migrateConfig(config: RawConfig, version: number): RawConfig {
+  let migrated = config;
+  for (let v = version; v < CONFIG_VERSION; v++) {
+    migrated = MIGRATIONS[v]!(migrated);
+  }
+  return migrated;
+}
+
+// Values for optional config sections, used when a template or imported
+// file leaves them out so settings from the previous budget don't linger
+export const optionalConfigDefaults: Pick<
+  Required<BudgetConfig>,
+  'studentLoans' | 'taxReturn' | 'holidays' | 'monteCarlo'
+> &
+  Pick<BudgetConfig, 'startDate'> = {
+  startDate: undefined, // today
+  studentLoans: [],
+  taxReturn: DEFAULT_TAX_RETURN,
+  holidays: DEFAULT_HOLIDAYS,
+  monteCarlo: DEFAULT_MONTE_CARLO,
+};
+
+/** Settings every config has, used for new budgets and in place of invalid values */
+export const settingsDefaults: Pick<BudgetConfig, 'initialBalance' | 'projectionMonths' | 'foodBudget' | 'transportConfig'> =
+  {
+    initialBalance: 1000,
+    projectionMonths: 12,
+    foodBudget: {
+      enabled: true,
+      weekdayBreakfast: 3,
+      weekdayLunch: 8,
+      weekdayDinner: 12,
+      weekdaySnacks: 2,
+      weekendDailyTotal: 25,
+    },
+    transportConfig: {
+      enabled: true,
+      autoEnabled: true,
+      autoWeekdayMiles: 20,
+      autoWeekendMiles: 10,
+      autoMpg: 30,
+      autoFuelCostPerGallon: 3.5,
+      publicEnabled: false,
+      publicWeeklyCost: 0,
+    },
+  };
+
+// What invalid settings are reset to when importing the valid parts of a file
+const recoveryDefaults: BudgetConfig = {
+  ...settingsDefaults,
+  recurringIncomes: [],
+  oneTimeIncomes: [],
+  recurringExpenses: [],
+  oneTimeExpenses: [],
+  ...optionalConfigDefaults,
+};
+
+/** An optional section with its missing fields filled from `defaults` */
+function withDefaults(section: unknown, defaults: object): unknown {
+  if (section === undefined) return defaults;
+  return isRecord(section) ? { ...defaults, ...section } : section;
+}
+
+/** The config fields of `raw`, with defaults for optional sections and fields it leaves out */
+function pickConfig(raw: RawConfig): RawConfig {
+  return {
+    initialBalance: raw.initialBalance,
+    projectionMonths: raw.projectionMonths,
+    startDate: raw.startDate ?? optionalConfigDefaults.startDate,
+    recurringIncomes: raw.recurringIncomes,
+    oneTimeIncomes: raw.oneTimeIncomes,
+    recurringExpenses: raw.recurringExpenses,
+    oneTimeExpenses: raw.oneTimeExpenses,
+    foodBudget: raw.foodBudget,
+    transportConfig: raw.transportConfig,
+    studentLoans: raw.studentLoans ?? optionalConfigDefaults.studentLoans,
+    taxReturn: withDefaults(raw.taxReturn, optionalConfigDefaults.taxReturn),
+    holidays: withDefaults(raw.holidays, optionalConfigDefaults.holidays),
+    monteCarlo: withDefaults(raw.monteCarlo, optionalConfigDefaults.monteCarlo),
+  };
+}
+
+export type LoadConfigResult =
+  | { success: true; config: BudgetConfig }
+  | {
+      success: false;
+      error: string;
+      issues: ConfigIssue[];
+      /** The valid parts of the config, with invalid settings reset; null when there are none */
+      recovered: BudgetConfig | null;
+    };
+
+/** Most issues listed in an error message; the rest are counted */
+const MAX_LISTED_ISSUES = 5;
+
+function describeIssues(issues: ConfigIssue[]): string {
+  const listed = issues.slice(0, MAX_LISTED_ISSUES).map((issue) => `${issue.path}: ${issue.message}`);
+  if (issues.length > MAX_LISTED_ISSUES) listed.push(`…and ${issues.length - MAX_LISTED_ISSUES} more`);
+  return `Invalid file format.\n${listed.join('\n')}`;
+}
+
+function failure(error: string, issues: ConfigIssue[] = [], recovered: BudgetConfig | null = null): LoadConfigResult {
+  return { success: false, error, issues, recovered };
+}
+
+/** Lists of budget items; a file with none of them isn't a budget to recover */
+const ITEM_LISTS = ['recurringIncomes', 'oneTimeIncomes', 'recurringExpenses', 'oneTimeExpenses'];
+
+/**
+ * Check a config that is already at CONFIG_VERSION, e.g. stored state,
+ * filling in optional sections it leaves out.
+ */
+export function readBudgetConfig(raw: unknown): LoadConfigResult {
+  if (!isRecord(raw)) return failure('Invalid file format. Expected a budget object.');
+  const { issues, repaired } = checkBudgetConfig(pickConfig(raw), recoveryDefaults);
+  if (issues.length > 0) {
+    if (!repaired || !ITEM_LISTS.some((key) => Array.isArray(raw[key]))) {
+      // Nothing worth keeping, e.g. some other JSON file
+      const unrecoverable = issues.map(({ path, message }) => ({ path, message }));
+      return failure(describeIssues(unrecoverable), unrecoverable);
+    }
+    // Optional sections dropped while repairing get their defaults back
+    return failure(describeIssues(issues), issues, pickConfig({ ...repaired }) as unknown as BudgetConfig);
+  }
+  return { success: true, config: repaired! };
+}
+
+/** Migrate a saved config from the version it was written at, then check it. */
+export function loadBudgetConfig(raw: unknown): LoadConfigResult {
+  if (!isRecord(raw)) return failure('Invalid file format. Expected a budget object.');
+  const version = raw.version ?? 0;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 0) {
+    return failure('Invalid file format. The version must be a whole number.', [
+      { path: 'version', message: 'must be a whole number' },
+    ]);
+  }
+  if (version > CONFIG_VERSION) {
+    return failure('This file was saved by a newer version of the app and cannot be opened.');
+  }
+  return readBudgetConfig(migrateConfig(raw, version));
+}
+
+/** Parse, migrate and check an exported budget file. */
+export function parseBudgetConfig(json: string): LoadConfigResult {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    return failure('Invalid JSON file. Could not parse the data.');
+  }
+  return loadBudgetConfig(raw);
+}
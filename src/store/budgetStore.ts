@@ -8,81 +8,113 @@ import type {
   OneTimeExpense,
   FoodBudget,
   TransportConfig,
+  StudentLoan,
+  LoanDisbursement,
+  TaxReturnConfig,
+  HolidayConfig,
+  CustomHoliday,
+  MonteCarloConfig,
 } from '@/engine/types';
+import { DEFAULT_TAX_RETURN } from '@/engine/tax';
+import { DEFAULT_HOLIDAYS } from '@/engine/holidays';
+import { DEFAULT_MONTE_CARLO } from '@/engine/monteCarlo';
+import {
+  CONFIG_VERSION,
+  migrateConfig,
+  optionalConfigDefaults,
+  parseBudgetConfig,
+  readBudgetConfig,
+  settingsDefaults,
+} from './budgetConfig';
+import type { ConfigIssue } from './schema';
+import { projectionStart } from '@/engine/projection';
+import { monthlyRecurrence } from '@/engine/recurrence';
 import { generateId } from '@/lib/utils';
-import { format, addDays } from 'date-fns';
+import { format, addDays, addYears } from 'date-fns';
 
-// Default: first paycheck is next Friday
-function nextFriday(): string {
-  const d = new Date();
-  const day = d.getDay();
+// Default: first paycheck is the Friday after a date
+function nextFriday(from: Date = new Date()): string {
+  const day = from.getDay();
   const diff = (5 - day + 7) % 7 || 7;
-  return format(addDays(d, diff), 'yyyy-MM-dd');
-}
-
-// Validation helper for importing configs
-export function validateBudgetConfig(json: string): { success: boolean; error?: string } {
-  try {
-    const parsed = JSON.parse(json);
-    // Validate required top-level fields
-    if (
-      typeof parsed.initialBalance !== 'number' ||
-      typeof parsed.projectionMonths !== 'number' ||
-      !Array.isArray(parsed.recurringIncomes) ||
-      !Array.isArray(parsed.oneTimeIncomes) ||
-      !Array.isArray(parsed.recurringExpenses) ||
-      !Array.isArray(parsed.oneTimeExpenses) ||
-      typeof parsed.foodBudget !== 'object' ||
-      typeof parsed.transportConfig !== 'object'
-    ) {
-      return { success: false, error: 'Invalid file format. Missing or invalid fields.' };
-    }
-    return { success: true };
-  } catch {
-    return { success: false, error: 'Invalid JSON file. Could not parse the data.' };
-  }
+  return format(addDays(from, diff), 'yyyy-MM-dd');
 }
 
 interface BudgetActions {
   setInitialBalance: (amount: number) => void;
   setProjectionMonths: (months: number) => void;
+  setStartDate: (date: string | undefined) => void;
 
   addRecurringIncome: () => void;
+  addRecurringIncomes: (items: Omit<RecurringIncome, 'id'>[]) => void;
   updateRecurringIncome: (id: string, data: Partial<RecurringIncome>) => void;
   removeRecurringIncome: (id: string) => void;
+  setRecurringIncomeHours: (hours: Record<string, number>) => void;
 
   addOneTimeIncome: () => void;
   updateOneTimeIncome: (id: string, data: Partial<OneTimeIncome>) => void;
   removeOneTimeIncome: (id: string) => void;
+  addOneTimeIncomes: (items: Omit<OneTimeIncome, 'id'>[]) => void;
 
   addRecurringExpense: () => void;
+  addRecurringExpenses: (items: Omit<RecurringExpense, 'id'>[]) => void;
   updateRecurringExpense: (id: string, data: Partial<RecurringExpense>) => void;
   removeRecurringExpense: (id: string) => void;
 
   addOneTimeExpense: () => void;
+  addOneTimeExpenses: (items: Omit<OneTimeExpense, 'id'>[]) => void;
   updateOneTimeExpense: (id: string, data: Partial<OneTimeExpense>) => void;
   removeOneTimeExpense: (id: string) => void;
 
+  addStudentLoan: () => void;
+  updateStudentLoan: (id: string, data: Partial<StudentLoan>) => void;
+  removeStudentLoan: (id: string) => void;
+  addLoanDisbursement: (loanId: string) => void;
+  updateLoanDisbursement: (loanId: string, id: string, data: Partial<LoanDisbursement>) => void;
+  removeLoanDisbursement: (loanId: string, id: string) => void;
+
   reorderRecurringIncomes: (fromIndex: number, toIndex: number) => void;
   reorderOneTimeIncomes: (fromIndex: number, toIndex: number) => void;
   reorderRecurringExpenses: (fromIndex: number, toIndex: number) => void;
   reorderOneTimeExpenses: (fromIndex: number, toIndex: number) => void;
+  reorderStudentLoans: (fromIndex: number, toIndex: number) => void;
 
   updateFoodBudget: (data: Partial<FoodBudget>) => void;
   updateTransportConfig: (data: Partial<TransportConfig>) => void;
+  updateTaxReturn: (data: Partial<TaxReturnConfig>) => void;
+
+  updateHolidays: (data: Partial<HolidayConfig>) => void;
+  addCustomHoliday: () => void;
+  updateCustomHoliday: (id: string, data: Partial<CustomHoliday>) => void;
+  removeCustomHoliday: (id: string) => void;
+
+  updateMonteCarlo: (data: Partial<MonteCarloConfig>) => void;
 
   applyTemplate: (config: BudgetConfig) => void;
   exportConfig: () => string;
-  importConfig: (json: string) => { success: boolean; error?: string };
+  /** Replace the budget with an exported file; with `recover`, keep its valid parts when it has problems */
+  importConfig: (json: string, options?: { recover?: boolean }) => { success: boolean; error?: string };
   resetAll: () => void;
   hasUserEdits: boolean;
+
+  /** Set when the saved budget failed its checks on load; not persisted */
+  savedBudgetProblem: SavedBudgetProblem | null;
+  dismissSavedBudgetProblem: () => void;
+}
+
+/** A saved budget that had problems when it was loaded */
+export interface SavedBudgetProblem {
+  issues: ConfigIssue[];
+  error: string;
+  /** Whether the valid parts of it were kept */
+  recovered: boolean;
+  /** The budget as it was saved, in export format, so left-out items can still be recovered */
+  saved: string;
 }
 
 type BudgetStore = BudgetConfig & BudgetActions;
 
 const defaultConfig: BudgetConfig = {
-  initialBalance: 1000,
-  projectionMonths: 12,
+  ...settingsDefaults,
   recurringIncomes: [
     {
       id: generateId(),
@@ -100,31 +132,33 @@ const defaultConfig: BudgetConfig = {
       id: generateId(),
       label: 'Rent',
       amount: 800,
-      dayOfMonth: 1,
+      recurrence: monthlyRecurrence(1),
       enabled: true,
     },
   ],
   oneTimeExpenses: [],
-  foodBudget: {
-    enabled: true,
-    weekdayBreakfast: 3,
-    weekdayLunch: 8,
-    weekdayDinner: 12,
-    weekdaySnacks: 2,
-    weekendDailyTotal: 25,
-  },
-  transportConfig: {
-    enabled: true,
-    autoEnabled: true,
-    autoWeekdayMiles: 20,
-    autoWeekendMiles: 10,
-    autoMpg: 30,
-    autoFuelCostPerGallon: 3.50,
-    publicEnabled: false,
-    publicWeeklyCost: 0,
-  },
+  ...optionalConfigDefaults,
 };
 
+/** The engine-facing BudgetConfig fields of the store state */
+export function selectBudgetConfig(state: BudgetConfig): BudgetConfig {
+  return {
+    initialBalance: state.initialBalance,
+    projectionMonths: state.projectionMonths,
+    startDate: state.startDate,
+    recurringIncomes: state.recurringIncomes,
+    oneTimeIncomes: state.oneTimeIncomes,
+    recurringExpenses: state.recurringExpenses,
+    oneTimeExpenses: state.oneTimeExpenses,
+    foodBudget: state.foodBudget,
+    transportConfig: state.transportConfig,
+    studentLoans: state.studentLoans,
+    taxReturn: state.taxReturn,
+    holidays: state.holidays,
+    monteCarlo: state.monteCarlo,
+  };
+}
+
 export const useBudgetStore = create<BudgetStore>()(
   persist(
     (set) => ({
@@ -133,6 +167,7 @@ export const useBudgetStore = create<BudgetStore>()(
 
       setInitialBalance: (amount) => set({ initialBalance: amount, hasUserEdits: true }),
       setProjectionMonths: (months) => set({ projectionMonths: months, hasUserEdits: true }),
+      setStartDate: (date) => set({ startDate: date, hasUserEdits: true }),
 
       // ── Recurring Income ──
       addRecurringIncome: () =>
@@ -146,11 +181,19 @@ export const useBudgetStore = create<BudgetStore>()(
               hoursPerWeek: 20,
               hourlyRate: 15,
               frequency: 'biweekly' as const,
-              startDate: nextFriday(),
+              startDate: nextFriday(projectionStart(state)),
               enabled: true,
             },
           ],
         })),
+      addRecurringIncomes: (items) =>
+        set((state) => ({
+          hasUserEdits: true,
+          recurringIncomes: [
+            ...state.recurringIncomes,
+            ...items.map((item) => ({ ...item, id: generateId() })),
+          ],
+        })),
       updateRecurringIncome: (id, data) =>
         set((state) => ({
           hasUserEdits: true,
@@ -163,6 +206,13 @@ export const useBudgetStore = create<BudgetStore>()(
           hasUserEdits: true,
           recurringIncomes: state.recurringIncomes.filter((i) => i.id !== id),
         })),
+      setRecurringIncomeHours: (hours) =>
+        set((state) => ({
+          hasUserEdits: true,
+          recurringIncomes: state.recurringIncomes.map((i) =>
+            i.id in hours ? { ...i, hoursPerWeek: hours[i.id]! } : i
+          ),
+        })),
 
       // ── One-Time Income ──
       addOneTimeIncome: () =>
@@ -174,7 +224,7 @@ export const useBudgetStore = create<BudgetStore>()(
               id: generateId(),
               label: 'Tax Refund',
               amount: 500,
-              date: format(new Date(), 'yyyy-MM-dd'),
+              date: format(projectionStart(state), 'yyyy-MM-dd'),
               enabled: true,
             },
           ],
@@ -191,6 +241,14 @@ export const useBudgetStore = create<BudgetStore>()(
           hasUserEdits: true,
           oneTimeIncomes: state.oneTimeIncomes.filter((i) => i.id !== id),
         })),
+      addOneTimeIncomes: (items) =>
+        set((state) => ({
+          hasUserEdits: true,
+          oneTimeIncomes: [
+            ...state.oneTimeIncomes,
+            ...items.map((item) => ({ ...item, id: generateId() })),
+          ],
+        })),
 
       // ── Recurring Expense ──
       addRecurringExpense: () =>
@@ -202,11 +260,19 @@ export const useBudgetStore = create<BudgetStore>()(
               id: generateId(),
               label: 'New Expense',
               amount: 100,
-              dayOfMonth: 1,
+              recurrence: monthlyRecurrence(1, projectionStart(state)),
               enabled: true,
             },
           ],
         })),
+      addRecurringExpenses: (items) =>
+        set((state) => ({
+          hasUserEdits: true,
+          recurringExpenses: [
+            ...state.recurringExpenses,
+            ...items.map((item) => ({ ...item, id: generateId() })),
+          ],
+        })),
       updateRecurringExpense: (id, data) =>
         set((state) => ({
           hasUserEdits: true,
@@ -230,11 +296,19 @@ export const useBudgetStore = create<BudgetStore>()(
               id: generateId(),
               label: 'New Expense',
               amount: 500,
-              date: format(addDays(new Date(), 7), 'yyyy-MM-dd'),
+              date: format(addDays(projectionStart(state), 7), 'yyyy-MM-dd'),
               enabled: true,
             },
           ],
         })),
+      addOneTimeExpenses: (items) =>
+        set((state) => ({
+          hasUserEdits: true,
+          oneTimeExpenses: [
+            ...state.oneTimeExpenses,
+            ...items.map((item) => ({ ...item, id: generateId() })),
+          ],
+        })),
       updateOneTimeExpense: (id, data) =>
         set((state) => ({
           hasUserEdits: true,
@@ -248,6 +322,74 @@ export const useBudgetStore = create<BudgetStore>()(
           oneTimeExpenses: state.oneTimeExpenses.filter((e) => e.id !== id),
         })),
 
+      // ── Student Loans ──
+      addStudentLoan: () =>
+        set((state) => ({
+          hasUserEdits: true,
+          studentLoans: [
+            ...(state.studentLoans ?? []),
+            {
+              id: generateId(),
+              label: 'Student Loan',
+              interestType: 'unsubsidized' as const,
+              interestRate: 6.39,
+              originationFeePercent: 1.057,
+              disbursements: [
+                { id: generateId(), date: format(projectionStart(state), 'yyyy-MM-dd'), amount: 2750 },
+              ],
+              graduationDate: format(addYears(projectionStart(state), 4), 'yyyy-MM-dd'),
+              gracePeriodMonths: 6,
+              repaymentYears: 10,
+              enabled: true,
+            },
+          ],
+        })),
+      updateStudentLoan: (id, data) =>
+        set((state) => ({
+          hasUserEdits: true,
+          studentLoans: (state.studentLoans ?? []).map((l) =>
+            l.id === id ? { ...l, ...data } : l
+          ),
+        })),
+      removeStudentLoan: (id) =>
+        set((state) => ({
+          hasUserEdits: true,
+          studentLoans: (state.studentLoans ?? []).filter((l) => l.id !== id),
+        })),
+      addLoanDisbursement: (loanId) =>
+        set((state) => ({
+          hasUserEdits: true,
+          studentLoans: (state.studentLoans ?? []).map((l) =>
+            l.id === loanId
+              ? {
+                  ...l,
+                  disbursements: [
+                    ...l.disbursements,
+                    { id: generateId(), date: format(projectionStart(state), 'yyyy-MM-dd'), amount: 2750 },
+                  ],
+                }
+              : l
+          ),
+        })),
+      updateLoanDisbursement: (loanId, id, data) =>
+        set((state) => ({
+          hasUserEdits: true,
+          studentLoans: (state.studentLoans ?? []).map((l) =>
+            l.id === loanId
+              ? { ...l, disbursements: l.disbursements.map((d) => (d.id === id ? { ...d, ...data } : d)) }
+              : l
+          ),
+        })),
+      removeLoanDisbursement: (loanId, id) =>
+        set((state) => ({
+          hasUserEdits: true,
+          studentLoans: (state.studentLoans ?? []).map((l) =>
+            l.id === loanId
+              ? { ...l, disbursements: l.disbursements.filter((d) => d.id !== id) }
+              : l
+          ),
+        })),
+
       // ── Reorder helpers ──
       reorderRecurringIncomes: (from, to) =>
         set((state) => {
@@ -277,6 +419,13 @@ export const useBudgetStore = create<BudgetStore>()(
           arr.splice(to, 0, item);
           return { hasUserEdits: true, oneTimeExpenses: arr };
         }),
+      reorderStudentLoans: (from, to) =>
+        set((state) => {
+          const arr = [...(state.studentLoans ?? [])];
+          const [item] = arr.splice(from, 1) as [typeof arr[0]];
+          arr.splice(to, 0, item);
+          return { hasUserEdits: true, studentLoans: arr };
+        }),
 
       // ── Food Budget ──
       updateFoodBudget: (data) =>
@@ -291,47 +440,109 @@ export const useBudgetStore = create<BudgetStore>()(
           hasUserEdits: true,
           transportConfig: { ...state.transportConfig, ...data },
         })),
-      applyTemplate: (config) => set({ ...config, hasUserEdits: false }),
-
-      exportConfig: () => {
-        const state = useBudgetStore.getState();
-        const config: BudgetConfig = {
-          initialBalance: state.initialBalance,
-          projectionMonths: state.projectionMonths,
-          recurringIncomes: state.recurringIncomes,
-          oneTimeIncomes: state.oneTimeIncomes,
-          recurringExpenses: state.recurringExpenses,
-          oneTimeExpenses: state.oneTimeExpenses,
-          foodBudget: state.foodBudget,
-          transportConfig: state.transportConfig,
-        };
-        return JSON.stringify(config, null, 2);
+
+      // ── Tax Return ──
+      updateTaxReturn: (data) =>
+        set((state) => ({
+          hasUserEdits: true,
+          taxReturn: { ...DEFAULT_TAX_RETURN, ...state.taxReturn, ...data },
+        })),
+
+      // ── Holidays ──
+      updateHolidays: (data) =>
+        set((state) => ({
+          hasUserEdits: true,
+          holidays: { ...DEFAULT_HOLIDAYS, ...state.holidays, ...data },
+        })),
+      addCustomHoliday: () =>
+        set((state) => {
+          const holidays = state.holidays ?? DEFAULT_HOLIDAYS;
+          return {
+            hasUserEdits: true,
+            holidays: {
+              ...holidays,
+              custom: [
+                ...holidays.custom,
+                { id: generateId(), label: 'Holiday', date: format(projectionStart(state), 'yyyy-MM-dd') },
+              ],
+            },
+          };
+        }),
+      updateCustomHoliday: (id, data) =>
+        set((state) => {
+          const holidays = state.holidays ?? DEFAULT_HOLIDAYS;
+          return {
+            hasUserEdits: true,
+            holidays: {
+              ...holidays,
+              custom: holidays.custom.map((h) => (h.id === id ? { ...h, ...data } : h)),
+            },
+          };
+        }),
+      removeCustomHoliday: (id) =>
+        set((state) => {
+          const holidays = state.holidays ?? DEFAULT_HOLIDAYS;
+          return {
+            hasUserEdits: true,
+            holidays: { ...holidays, custom: holidays.custom.filter((h) => h.id !== id) },
+          };
+        }),
+
+      // ── Monte Carlo ──
+      updateMonteCarlo: (data) =>
+        set((state) => ({
+          hasUserEdits: true,
+          monteCarlo: { ...DEFAULT_MONTE_CARLO, ...state.monteCarlo, ...data },
+        })),
+      applyTemplate: (config) => set({ ...optionalConfigDefaults, ...config, hasUserEdits: false }),
+
+      exportConfig: (): string => {
+        return JSON.stringify({ version: CONFIG_VERSION, ...selectBudgetConfig(useBudgetStore.getState()) }, null, 2);
       },
 
-      importConfig: (json: string) => {
-        const validation = validateBudgetConfig(json);
-        if (!validation.success) {
-          return validation;
+      importConfig: (json: string, options) => {
+        const result = parseBudgetConfig(json);
+        if (result.success) {
+          set({ ...result.config, hasUserEdits: true });
+          return { success: true };
         }
-        const parsed = JSON.parse(json);
-        const config: BudgetConfig = {
-          initialBalance: parsed.initialBalance,
-          projectionMonths: parsed.projectionMonths,
-          recurringIncomes: parsed.recurringIncomes,
-          oneTimeIncomes: parsed.oneTimeIncomes,
-          recurringExpenses: parsed.recurringExpenses,
-          oneTimeExpenses: parsed.oneTimeExpenses,
-          foodBudget: parsed.foodBudget,
-          transportConfig: parsed.transportConfig,
-        };
-        set({ ...config, hasUserEdits: true });
-        return { success: true };
+        if (options?.recover && result.recovered) {
+          set({ ...result.recovered, hasUserEdits: true });
+          return { success: true };
+        }
+        return { success: false, error: result.error };
       },
       
       resetAll: () => set({ ...defaultConfig, hasUserEdits: false }),
+
+      savedBudgetProblem: null,
+      dismissSavedBudgetProblem: () => set({ savedBudgetProblem: null }),
     }),
     {
       name: 'student-budget-data',
+      version: CONFIG_VERSION,
+      migrate: (persistedState, version) =>
+        migrateConfig(persistedState as Record<string, unknown>, version) as unknown as BudgetStore,
+      // Stored budgets get the same checks and defaults as imported files
+      merge: (persistedState, currentState) => {
+        if (!persistedState) return currentState;
+        const stored = persistedState as Partial<BudgetStore>;
+        const result = readBudgetConfig(stored);
+        const hasUserEdits = stored.hasUserEdits ?? currentState.hasUserEdits;
+        if (result.success) return { ...currentState, ...result.config, hasUserEdits };
+
+        // Keep the valid parts, and what was saved until the next change so the user can download it
+        const { hasUserEdits: _, ...savedConfig } = stored;
+        const savedBudgetProblem: SavedBudgetProblem = {
+          issues: result.issues,
+          error: result.error,
+          recovered: result.recovered !== null,
+          saved: JSON.stringify({ version: CONFIG_VERSION, ...savedConfig }, null, 2),
+        };
+        if (result.recovered) return { ...currentState, ...result.recovered, hasUserEdits, savedBudgetProblem };
+        return { ...currentState, savedBudgetProblem };
+      },
+      partialize: ({ savedBudgetProblem: _, ...state }) => state,
     }
   )
 );
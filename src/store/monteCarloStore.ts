@@ -0,0 +1,18 @@
+import { create } from 'zustand';
+import type { MonteCarloResult } from '@/engine/monteCarlo';
+
+interface MonteCarloStore {
+  /** Latest finished simulation, or null when the simulation is off */
+  result: MonteCarloResult | null;
+  /** Whether a simulation for the current inputs is still running */
+  running: boolean;
+  setResult: (result: MonteCarloResult | null) => void;
+  setRunning: (running: boolean) => void;
+}
+
+export const useMonteCarloStore = create<MonteCarloStore>((set) => ({
+  result: null,
+  running: false,
+  setResult: (result) => set({ result, running: false }),
+  setRunning: (running) => set({ running }),
+}));
@@ -0,0 +1,20 @@
+import { create } from 'zustand';
+import { projectBudget, type ProjectionResult } from '@/engine/projection';
+import { selectBudgetConfig, useBudgetStore } from './budgetStore';
+
+interface ProjectionStore {
+  /** Latest finished projection; kept on screen while a newer one computes */
+  result: ProjectionResult;
+  /** Whether a projection for the current inputs is still computing */
+  loading: boolean;
+  setResult: (result: ProjectionResult) => void;
+  setLoading: (loading: boolean) => void;
+}
+
+export const useProjectionStore = create<ProjectionStore>((set) => ({
+  // The first projection runs on the main thread so the dashboard never starts empty
+  result: projectBudget(selectBudgetConfig(useBudgetStore.getState())),
+  loading: false,
+  setResult: (result) => set({ result, loading: false }),
+  setLoading: (loading) => set({ loading }),
+}));
@@ -0,0 +1,390 @@
+import { isValid, parseISO } from 'date-fns';
+import type {
+  BudgetConfig,
+  CustomHoliday,
+  FoodBudget,
+  HolidayConfig,
+  HoursSegment,
+  LoanDisbursement,
+  MonteCarloConfig,
+  OneTimeExpense,
+  OneTimeIncome,
+  OvertimeConfig,
+  RateChange,
+  Recurrence,
+  RecurringExpense,
+  RecurringIncome,
+  StudentLoan,
+  TaxReturnConfig,
+  TransportConfig,
+  VariablePayConfig,
+  WithholdingConfig,
+} from '@/engine/types';
+import { HOURS_IN_WEEK } from '@/engine/income';
+
+// Field-by-field checks of a budget config read from a file or storage. Each
+// check also repairs what it can, so the valid parts of a config can be kept.
+
+/** How a config with a problem is repaired: the list item is left out, or the value reset */
+export type IssueRecovery =
+  | { kind: 'skipItem'; itemPath: string; itemLabel?: string }
+  | { kind: 'useDefault' };
+
+/** A problem with one field of a budget config */
+export interface ConfigIssue {
+  /** Where the field is, e.g. `recurringIncomes[2].hourlyRate` */
+  path: string;
+  message: string;
+  /** What keeping the rest of the config does about it; unset when it can't be repaired */
+  recovery?: IssueRecovery;
+}
+
+/** Returned by a check for a value that can't be kept */
+const INVALID = Symbol('invalid');
+
+interface CheckContext {
+  issues: ConfigIssue[];
+  /** Replacements for invalid settings outside lists, looked up by path */
+  defaults: unknown;
+}
+
+/** Checks `value` at `path`, returning it without unknown fields, or INVALID */
+type Check = (value: unknown, path: string, context: CheckContext) => unknown;
+
+/** A check for every field of T, so a new field without one is a type error */
+type Shape<T> = { [K in keyof Required<T>]: Check };
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function fieldPath(path: string, key: string | number): string {
+  if (typeof key === 'number') return `${path}[${key}]`;
+  return path ? `${path}.${key}` : key;
+}
+
+function fail(context: CheckContext, path: string, message: string): typeof INVALID {
+  context.issues.push({ path, message });
+  return INVALID;
+}
+
+/** Record how the issues found since `since` are repaired, keeping earlier notes unless `override` */
+function recover(context: CheckContext, since: number, recovery: IssueRecovery, override = false) {
+  for (const issue of context.issues.slice(since)) {
+    if (override || !issue.recovery) issue.recovery = recovery;
+  }
+}
+
+/** The default for a setting, e.g. `foodBudget.weekdayLunch`; none inside lists */
+function defaultAt(defaults: unknown, path: string): unknown {
+  if (path.includes('[')) return undefined;
+  let value = defaults;
+  for (const key of path.split('.')) {
+    value = isRecord(value) ? value[key] : undefined;
+  }
+  return value;
+}
+
+function number({ min, max, integer = false }: { min?: number; max?: number; integer?: boolean } = {}): Check {
+  return (value, path, context) => {
+    if (typeof value !== 'number' || !Number.isFinite(value)) return fail(context, path, 'must be a number');
+    if (integer && !Number.isInteger(value)) return fail(context, path, 'must be a whole number');
+    if (min !== undefined && value < min) return fail(context, path, `must be at least ${min}`);
+    if (max !== undefined && value > max) return fail(context, path, `must be at most ${max}`);
+    return value;
+  };
+}
+
+const string: Check = (value, path, context) =>
+  typeof value === 'string' ? value : fail(context, path, 'must be text');
+
+const boolean: Check = (value, path, context) =>
+  typeof value === 'boolean' ? value : fail(context, path, 'must be true or false');
+
+const isoDate: Check = (value, path, context) =>
+  typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && isValid(parseISO(value))
+    ? value
+    : fail(context, path, 'must be a date (yyyy-mm-dd)');
+
+function oneOf(values: readonly (string | number)[]): Check {
+  return (value, path, context) =>
+    values.includes(value as string | number)
+      ? value
+      : fail(context, path, `must be one of ${values.map((v) => `"${v}"`).join(', ')}`);
+}
+
+/** An optional field; an invalid value is dropped so its default applies */
+function optional(check: Check): Check {
+  return (value, path, context) => {
+    if (value === undefined) return undefined;
+    const since = context.issues.length;
+    const checked = check(value, path, context);
+    if (checked !== INVALID) return checked;
+    recover(context, since, { kind: 'useDefault' });
+    return undefined;
+  };
+}
+
+/** An object with the fields of `shape`; invalid settings are reset to their defaults */
+function object<T>(shape: Shape<T>): Check {
+  return (value, path, context) => {
+    if (!isRecord(value)) return fail(context, path, 'must be an object');
+    const result: Record<string, unknown> = {};
+    let valid = true;
+    for (const [key, check] of Object.entries(shape) as [string, Check][]) {
+      const keyPath = fieldPath(path, key);
+      const since = context.issues.length;
+      let checked = check(value[key], keyPath, context);
+      if (checked === INVALID) {
+        checked = defaultAt(context.defaults, keyPath);
+        if (checked === undefined) {
+          valid = false;
+          continue;
+        }
+        recover(context, since, { kind: 'useDefault' });
+      }
+      if (checked !== undefined) result[key] = checked;
+    }
+    return valid ? result : INVALID;
+  };
+}
+
+/** A list; invalid items are left out, and a value that isn't a list becomes empty */
+function arrayOf(check: Check): Check {
+  return (value, path, context) => {
+    if (!Array.isArray(value)) {
+      const since = context.issues.length;
+      fail(context, path, 'must be a list');
+      recover(context, since, { kind: 'useDefault' });
+      return [];
+    }
+    const result: unknown[] = [];
+    value.forEach((item, i) => {
+      const itemPath = fieldPath(path, i);
+      const since = context.issues.length;
+      const checked = check(item, itemPath, context);
+      if (checked !== INVALID) {
+        result.push(checked);
+        return;
+      }
+      const itemLabel = isRecord(item) && typeof item.label === 'string' ? item.label : undefined;
+      recover(context, since, { kind: 'skipItem', itemPath, itemLabel }, true);
+    });
+    return result;
+  };
+}
+
+function isMonthDayRule(value: unknown): boolean {
+  if (value === 'last' || value === 'last-business') return true;
+  return typeof value === 'number' && Number.isInteger(value) && value >= 1 && value <= 31;
+}
+
+const monthDayRule: Check = (value, path, context) =>
+  isMonthDayRule(value) ? value : fail(context, path, 'must be a day from 1 to 31, "last" or "last-business"');
+
+const amount = number({ min: 0 });
+const percent = number({ min: 0, max: 100 });
+const businessDayAdjustment = optional(oneOf(['none', 'previous', 'next']));
+const filingStatus = oneOf(['single', 'married']);
+
+const recurrence = object<Recurrence>({
+  interval: number({ min: 1, integer: true }),
+  unit: oneOf(['day', 'week', 'month', 'year']),
+  anchorDate: isoDate,
+  dayRule: optional(monthDayRule),
+});
+
+const withholding = object<WithholdingConfig>({
+  enabled: boolean,
+  filingStatus,
+  dependentsCredit: amount,
+  extraWithholding: amount,
+  ficaExempt: boolean,
+  stateRate: percent,
+  preTaxDeductions: amount,
+});
+
+const hoursSegment = object<HoursSegment>({
+  id: string,
+  startDate: isoDate,
+  endDate: isoDate,
+  hoursPerWeek: number({ min: 0, max: HOURS_IN_WEEK }),
+  hourlyRate: optional(amount),
+});
+
+const overtime = object<OvertimeConfig>({
+  enabled: boolean,
+  thresholdHours: number({ min: 0, max: HOURS_IN_WEEK }),
+  multiplier: number({ min: 1 }),
+  differentialHours: number({ min: 0, max: HOURS_IN_WEEK }),
+  differentialRate: amount,
+});
+
+const variablePay = object<VariablePayConfig>({
+  average: amount,
+  rangeType: oneOf(['range', 'stddev']),
+  low: amount,
+  high: amount,
+  stdDev: amount,
+});
+
+const rateChange = object<RateChange>({
+  id: string,
+  date: isoDate,
+  kind: oneOf(['amount', 'percent']),
+  value: number(),
+});
+
+const recurringIncome = object<RecurringIncome>({
+  id: string,
+  label: string,
+  hoursPerWeek: number({ min: 0, max: HOURS_IN_WEEK }),
+  hourlyRate: amount,
+  hoursSchedule: optional(arrayOf(hoursSegment)),
+  frequency: oneOf(['weekly', 'biweekly', 'semimonthly', 'monthly']),
+  semimonthlyDays: optional((value, path, context) => {
+    if (!Array.isArray(value) || value.length !== 2) return fail(context, path, 'must be a list of two days');
+    const days = value.map((day, i) => monthDayRule(day, fieldPath(path, i), context));
+    return days.includes(INVALID) ? INVALID : days;
+  }),
+  payType: optional(oneOf(['hourly', 'salary', 'variable'])),
+  salaryAmount: optional(amount),
+  variablePay: optional(variablePay),
+  overtime: optional(overtime),
+  rateChanges: optional(arrayOf(rateChange)),
+  startDate: isoDate,
+  endDate: optional(isoDate),
+  businessDayAdjustment,
+  withholding: optional(withholding),
+  taxWithholdingRate: optional(percent),
+  enabled: optional(boolean),
+});
+
+const oneTimeIncome = object<OneTimeIncome>({
+  id: string,
+  label: string,
+  amount,
+  date: isoDate,
+  enabled: optional(boolean),
+});
+
+const recurringExpense = object<RecurringExpense>({
+  id: string,
+  label: string,
+  amount,
+  recurrence,
+  startDate: optional(isoDate),
+  endDate: optional(isoDate),
+  businessDayAdjustment,
+  enabled: optional(boolean),
+});
+
+const oneTimeExpense = object<OneTimeExpense>({
+  id: string,
+  label: string,
+  amount,
+  date: isoDate,
+  enabled: optional(boolean),
+});
+
+const foodBudget = object<FoodBudget>({
+  enabled: boolean,
+  weekdayBreakfast: amount,
+  weekdayLunch: amount,
+  weekdayDinner: amount,
+  weekdaySnacks: amount,
+  weekendDailyTotal: amount,
+});
+
+const transportConfig = object<TransportConfig>({
+  enabled: boolean,
+  autoEnabled: boolean,
+  autoWeekdayMiles: amount,
+  autoWeekendMiles: amount,
+  autoMpg: number({ min: 1 }),
+  autoFuelCostPerGallon: amount,
+  publicEnabled: boolean,
+  publicWeeklyCost: amount,
+});
+
+const loanDisbursement = object<LoanDisbursement>({
+  id: string,
+  date: isoDate,
+  amount,
+});
+
+const studentLoan = object<StudentLoan>({
+  id: string,
+  label: string,
+  interestType: oneOf(['subsidized', 'unsubsidized']),
+  interestRate: percent,
+  originationFeePercent: percent,
+  disbursements: arrayOf(loanDisbursement),
+  graduationDate: isoDate,
+  gracePeriodMonths: number({ min: 0, integer: true }),
+  repaymentYears: number({ min: 1, integer: true }),
+  enabled: optional(boolean),
+});
+
+const taxReturn = object<TaxReturnConfig>({
+  enabled: boolean,
+  filingStatus,
+  stateRate: percent,
+  filingMonth: number({ min: 1, max: 12, integer: true }),
+  filingDay: number({ min: 1, max: 31, integer: true }),
+  aotcAmount: amount,
+  otherEducationCredits: amount,
+  yearToDateWages: optional(amount),
+  yearToDateWithheld: optional(amount),
+});
+
+const customHoliday = object<CustomHoliday>({
+  id: string,
+  label: string,
+  date: isoDate,
+});
+
+const holidays = object<HolidayConfig>({
+  useFederalHolidays: boolean,
+  custom: arrayOf(customHoliday),
+});
+
+const monteCarlo = object<MonteCarloConfig>({
+  enabled: boolean,
+  runs: number({ min: 1, integer: true }),
+  foodVariation: percent,
+  fuelPriceVariation: percent,
+});
+
+const budgetConfig = object<BudgetConfig>({
+  initialBalance: number(),
+  recurringIncomes: arrayOf(recurringIncome),
+  oneTimeIncomes: arrayOf(oneTimeIncome),
+  recurringExpenses: arrayOf(recurringExpense),
+  oneTimeExpenses: arrayOf(oneTimeExpense),
+  foodBudget,
+  transportConfig,
+  studentLoans: optional(arrayOf(studentLoan)),
+  taxReturn: optional(taxReturn),
+  holidays: optional(holidays),
+  monteCarlo: optional(monteCarlo),
+  projectionMonths: number({ min: 1, max: 120, integer: true }),
+  startDate: optional(isoDate),
+});
+
+export interface ConfigCheck {
+  /** Every problem found, in field order; empty when the config is valid */
+  issues: ConfigIssue[];
+  /**
+   * The config with invalid list items left out and invalid settings reset
+   * to `defaults`, or null when it can't be repaired
+   */
+  repaired: BudgetConfig | null;
+}
+
+/** Check a budget config, repairing what can be repaired using `defaults` for settings. */
+export function checkBudgetConfig(value: unknown, defaults: BudgetConfig): ConfigCheck {
+  const context: CheckContext = { issues: [], defaults };
+  const checked = budgetConfig(value, '', context);
+  return { issues: context.issues, repaired: checked === INVALID ? null : (checked as BudgetConfig) };
+}
@@ -0,0 +1,66 @@
+import { projectBudget } from '@/engine/projection';
+import { startMonteCarlo } from '@/engine/monteCarlo';
+import type { EngineRequest, EngineResponse, EngineRunRequest } from './engineProtocol';
+
+/** Simulated runs between checks for a cancel message */
+const MONTE_CARLO_BATCH = 10;
+
+/** Ids of simulations in progress, and of those asked to stop */
+const running = new Set<number>();
+const cancelled = new Set<number>();
+
+function respond(response: EngineResponse) {
+  self.postMessage(response);
+}
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+/** Let queued messages (e.g. a cancel) be handled before continuing. */
+function yieldToMessages(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+/** Run the simulation in batches, stopping early if the job is cancelled. */
+async function simulate({ id, config }: EngineRunRequest) {
+  running.add(id);
+  try {
+    const simulation = startMonteCarlo(config);
+    while (!simulation.done) {
+      simulation.runBatch(MONTE_CARLO_BATCH);
+      await yieldToMessages();
+      if (cancelled.has(id)) {
+        respond({ type: 'cancelled', id });
+        return;
+      }
+    }
+    respond({ type: 'result', id, job: 'monteCarlo', result: simulation.finish() });
+  } finally {
+    running.delete(id);
+    cancelled.delete(id);
+  }
+}
+
+self.onmessage = (event: MessageEvent<EngineRequest>) => {
+  const request = event.data;
+  if (request.type === 'cancel') {
+    // Jobs that already finished have nothing to stop
+    if (running.has(request.id)) cancelled.add(request.id);
+    return;
+  }
+
+  const { id } = request;
+  if (request.job === 'monteCarlo') {
+    simulate(request).catch((err: unknown) => respond({ type: 'error', id, message: errorMessage(err) }));
+    return;
+  }
+
+  // A single projection is short enough to run to completion; the client
+  // drops its result if newer inputs arrived meanwhile
+  try {
+    respond({ type: 'result', id, job: 'projection', result: projectBudget(request.config) });
+  } catch (err) {
+    respond({ type: 'error', id, message: errorMessage(err) });
+  }
+};
@@ -0,0 +1,39 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { projectBudget } from '@/engine/projection';
+import { randomBudget } from '@/engine/__tests__/testBudgets';
+import { createEngineClient } from './engineClient';
+
+/** A worker that fails to load, as when its script can't be fetched */
+class FailingWorker {
+  static created = 0;
+  onerror: ((event: { message: string }) => void) | null = null;
+  onmessage = null;
+  onmessageerror = null;
+
+  constructor() {
+    FailingWorker.created++;
+  }
+
+  postMessage() {
+    setTimeout(() => this.onerror?.({ message: 'Failed to load engine.worker.ts' }));
+  }
+
+  terminate() {}
+}
+
+describe('createEngineClient', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('rejects the running request when its worker fails, then runs on the main thread', async () => {
+    vi.stubGlobal('Worker', FailingWorker);
+    const client = createEngineClient();
+    const config = randomBudget(5, 4, 3, new Date(2025, 2, 10));
+
+    await expect(client.run('projection', config)).rejects.toThrow('Failed to load engine.worker.ts');
+    await expect(client.run('projection', config)).resolves.toEqual(projectBudget(config));
+    expect(FailingWorker.created).toBe(1);
+    client.dispose();
+  });
+});
@@ -0,0 +1,171 @@
+import { projectBudget } from '@/engine/projection';
+import { runMonteCarlo } from '@/engine/monteCarlo';
+import type { BudgetConfig } from '@/engine/types';
+import type { EngineJob, EngineJobResults, EngineRequest, EngineResponse } from './engineProtocol';
+
+/**
+ * Runs engine jobs off the main thread. Each job has its own worker, so a
+ * long simulation never holds up a projection.
+ */
+export interface EngineClient {
+  /**
+   * Run a job with the given inputs. Resolves to null when a newer run of
+   * the same job replaces it before it finishes.
+   */
+  run: <J extends EngineJob>(job: J, config: BudgetConfig) => Promise<EngineJobResults[J] | null>;
+  /** Drop any pending or running request for a job */
+  cancel: (job: EngineJob) => void;
+  /** Stop the workers */
+  dispose: () => void;
+}
+
+interface Request {
+  id: number;
+  config: BudgetConfig;
+  /** Replaced by a newer request; its result is no longer wanted */
+  stale: boolean;
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+}
+
+interface JobQueue {
+  job: EngineJob;
+  worker: Worker | null;
+  /** Request the worker is busy with */
+  running: Request | null;
+  /** Latest request waiting for the worker; older waiting ones are dropped */
+  waiting: Request | null;
+}
+
+/** Run a job on the main thread, where workers aren't available (e.g. tests) or have failed. */
+function runJob<J extends EngineJob>(job: J, config: BudgetConfig): EngineJobResults[J] {
+  const results: { [K in EngineJob]: () => EngineJobResults[K] } = {
+    projection: () => projectBudget(config),
+    monteCarlo: () => runMonteCarlo(config),
+  };
+  return results[job]();
+}
+
+export function createEngineClient(): EngineClient {
+  let nextId = 0;
+  /** Set once a worker fails to load or crashes; later requests run on the main thread */
+  let workersFailed = false;
+  const queues: Record<EngineJob, JobQueue> = {
+    projection: { job: 'projection', worker: null, running: null, waiting: null },
+    monteCarlo: { job: 'monteCarlo', worker: null, running: null, waiting: null },
+  };
+
+  function handleResponse(queue: JobQueue, response: EngineResponse) {
+    const request = queue.running;
+    if (!request || request.id !== response.id) return;
+    queue.running = null;
+    if (!request.stale) {
+      if (response.type === 'result') request.resolve(response.result);
+      else if (response.type === 'error') request.reject(new Error(response.message));
+      else request.resolve(null);
+    }
+    start(queue);
+  }
+
+  function workerFor(queue: JobQueue): Worker {
+    if (!queue.worker) {
+      const worker = new Worker(new URL('./engine.worker.ts', import.meta.url), { type: 'module' });
+      worker.onmessage = (event: MessageEvent<EngineResponse>) => handleResponse(queue, event.data);
+      worker.onerror = (event) => handleWorkerError(queue, event.message || 'The engine worker failed');
+      worker.onmessageerror = () => handleWorkerError(queue, "The engine worker's reply couldn't be read");
+      queue.worker = worker;
+    }
+    return queue.worker;
+  }
+
+  /**
+   * A worker that fails won't answer its running request, so reject it
+   * rather than leave the job waiting forever, and run the rest on the main thread.
+   */
+  function handleWorkerError(queue: JobQueue, message: string) {
+    workersFailed = true;
+    queue.worker?.terminate();
+    queue.worker = null;
+    const running = queue.running;
+    queue.running = null;
+    if (running && !running.stale) running.reject(new Error(message));
+    const waiting = queue.waiting;
+    if (waiting) runOnMainThread(queue, waiting);
+  }
+
+  /** Run a request without a worker, still skipping it if it is replaced before it starts. */
+  function runOnMainThread(queue: JobQueue, request: Request) {
+    queue.waiting = request;
+    queueMicrotask(() => {
+      if (queue.waiting !== request) return;
+      queue.waiting = null;
+      try {
+        request.resolve(runJob(queue.job, request.config));
+      } catch (err) {
+        request.reject(err instanceof Error ? err : new Error(String(err)));
+      }
+    });
+  }
+
+  /** Send the waiting request to the worker, if it is free. */
+  function start(queue: JobQueue) {
+    const request = queue.waiting;
+    if (queue.running || !request) return;
+    queue.waiting = null;
+    queue.running = request;
+    const message: EngineRequest = { type: 'run', id: request.id, job: queue.job, config: request.config };
+    try {
+      workerFor(queue).postMessage(message);
+    } catch (err) {
+      handleWorkerError(queue, err instanceof Error ? err.message : String(err));
+    }
+  }
+
+  /** Mark a job's requests stale, asking the worker to stop the running one. */
+  function supersede(queue: JobQueue) {
+    if (queue.waiting) {
+      queue.waiting.resolve(null);
+      queue.waiting = null;
+    }
+    const running = queue.running;
+    if (running && !running.stale) {
+      running.stale = true;
+      running.resolve(null);
+      const message: EngineRequest = { type: 'cancel', id: running.id };
+      queue.worker?.postMessage(message);
+    }
+  }
+
+  return {
+    run: (job, config) => {
+      const queue = queues[job];
+      supersede(queue);
+      return new Promise((resolve, reject) => {
+        const request: Request = {
+          id: ++nextId,
+          config,
+          stale: false,
+          resolve: resolve as (result: unknown) => void,
+          reject,
+        };
+
+        if (typeof Worker === 'undefined' || workersFailed) {
+          runOnMainThread(queue, request);
+          return;
+        }
+
+        queue.waiting = request;
+        start(queue);
+      });
+    },
+    cancel: (job) => supersede(queues[job]),
+    dispose: () => {
+      for (const queue of Object.values(queues)) {
+        supersede(queue);
+        queue.worker?.terminate();
+        queue.worker = null;
+        queue.running = null;
+      }
+    },
+  };
+}
@@ -0,0 +1,40 @@
+import type { BudgetConfig } from '@/engine/types';
+import type { ProjectionResult } from '@/engine/projection';
+import type { MonteCarloResult } from '@/engine/monteCarlo';
+
+/** Work the engine worker can do, and what each job returns */
+export interface EngineJobResults {
+  projection: ProjectionResult;
+  monteCarlo: MonteCarloResult;
+}
+
+export type EngineJob = keyof EngineJobResults;
+
+/** Start a job */
+export interface EngineRunRequest {
+  type: 'run';
+  /** Unique per request; responses echo it so stale results can be dropped */
+  id: number;
+  job: EngineJob;
+  config: BudgetConfig;
+}
+
+/** Stop a running job at its next batch; the worker answers 'cancelled' */
+export interface EngineCancelRequest {
+  type: 'cancel';
+  id: number;
+}
+
+/** Messages sent to the engine worker */
+export type EngineRequest = EngineRunRequest | EngineCancelRequest;
+
+/** A finished job, typed by which job it was */
+export type EngineResultResponse = {
+  [J in EngineJob]: { type: 'result'; id: number; job: J; result: EngineJobResults[J] };
+}[EngineJob];
+
+/** Messages sent back by the engine worker */
+export type EngineResponse =
+  | EngineResultResponse
+  | { type: 'cancelled'; id: number }
+  | { type: 'error'; id: number; message: string };
@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
 import tailwindcss from '@tailwindcss/vite';
@@ -11,4 +12,8 @@ export default defineConfig(({ command }) => ({
     },
   },
   base: command === 'build' ? '/student-budget-visualizer/' : '/',
+  test: {
+    // Golden projections cover DST changes, so results must not depend on the machine's zone
+    env: { TZ: 'America/New_York' },
+  },
 }));